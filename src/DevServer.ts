@@ -0,0 +1,513 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+import * as FS from 'fs';
+import * as Path from 'path';
+import * as HTTP from 'http';
+import * as URL from 'url';
+
+import { Resolver, ResolverOptions, getLoaderConfig } from './Resolver';
+import { FallbackProvider, unpkg } from './FallbackProvider';
+import { ConfigLoader, resolveURL } from './Loader';
+import { readBody } from './fetchResponse';
+import { ifExists, fetch, path2url } from './fetch';
+import { crawl, CrawlResult, CrawlError } from './crawl';
+import { FileWatcher, FileEvent } from './FileWatcher';
+import { ManifestData, manifestName } from './Manifest';
+import { describeError } from './rpc';
+
+export interface DevServerOptions {
+	/** URL address the directory is served from, with a slash at the end.
+	  * Default is guessed from the Host header if it names this machine,
+	  * and the path the server is mounted on. */
+	baseURL?: string;
+
+	/** Origin of pages allowed to read responses from another address,
+	  * like http://localhost:3000. Default is to allow none. */
+	origin?: string;
+
+	/** Path (relative to the base URL) of the server's own endpoints,
+	  * with a slash at the end. Default is .cresolve/ */
+	prefix?: string;
+
+	/** Environment: production or development. Default is development. */
+	env?: string;
+
+	/** Options for the resolver running in Node.js. */
+	resolver?: ResolverOptions;
+
+	/** Report changed files to browsers using EventSource and make the
+	  * resolver forget them. Default is true. */
+	watch?: boolean;
+}
+
+/** Content types of files served, by extension. */
+
+const typeTbl: { [ext: string]: string } = {
+	'.html': 'text/html; charset=utf-8',
+	'.htm': 'text/html; charset=utf-8',
+	'.js': 'application/javascript; charset=utf-8',
+	'.mjs': 'application/javascript; charset=utf-8',
+	'.cjs': 'application/javascript; charset=utf-8',
+	'.jsx': 'application/javascript; charset=utf-8',
+	'.ts': 'application/javascript; charset=utf-8',
+	'.tsx': 'application/javascript; charset=utf-8',
+	'.json': 'application/json; charset=utf-8',
+	'.map': 'application/json; charset=utf-8',
+	'.css': 'text/css; charset=utf-8',
+	'.txt': 'text/plain; charset=utf-8',
+	'.md': 'text/plain; charset=utf-8',
+	'.svg': 'image/svg+xml',
+	'.png': 'image/png',
+	'.jpg': 'image/jpeg',
+	'.jpeg': 'image/jpeg',
+	'.gif': 'image/gif',
+	'.ico': 'image/x-icon',
+	'.wasm': 'application/wasm',
+	'.woff': 'font/woff',
+	'.woff2': 'font/woff2'
+};
+
+function getType(name: string) {
+	const ext = (name.match(/\.[^./]*$/) || [ '' ])[0].toLowerCase();
+
+	return(typeTbl[ext] || 'application/octet-stream');
+}
+
+/** Check if a path has any hidden component like .git or .env,
+  * never served. */
+
+function isHidden(pathname: string) {
+	return(/(^|[/\\])\./.test(pathname));
+}
+
+/** Check if a host name from a Host header refers to this machine.
+  *
+  * @param localAddress Address the request arrived at. */
+
+function isLocalHost(host: string, localAddress: string) {
+	const name = host.replace(/:[0-9]*$/, '').replace(/^\[(.*)\]$/, '$1').toLowerCase();
+
+	return(name == localAddress || name == '::1' || /^127\./.test(name) || /(^|\.)localhost$/.test(name));
+}
+
+/** Parse and serialize an absolute URL address, resolving any
+  * . and .. path segments.
+  *
+  * @return Normalized address or undefined if invalid. */
+
+function normalizeURL(uri: string) {
+	const url: typeof URL = eval("require('url')");
+
+	try {
+		return(new url.URL(uri).href);
+	} catch(err) {
+		return(void 0);
+	}
+}
+
+/** Get the constant part at the start of package root addresses
+  * from a fallback provider. */
+
+function getProviderRoot(provider: FallbackProvider) {
+	const marker = '\u0000';
+	const root = provider.getRoot(marker + 'name', marker + 'version');
+	const pos = root.indexOf(marker);
+
+	return(normalizeURL(pos < 0 ? root + '/' : root.substr(0, pos)));
+}
+
+/** Serve a project directory to browsers in development, resolving
+  * modules in Node.js. Besides the files, it serves (under the prefix):
+  *
+  * - config?entry=... SystemJS configuration generated by following
+  *   all imports from an entry point (add format=js for a script).
+  * - exists?url=... A manifest batch endpoint (see ManifestData)
+  *   also reporting redirections, served as cresolve-manifest.json
+  *   in any directory without such a file.
+  * - proxy/... Files of packages from fallback providers (like UNPKG),
+  *   fetched and cached in Node.js (see setDiskCache), with redirections.
+  *   Other addresses are refused with status 403.
+  * - events Changed files for connectReload, if watching.
+  *
+  * Addresses in responses refer to this server only, so browsers need
+  * no other network access. Hidden files like .git and .env are refused
+  * with status 403. */
+
+export class DevServer {
+
+	/** @param dir Native path of the directory to serve. */
+
+	constructor(dir: string, public options: DevServerOptions = {}) {
+		const path: typeof Path = eval("require('path')");
+
+		this.dir = path.resolve(dir);
+		this.fileBase = path2url(this.dir) + '/';
+		this.prefix = options.prefix || '.cresolve/';
+
+		this.resolver = new Resolver(ifExists, fetch, void 0, options.resolver);
+		this.proxyRootList = ((options.resolver && options.resolver.fallbacks) || [ unpkg ]).map(getProviderRoot);
+		this.resolver.attach(new ConfigLoader(this.fileBase, this.resolver.systemConfig), options.env || 'development');
+	}
+
+	/** Handle a request. Usable as a Node.js HTTP request handler
+	  * or Connect / Express middleware.
+	  *
+	  * @param next Function called instead of responding with 404
+	  *   if a file is missing. */
+
+	handle(req: HTTP.IncomingMessage, res: HTTP.ServerResponse, next?: (err?: any) => void) {
+		const url: typeof URL = eval("require('url')");
+		const parsed = url.parse(req.url || '/', true);
+		const base = this.getBase(req);
+		let pathname: string;
+
+		try {
+			pathname = decodeURIComponent(parsed.pathname || '/').replace(/^\/+/, '');
+		} catch(err) {
+			return(this.sendError(res, 400, 'Invalid path'));
+		}
+
+		if(req.method != 'GET' && req.method != 'HEAD') {
+			return(next ? next() : this.sendError(res, 405, 'Method not allowed'));
+		}
+
+		if(pathname.substr(0, this.prefix.length) == this.prefix) {
+			const command = pathname.substr(this.prefix.length);
+			const query = parsed.query;
+
+			if(command == 'config') return(this.sendConfig(res, base, query.entry, query.format));
+			if(command == 'exists') return(this.sendExists(res, base, query.url || []));
+			if(command == 'events' && this.options.watch !== false) return(this.getWatcher(base).handleEvents(req, res));
+			if(command.substr(0, 6) == 'proxy/') {
+				const uri = this.toPrivate(base + this.prefix + command, base);
+
+				if(uri && !this.isProxied(uri)) return(this.sendError(res, 403, 'Forbidden'));
+				return(this.sendProxied(res, base, uri));
+			}
+		}
+
+		this.sendFile(req, res, base, pathname, next);
+	}
+
+	/** Stop watching files and disconnect all browsers. */
+
+	close() {
+		if(this.watcher) this.watcher.close();
+		this.watcher = void 0;
+	}
+
+	/** Convert an address used in Node.js to one served to browsers. */
+
+	toPublic(uri: string, base: string) {
+		const root = this.fileBase.replace(/\/$/, '');
+
+		// Package roots have no slash at the end.
+		if(uri == root) return(base.replace(/\/$/, ''));
+
+		if(uri.substr(0, this.fileBase.length) == this.fileBase) return(base + uri.substr(this.fileBase.length));
+		if(uri.substr(0, base.length) == base) return(uri);
+
+		const remote = this.isProxied(uri) && uri.match(/^(https?):\/\/(.*)$/i);
+
+		return(remote ? base + this.prefix + 'proxy/' + remote[1].toLowerCase() + '/' + remote[2] : uri);
+	}
+
+	/** Convert an address served to browsers to one used in Node.js.
+	  *
+	  * @return Converted address or undefined if not served by this server. */
+
+	toPrivate(uri: string, base: string) {
+		if(uri.substr(0, base.length) != base) return(void 0);
+
+		const path = uri.substr(base.length);
+		const proxyPrefix = this.prefix + 'proxy/';
+
+		if(path.substr(0, proxyPrefix.length) != proxyPrefix) return(this.fileBase + path);
+
+		const remote = path.substr(proxyPrefix.length).match(/^(https?)\/(.+)$/);
+
+		return(remote ? remote[1] + '://' + remote[2] : void 0);
+	}
+
+	/** Check if an address is under the root of any fallback provider,
+	  * to avoid proxying anything else. */
+
+	isProxied(uri: string) {
+		const normalized = normalizeURL(uri);
+
+		if(!normalized) return(false);
+
+		for(let root of this.proxyRootList) {
+			if(root && normalized.substr(0, root.length) == root) return(true);
+		}
+
+		return(false);
+	}
+
+	/** Guess the URL address of the served directory from the request:
+	  * the host and the path Connect or Express mounted the server at.
+	  * Host headers naming other machines may come from other sites
+	  * through DNS rebinding, so the address the request arrived at
+	  * is used instead. */
+
+	private getBase(req: HTTP.IncomingMessage) {
+		if(this.options.baseURL) return(this.options.baseURL);
+
+		const original: string = (req as any).originalUrl || req.url || '/';
+		const own = req.url || '/';
+		const mount = original.substr(-own.length) == own ? original.substr(0, original.length - own.length) : '';
+		const secure = !!(req.socket as any).encrypted;
+		const localAddress = (req.socket.localAddress || '127.0.0.1').replace(/^::ffff:/i, '');
+		let host = req.headers.host || '';
+
+		if(!isLocalHost(host, localAddress)) {
+			host = (localAddress.indexOf(':') >= 0 ? '[' + localAddress + ']' : localAddress) + ':' + req.socket.localPort;
+		}
+
+		return((secure ? 'https://' : 'http://') + host + mount.replace(/\/?$/, '/'));
+	}
+
+	private getWatcher(base: string) {
+		if(!this.watcher) {
+			this.watcher = new FileWatcher(this.dir, { baseURL: base, origin: this.options.origin }).on(
+				(event: FileEvent) => this.resolver.invalidate(this.toPrivate(event.url, base)!).catch(() => {})
+			);
+		}
+
+		return(this.watcher);
+	}
+
+	/** Serve configuration generated for an entry point,
+	  * or the imports that could not be resolved with status 500. */
+
+	private sendConfig(res: HTTP.ServerResponse, base: string, entry?: string | string[], format?: string | string[]) {
+		if(typeof(entry) != 'string' || !entry) return(this.sendError(res, 400, 'Missing entry parameter'));
+
+		const uri = this.toPrivate(resolveURL(entry, base), base);
+		if(!uri) return(this.sendError(res, 400, 'Entry point not served here: ' + entry));
+
+		crawl(this.resolver, uri, fetch).then((result: CrawlResult) => {
+			if(result.errors.length) {
+				return(this.sendJSON(res, base, { errors: result.errors.map((err: CrawlError) => ({
+					name: err.name,
+					parentAddress: err.parentAddress,
+					message: err.message,
+					trace: err.trace && err.trace.explain()
+				})) }, 500));
+			}
+
+			const config = getLoaderConfig(this.resolver.systemConfig);
+
+			if(format == 'js') {
+				this.send(res, 200, 'application/javascript; charset=utf-8', 'System.config(' + this.serialize(config, base) + ');\n');
+			} else {
+				this.sendJSON(res, base, config);
+			}
+		}).catch((err: any) => this.sendError(res, 500, (err && err.message) || 'Crawling failed'));
+	}
+
+	/** Serve a manifest batch endpoint response mapping each address
+	  * to its target after redirections or null if missing. */
+
+	private sendExists(res: HTTP.ServerResponse, base: string, param: string | string[]) {
+		const fs: typeof FS = eval("require('fs')");
+		const uriList = typeof(param) == 'string' ? [ param ] : param;
+		const resultTbl: { [uri: string]: string | null } = {};
+
+		Promise.all(uriList.map((uri: string) => {
+			const target = this.toPrivate(uri, base);
+			let found: Promise<string>;
+
+			if(!target) return;
+
+			if(target.substr(0, this.fileBase.length) == this.fileBase) {
+				const nativePath = this.getPath(target);
+
+				// Never report files outside the directory or hidden files.
+				if(!nativePath) {
+					resultTbl[uri] = null;
+					return;
+				}
+
+				// Directories are not files, even if they exist.
+
+				found = new Promise((resolve: (uri: string) => void, reject) => fs.stat(
+					nativePath,
+					(err: NodeJS.ErrnoException, stat: FS.Stats) => !err && stat.isFile() ? resolve(target) : reject(err)
+				));
+			} else if(this.isProxied(target)) {
+				found = ifExists(target);
+			} else return;
+
+			return(found.then(
+				(found: string) => { resultTbl[uri] = this.toPublic(found, base); },
+				() => { resultTbl[uri] = null; }
+			));
+		})).then(() => this.sendJSON(res, base, resultTbl));
+	}
+
+	/** Serve a file from a fallback provider, redirecting if the provider does. */
+
+	private sendProxied(res: HTTP.ServerResponse, base: string, uri?: string) {
+		if(!uri) return(this.sendError(res, 404, 'Not found'));
+
+		ifExists(uri).then((target: string) => {
+			if(target != uri) {
+				res.writeHead(302, this.getHeaders({ 'Location': this.toPublic(target, base) }));
+				res.end();
+				return;
+			}
+
+			// Bodies are not kept in memory, only in the disk cache if set.
+			return(fetch(uri).then(readBody).then(
+				(body: string | Buffer) => this.send(res, 200, getType(uri.replace(/[?#].*$/, '')), body)
+			));
+		}).catch((err: any) => {
+			const info = describeError(err, uri);
+
+			this.sendError(res, info.status || 502, info.message);
+		});
+	}
+
+	/** Serve a file from the directory, or index.html inside a subdirectory.
+	  * Missing manifests are replaced with one referring to the batch endpoint. */
+
+	private sendFile(
+		req: HTTP.IncomingMessage,
+		res: HTTP.ServerResponse,
+		base: string,
+		pathname: string,
+		next?: (err?: any) => void
+	) {
+		const fs: typeof FS = eval("require('fs')");
+		const path: typeof Path = eval("require('path')");
+		let nativePath = path.resolve(this.dir, pathname);
+
+		// Never serve files outside the directory or hidden files.
+		if(
+			(nativePath != this.dir && nativePath.substr(0, this.dir.length + 1) != this.dir + path.sep) ||
+			isHidden(path.relative(this.dir, nativePath))
+		) {
+			return(this.sendError(res, 403, 'Forbidden'));
+		}
+
+		const missing = () => {
+			if(pathname.replace(/^.*\//, '') == manifestName) {
+				const manifest: ManifestData = { cresolve: 1, batch: base + this.prefix + 'exists' };
+
+				return(this.sendJSON(res, base, manifest));
+			}
+
+			if(next) next();
+			else this.sendError(res, 404, 'Not found');
+		};
+
+		fs.stat(nativePath, (err: NodeJS.ErrnoException, stat: FS.Stats) => {
+			if(!err && stat.isDirectory()) {
+				if(pathname && pathname.substr(-1) != '/') {
+					res.writeHead(301, { 'Location': base + pathname.split('/').map(encodeURIComponent).join('/') + '/' });
+					res.end();
+					return;
+				}
+
+				nativePath = path.join(nativePath, 'index.html');
+				return(fs.stat(nativePath, (err: NodeJS.ErrnoException, stat: FS.Stats) => {
+					if(err || !stat.isFile()) return(missing());
+					this.stream(req, res, nativePath, stat);
+				}));
+			}
+
+			if(err || !stat.isFile()) return(missing());
+			this.stream(req, res, nativePath, stat);
+		});
+	}
+
+	private stream(req: HTTP.IncomingMessage, res: HTTP.ServerResponse, nativePath: string, stat: FS.Stats) {
+		const fs: typeof FS = eval("require('fs')");
+
+		res.writeHead(200, this.getHeaders({
+			'Content-Type': getType(nativePath),
+			'Content-Length': stat.size,
+			'Cache-Control': 'no-cache'
+		}));
+
+		if(req.method == 'HEAD') return(res.end());
+
+		fs.createReadStream(nativePath).on('error', () => res.end()).pipe(res);
+	}
+
+	/** Serialize a value as JSON, converting all addresses inside,
+	  * also in messages. */
+
+	private serialize(value: any, base: string) {
+		return(JSON.stringify(value, null, '\t').replace(
+			/(file|https?):\/\/[^"\\\s]*/g,
+			(uri: string) => this.toPublic(uri, base)
+		));
+	}
+
+	private sendJSON(res: HTTP.ServerResponse, base: string, value: any, status = 200) {
+		this.send(res, status, 'application/json; charset=utf-8', this.serialize(value, base) + '\n');
+	}
+
+	private sendError(res: HTTP.ServerResponse, status: number, message: string) {
+		this.send(res, status, 'text/plain; charset=utf-8', message + '\n');
+	}
+
+	private send(res: HTTP.ServerResponse, status: number, type: string, body: string | Buffer) {
+		res.writeHead(status, this.getHeaders({
+			'Content-Type': type,
+			'Content-Length': Buffer.byteLength(body),
+			'Cache-Control': 'no-cache'
+		}));
+
+		res.end(body);
+	}
+
+	/** Allow reading a response from the configured origin, if any. */
+
+	private getHeaders(headers: HTTP.OutgoingHttpHeaders) {
+		if(this.options.origin) headers['Access-Control-Allow-Origin'] = this.options.origin;
+
+		return(headers);
+	}
+
+	/** Convert a file:// address inside the directory to a native path.
+	  *
+	  * @return Native path or undefined if outside the directory or hidden. */
+
+	private getPath(uri: string) {
+		const path: typeof Path = eval("require('path')");
+		let nativePath: string;
+
+		try {
+			nativePath = path.resolve(this.dir, decodeURIComponent(uri.substr(this.fileBase.length).replace(/[?#].*$/, '')));
+		} catch(err) {
+			return(void 0);
+		}
+
+		if(nativePath != this.dir && nativePath.substr(0, this.dir.length + 1) != this.dir + path.sep) return(void 0);
+		if(isHidden(path.relative(this.dir, nativePath))) return(void 0);
+
+		return(nativePath);
+	}
+
+	/** Native path of the served directory. */
+	dir: string;
+
+	/** URL address of the served directory in Node.js, with a slash at the end. */
+	fileBase: string;
+
+	/** Path of the server's own endpoints, with a slash at the end. */
+	prefix: string;
+
+	/** Resolver running in Node.js, using file:// addresses. */
+	resolver: Resolver;
+
+	/** Normalized addresses all proxied files must start with. */
+	private proxyRootList: (string | undefined)[];
+
+	private watcher?: FileWatcher;
+
+}
@@ -0,0 +1,169 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+import * as FS from 'fs';
+import * as Path from 'path';
+import * as Crypto from 'crypto';
+
+import { CacheEntry, RequestResult, StorageBackend, isFreshEntry, requestWithStorage } from './storage';
+
+export interface DiskCacheOptions {
+	/** Time in milliseconds before results get fetched again,
+	  * except for immutable versioned CDN addresses.
+	  * Default is to keep results until the cache is cleared. */
+	ttl?: number;
+}
+
+/** Number of temporary files written by this process. */
+let tempCount = 0;
+
+/** Persistent cache of HTTP request results in Node.js, one JSON file
+  * per URL address named after its hash. Missing files are cached with
+  * their status codes. */
+
+export class DiskCache implements StorageBackend {
+
+	/** @param dir Native path of cache directory, created when needed. */
+
+	constructor(public dir: string, public options: DiskCacheOptions = {}) {}
+
+	/** Get native path of the file storing results for an URL address. */
+
+	private getPath(uri: string) {
+		const crypto: typeof Crypto = eval("require('crypto')");
+		const path: typeof Path = eval("require('path')");
+		const hash = crypto.createHash('sha1').update(uri).digest('hex');
+
+		return(path.join(this.dir, hash.substr(0, 2), hash.substr(2) + '.json'));
+	}
+
+	/** Check if a stored result can be used without fetching again. */
+
+	isFresh(entry: CacheEntry) {
+		return(isFreshEntry(entry, this.options.ttl));
+	}
+
+	/** Read the stored result for an URL address.
+	  *
+	  * @return Promise resolving to the result, or undefined if missing
+	  *   or unreadable. */
+
+	read(uri: string): Promise<CacheEntry | undefined> {
+		const fs: typeof FS = eval("require('fs')");
+
+		return(new Promise((resolve: (entry?: CacheEntry) => void) => {
+			fs.readFile(this.getPath(uri), 'utf-8', (err: NodeJS.ErrnoException, data: string) => {
+				let entry: CacheEntry | undefined;
+
+				try {
+					if(!err) entry = JSON.parse(data);
+				} catch(err) {}
+
+				resolve(entry && entry.url == uri ? entry : void 0);
+			});
+		}));
+	}
+
+	/** Store a result, replacing any earlier result for the same URL address. */
+
+	write(entry: CacheEntry): Promise<void> {
+		const fs: typeof FS = eval("require('fs')");
+		const path: typeof Path = eval("require('path')");
+		const nativePath = this.getPath(entry.url);
+		// Unique within and between processes, for concurrent writes.
+		const tempPath = nativePath + '.' + process.pid + '-' + (++tempCount) + '.tmp';
+
+		return(new Promise((resolve: () => void, reject) => {
+			fs.mkdir(path.dirname(nativePath), { recursive: true }, (err: NodeJS.ErrnoException) => {
+				if(err) return(reject(err));
+
+				// Write to a temporary file first, so other processes
+				// never read partial results.
+
+				fs.writeFile(tempPath, JSON.stringify(entry), 'utf-8', (err: NodeJS.ErrnoException) => {
+					if(err) return(reject(err));
+
+					fs.rename(tempPath, nativePath, (err: NodeJS.ErrnoException) => err ? reject(err) : resolve());
+				});
+			});
+		}));
+	}
+
+	/** Remove the stored result for an URL address, if any. */
+
+	remove(uri: string): Promise<void> {
+		const fs: typeof FS = eval("require('fs')");
+
+		return(new Promise((resolve: () => void) => {
+			fs.unlink(this.getPath(uri), () => resolve());
+		}));
+	}
+
+	/** Make an HTTP request through the cache, like requestWithStorage. */
+
+	request(
+		uri: string,
+		head: boolean,
+		send: (uri: string, head?: boolean) => Promise<RequestResult>
+	): Promise<RequestResult> {
+		return(requestWithStorage(this, uri, head, send));
+	}
+
+	/** List all stored results. */
+
+	list() {
+		const fs: typeof FS = eval("require('fs')");
+		const path: typeof Path = eval("require('path')");
+
+		const readDir = (dir: string) => new Promise((resolve: (nameList: string[]) => void) => {
+			fs.readdir(dir, (err: NodeJS.ErrnoException, nameList: string[]) => resolve(err ? [] : nameList));
+		});
+
+		const result = readDir(this.dir).then((dirList: string[]) => Promise.all(dirList.map(
+			(name: string) => readDir(path.join(this.dir, name)).then((fileList: string[]) => Promise.all(
+				fileList.filter((file: string) => file.match(/\.json$/)).map(
+					(file: string) => new Promise((resolve: (entry?: CacheEntry) => void) => {
+						fs.readFile(path.join(this.dir, name, file), 'utf-8', (err: NodeJS.ErrnoException, data: string) => {
+							try {
+								resolve(err ? void 0 : JSON.parse(data));
+							} catch(err) {
+								resolve(void 0);
+							}
+						});
+					})
+				)
+			))
+		))).then((entryListList: (CacheEntry | undefined)[][]) => {
+			const entryList: CacheEntry[] = [];
+
+			for(let entries of entryListList) {
+				for(let entry of entries) if(entry) entryList.push(entry);
+			}
+
+			return(entryList.sort((a: CacheEntry, b: CacheEntry) => a.url < b.url ? -1 : a.url > b.url ? 1 : 0));
+		});
+
+		return(result);
+	}
+
+	/** Remove stored results.
+	  *
+	  * @param prefix Only remove results for URL addresses starting
+	  *   with this, or all if undefined.
+	  * @return Promise resolving to the number of results removed. */
+
+	clear(prefix?: string): Promise<number> {
+		const fs: typeof FS = eval("require('fs')");
+
+		const result = this.list().then((entryList: CacheEntry[]) => Promise.all(entryList.filter(
+			(entry: CacheEntry) => !prefix || entry.url.substr(0, prefix.length) == prefix
+		).map(
+			(entry: CacheEntry) => new Promise((resolve: (removed: number) => void) => {
+				fs.unlink(this.getPath(entry.url), (err: NodeJS.ErrnoException) => resolve(err ? 0 : 1));
+			})
+		))).then((removedList: number[]) => removedList.reduce((total: number, removed: number) => total + removed, 0));
+
+		return(result);
+	}
+
+}
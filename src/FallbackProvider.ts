@@ -0,0 +1,36 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+/** Source of packages not installed locally, like a CDN,
+  * an npm mirror or a local directory of unpacked packages. */
+
+export interface FallbackProvider {
+	/** Name recorded in generated configuration for packages served. */
+	name: string;
+
+	/** Get URL address of a package root directory
+	  * (without slash at the end).
+	  *
+	  * @param packageName Name of npm package.
+	  * @param version Version number, range or tag. */
+	getRoot(packageName: string, version: string): string;
+}
+
+/** Create a fallback provider from an URL address template.
+  *
+  * @param name Name recorded in generated configuration.
+  * @param template Package root address, where {name} and {version}
+  *   are replaced with the package name and version. */
+
+export function createProvider(name: string, template: string): FallbackProvider {
+	return({
+		name,
+		getRoot: (packageName: string, version: string) => template.replace(
+			/\{(name|version)\}/g,
+			(match: string, key: string) => key == 'name' ? packageName : version
+		)
+	});
+}
+
+export const unpkg = createProvider('unpkg', 'https://unpkg.com/{name}@{version}');
+export const jsdelivr = createProvider('jsdelivr', 'https://cdn.jsdelivr.net/npm/{name}@{version}');
@@ -0,0 +1,249 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+import * as FS from 'fs';
+import * as Path from 'path';
+import * as HTTP from 'http';
+
+import { path2url } from './fetch';
+
+/** Change to a file reported by a watcher. */
+
+export interface FileEvent {
+	/** add if the file was created or replaced, change if its contents
+	  * changed or unlink if it was removed. */
+	type: 'add' | 'change' | 'unlink';
+	/** URL address of the file. */
+	url: string;
+}
+
+export interface FileWatcherOptions {
+	/** URL address the directory is served from, with a slash at the end.
+	  * Default is its file:// address. */
+	baseURL?: string;
+	/** Pattern matching paths (relative to the directory) to ignore.
+	  * Default ignores .git and node_modules directories. */
+	ignore?: RegExp;
+	/** Time in milliseconds to wait for more changes to the same file
+	  * before reporting it. Default is 50. */
+	delay?: number;
+	/** Origin of pages allowed to receive events from another address,
+	  * like http://localhost:8080. Default is to allow none. */
+	origin?: string;
+}
+
+/** Check if fs.watch can watch directories recursively using native
+  * support. In Linux, Node.js 20 and later emulate it by watching every
+  * subdirectory, including ignored ones like node_modules, so
+  * directories are watched separately instead. */
+
+function hasRecursiveWatch() {
+	return(process.platform == 'darwin' || process.platform == 'win32');
+}
+
+/** Watch a directory recursively in Node.js and report changed files
+  * to handlers and to browsers connected using EventSource,
+  * which can call Resolver invalidate and reload (see connectReload). */
+
+export class FileWatcher {
+
+	/** @param dir Native path of directory to watch. */
+
+	constructor(public dir: string, public options: FileWatcherOptions = {}) {
+		const fs: typeof FS = eval("require('fs')");
+		const path: typeof Path = eval("require('path')");
+
+		this.baseURL = options.baseURL || path2url(path.resolve(dir)) + '/';
+		this.ignore = options.ignore || /(^|\/)(\.git|node_modules)(\/|$)/;
+
+		this.recursive = hasRecursiveWatch();
+
+		if(this.recursive) {
+			this.watcherTbl[''] = fs.watch(dir, { recursive: true }, (type: string, name: string) => {
+				if(name) this.queue(type, ('' + name).replace(/\\/g, '/'));
+			});
+		} else {
+			this.watchTree('');
+		}
+	}
+
+	/** Add a function to call for every change.
+	  *
+	  * @return This watcher, for chaining calls. */
+
+	on(handler: (event: FileEvent) => void) {
+		this.handlerList.push(handler);
+		return(this);
+	}
+
+	/** Send events to a browser connected using EventSource, until it
+	  * disconnects. Usable as a Node.js HTTP request handler. */
+
+	handleEvents(req: HTTP.IncomingMessage, res: HTTP.ServerResponse) {
+		const headers: HTTP.OutgoingHttpHeaders = {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache'
+		};
+
+		if(this.options.origin) headers['Access-Control-Allow-Origin'] = this.options.origin;
+
+		res.writeHead(200, headers);
+
+		// Comment line to flush headers.
+		res.write(': cresolve\n\n');
+
+		this.clientList.push(res);
+
+		req.on('close', () => {
+			this.clientList = this.clientList.filter((other: HTTP.ServerResponse) => other != res);
+		});
+	}
+
+	/** Stop watching and disconnect all browsers. */
+
+	close() {
+		for(let name of Object.keys(this.watcherTbl)) this.watcherTbl[name].close();
+
+		for(let name of Object.keys(this.timerTbl)) clearTimeout(this.timerTbl[name]);
+		for(let res of this.clientList) res.end();
+
+		this.watcherTbl = {};
+		this.timerTbl = {};
+		this.clientList = [];
+	}
+
+	/** Watch a directory and all subdirectories separately,
+	  * where fs.watch cannot do it recursively. Symbolic links
+	  * are not followed, like in recursive watching.
+	  *
+	  * @param name Path relative to the watched directory.
+	  * @param found Function called with paths of files inside. */
+
+	private watchTree(name: string, found?: (name: string) => void) {
+		const fs: typeof FS = eval("require('fs')");
+		const path: typeof Path = eval("require('path')");
+		const nativePath = path.join(this.dir, name);
+		let watcher: FS.FSWatcher;
+
+		if(this.watcherTbl[name] || (name && this.ignore.test(name))) return;
+
+		try {
+			watcher = fs.watch(nativePath, (type: string, child: string) => {
+				if(child) this.queue(type, (name ? name + '/' : '') + child);
+			});
+		} catch(err) {
+			// The directory may have been removed already.
+			return;
+		}
+
+		watcher.on('error', () => this.unwatchTree(name));
+		this.watcherTbl[name] = watcher;
+
+		fs.readdir(nativePath, (err: NodeJS.ErrnoException, childList: string[]) => {
+			if(err) return;
+
+			for(let child of childList) {
+				const childName = (name ? name + '/' : '') + child;
+
+				fs.lstat(path.join(nativePath, child), (err: NodeJS.ErrnoException, stat: FS.Stats) => {
+					if(err || !this.watcherTbl[name]) return;
+
+					if(stat.isDirectory()) this.watchTree(childName, found);
+					else if(found && !this.ignore.test(childName)) found(childName);
+				});
+			}
+		});
+	}
+
+	/** Stop watching a removed directory and all subdirectories. */
+
+	private unwatchTree(name: string) {
+		for(let other of Object.keys(this.watcherTbl)) {
+			if(other == name || other.substr(0, name.length + 1) == name + '/') {
+				this.watcherTbl[other].close();
+				delete this.watcherTbl[other];
+			}
+		}
+	}
+
+	/** Report a change after no more changes to the same file arrive
+	  * within the delay, checking if the file still exists.
+	  *
+	  * @param type Event type from fs.watch: rename or change.
+	  * @param name Path relative to the directory. */
+
+	private queue(type: string, name: string) {
+		const fs: typeof FS = eval("require('fs')");
+		const path: typeof Path = eval("require('path')");
+		const delay = this.options.delay === void 0 ? 50 : this.options.delay;
+
+		if(this.ignore.test(name)) return;
+
+		// A rename followed by a change is still reported as added.
+		if(this.timerTbl[name]) {
+			clearTimeout(this.timerTbl[name]);
+			if(this.typeTbl[name] == 'rename') type = 'rename';
+		}
+
+		this.typeTbl[name] = type;
+
+		this.timerTbl[name] = setTimeout(() => {
+			delete this.timerTbl[name];
+			delete this.typeTbl[name];
+
+			fs.stat(path.join(this.dir, name), (err: NodeJS.ErrnoException, stat: FS.Stats) => {
+				if(!this.recursive) {
+					// Start watching new directories, reporting files
+					// possibly created before the watcher.
+
+					if(err) this.unwatchTree(name);
+					else if(stat.isDirectory()) this.watchTree(name, (child: string) => this.report('add', child));
+				}
+
+				// Contents of directories are reported separately.
+				if(!err && stat.isDirectory() && type != 'rename') return;
+
+				this.report(err ? 'unlink' : type == 'rename' ? 'add' : 'change', name);
+			});
+		}, delay);
+	}
+
+	private report(type: 'add' | 'change' | 'unlink', name: string) {
+		this.emit({
+			type,
+			url: this.baseURL + name.split('/').map(encodeURIComponent).join('/')
+		});
+	}
+
+	private emit(event: FileEvent) {
+		const message = 'data: ' + JSON.stringify(event) + '\n\n';
+
+		for(let handler of this.handlerList) handler(event);
+		for(let res of this.clientList) res.write(message);
+	}
+
+	/** URL address of the directory, with a slash at the end. */
+	baseURL: string;
+
+	/** Watchers by path relative to the directory. Only the root
+	  * is watched if fs.watch supports recursive watching. */
+	private watcherTbl: { [name: string]: FS.FSWatcher } = {};
+
+	/** Pattern matching paths to ignore. */
+	private ignore: RegExp;
+
+	/** Flag whether fs.watch watches subdirectories. */
+	private recursive: boolean;
+
+	private handlerList: ((event: FileEvent) => void)[] = [];
+
+	/** Responses to browsers connected using EventSource. */
+	private clientList: HTTP.ServerResponse[] = [];
+
+	/** Timers for reporting changes, by relative path. */
+	private timerTbl: { [name: string]: any } = {};
+
+	/** First fs.watch event type after the last report, by relative path. */
+	private typeTbl: { [name: string]: string } = {};
+
+}
@@ -0,0 +1,321 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+import { SystemConfig } from './Resolver';
+
+/** Module loader operations needed by the resolver. Adapters implement
+  * these for different loaders, so the same resolution logic can serve
+  * SystemJS 0.21, newer SystemJS versions or es-module-shims. */
+
+export interface Loader {
+	/** Receive configuration generated while resolving imports.
+	  * Always in SystemJS 0.21 format. */
+	config(config: SystemConfig): void;
+
+	/** Remove configuration entries generated earlier, with the same keys
+	  * in map, meta and packages as in the object passed. */
+	unconfig(config: SystemConfig): void;
+
+	/** Resolve an import using only configuration received so far,
+	  * without checking that the file exists.
+	  *
+	  * @param name Original path in import command.
+	  * @param parentAddress URL address of the importing file. */
+	resolve(name: string, parentAddress?: string): Promise<string>;
+
+	/** Check if a module is already defined, without loading it. */
+	has(uri: string): boolean;
+
+	/** Load a module and get its exports. */
+	import(uri: string): Promise<any>;
+
+	/** Define a module with a value as its default export. Names starting
+	  * with global: are modules for global variables in SystemJS meta,
+	  * which loaders without meta support may define as globals instead. */
+	define(name: string, value: any): void;
+
+	/** Remove a module from the registry, so importing it runs it again. */
+	delete(uri: string): void;
+}
+
+const schemeRe = /^[a-z][-+.0-9a-z]*:/i;
+
+/** Get the URL address of the current page or working directory,
+  * with a slash at the end. */
+
+export function getBaseURL() {
+	if(typeof(location) == 'object' && location.href) return(location.href.replace(/[?#].*$/, ''));
+
+	const cwd = typeof(process) == 'object' && process.cwd ? process.cwd().replace(/\\/g, '/') : '';
+
+	return('file://' + (cwd.charAt(0) == '/' ? '' : '/') + cwd.replace(/\/$/, '') + '/');
+}
+
+/** Resolve a relative or absolute path against a URL address,
+  * removing . and .. path components. */
+
+export function resolveURL(name: string, base: string) {
+	if(name.match(schemeRe)) return(name);
+
+	const origin = (base.match(/^[a-z][-+.0-9a-z]*:(\/\/[^/]*)?/i) || [ '' ])[0];
+	const path = name.charAt(0) == '/' ? name : base.substr(origin.length).replace(/[^/]*$/, '') + name;
+	const partList: string[] = [];
+	const last = path.replace(/^.*\//, '');
+
+	for(let part of path.split('/')) {
+		if(part == '..') {
+			if(partList.length > 1) partList.pop();
+		} else if(part != '.') partList.push(part);
+	}
+
+	// Keep a slash at the end after a final . or .. component.
+	if(last == '.' || last == '..') partList.push('');
+
+	return(origin + partList.join('/'));
+}
+
+/** Find the longest key in a SystemJS map matching a name or its
+  * beginning followed by a slash. */
+
+function matchMap(map: { [name: string]: string }, name: string) {
+	let best: string | undefined;
+
+	for(let key of Object.keys(map)) {
+		if(
+			(name == key || name.substr(0, key.length + 1) == key + '/') &&
+			(!best || key.length > best.length)
+		) {
+			best = key;
+		}
+	}
+
+	return(best);
+}
+
+/** Check if a path matches a SystemJS meta pattern with one wildcard. */
+
+function matchPattern(pattern: string, path: string) {
+	const pos = pattern.indexOf('*');
+
+	if(pos < 0) return(pattern == path);
+
+	const head = pattern.substr(0, pos);
+	const tail = pattern.substr(pos + 1);
+
+	return(
+		path.length >= head.length + tail.length &&
+		path.substr(0, head.length) == head &&
+		path.substr(path.length - tail.length) == tail
+	);
+}
+
+/** Merge two package configurations, including their map and meta fields. */
+
+function mergeConfig(first: any, second: any) {
+	const result: any = {};
+
+	for(let config of [ first, second ]) {
+		for(let key of Object.keys(config)) {
+			if(key == 'map' || key == 'meta') {
+				if(!result[key]) result[key] = {};
+				for(let name of Object.keys(config[key])) result[key][name] = config[key][name];
+			} else result[key] = config[key];
+		}
+	}
+
+	return(result);
+}
+
+/** Loader that only interprets generated SystemJS 0.21 configuration
+  * (map, packages, main and defaultExtension) without loading anything.
+  * Used by the resolver when no other loader is attached, and as a base
+  * class for adapters of loaders without such configuration. */
+
+export class ConfigLoader implements Loader {
+
+	/** @param baseURL Address for resolving imports without a parent,
+	  *   with a slash at the end. Default is the current page or
+	  *   working directory.
+	  * @param systemConfig Optional initial configuration. */
+
+	constructor(
+		public baseURL = getBaseURL(),
+		public systemConfig: SystemConfig = { map: {}, meta: {}, packages: {} }
+	) {}
+
+	config(config: SystemConfig) {
+		const dst = this.systemConfig as any;
+
+		for(let key of [ 'map', 'meta', 'packages' ]) {
+			const src = (config as any)[key];
+			if(!src) continue;
+
+			if(!dst[key]) dst[key] = {};
+
+			// Generated configuration always replaces whole entries.
+			for(let name of Object.keys(src)) dst[key][name] = src[name];
+		}
+	}
+
+	unconfig(config: SystemConfig) {
+		const dst = this.systemConfig as any;
+
+		for(let key of [ 'map', 'meta', 'packages' ]) {
+			const src = (config as any)[key];
+			if(!src || !dst[key]) continue;
+
+			for(let name of Object.keys(src)) delete dst[key][name];
+		}
+	}
+
+	resolve(name: string, parentAddress?: string) {
+		return(Promise.resolve(this.resolveSync(name, parentAddress)));
+	}
+
+	/** Resolve an import synchronously, like resolve. */
+
+	resolveSync(name: string, parentAddress?: string): string {
+		const config = this.systemConfig;
+		const base = parentAddress || this.baseURL;
+		let uri: string;
+
+		if(name.match(/^\.\.?(\/|$)/) || name.charAt(0) == '/') {
+			uri = resolveURL(name, base);
+		} else if(name.match(schemeRe)) {
+			uri = name;
+		} else {
+			// Mappings of the importing package take precedence over global ones.
+			const parent = parentAddress ? this.findPackage(parentAddress) : void 0;
+			const parentMap: { [name: string]: string } = (parent && parent.config.map) || {};
+			let key = matchMap(parentMap, name);
+			let target: string | undefined;
+
+			if(key) {
+				target = parentMap[key];
+
+				if(target.match(/^\.\.?(\/|$)/)) {
+					target = resolveURL(target, parent!.root + '/');
+				} else if(!target.match(schemeRe) && !target.match(/^@[^/]*$/)) {
+					// Bare targets are other packages, found in the global map.
+					return(this.resolveSync(target + name.substr(key.length)));
+				}
+			} else if((key = matchMap(config.map || {}, name))) {
+				target = config.map![key];
+			}
+
+			uri = target ? target + name.substr(key!.length) : name;
+
+			// Names like @empty are registered modules, not paths.
+			if(uri.charAt(0) == '@' && uri.indexOf('/') < 0) return(uri);
+
+			uri = resolveURL(uri, this.baseURL);
+		}
+
+		return(this.applyPackage(uri));
+	}
+
+	has(uri: string) {
+		return(this.moduleTbl.hasOwnProperty(uri));
+	}
+
+	import(uri: string): Promise<any> {
+		return(this.moduleTbl.hasOwnProperty(uri) ?
+			Promise.resolve(this.moduleTbl[uri]) :
+			Promise.reject(new Error('Loading modules is not supported: ' + uri))
+		);
+	}
+
+	define(name: string, value: any) {
+		this.moduleTbl[name] = value;
+	}
+
+	delete(uri: string) {
+		delete this.moduleTbl[uri];
+	}
+
+	/** Find configuration of the package containing an address,
+	  * preferring the longest matching package root. */
+
+	protected findPackage(uri: string) {
+		const config = this.systemConfig;
+		let best: { root: string, config: any } | undefined;
+
+		for(let key of Object.keys(config.packages)) {
+			// Packages are configured by name or root address.
+			const root = key.match(schemeRe) ? key : config.map && config.map[key];
+
+			if(!root || (uri != root && uri.substr(0, root.length + 1) != root + '/')) continue;
+
+			if(best && root == best.root) {
+				// SystemJS merges configuration of keys with the same address.
+				best.config = mergeConfig(best.config, config.packages[key]);
+			} else if(!best || root.length > best.root.length) {
+				best = { root, config: config.packages[key] };
+			}
+		}
+
+		return(best);
+	}
+
+	/** Apply package main, map and defaultExtension configuration
+	  * to an address. */
+
+	protected applyPackage(uri: string): string {
+		const pkg = this.findPackage(uri);
+		if(!pkg) return(uri);
+
+		const subConfig = pkg.config;
+		let path = uri.substr(pkg.root.length + 1);
+
+		if(!path) {
+			if(!subConfig.main) return(uri);
+			path = subConfig.main.replace(/^\.\//, '');
+		}
+
+		const map = subConfig.map || {};
+		let key = matchMap(map, './' + path);
+		let mapPath = './' + path;
+
+		if(!key) {
+			// Try again with defaultExtension added.
+			mapPath = './' + this.addExtension(path, subConfig);
+			key = matchMap(map, mapPath);
+		}
+
+		// Like SystemJS, skip mappings from ./x to ./x/y for paths inside ./x
+		if(key && !(map[key].substr(0, key.length) == key && mapPath.length > key.length)) {
+			const target: string = map[key] + mapPath.substr(key.length);
+
+			// Targets can also be other packages or registered modules.
+			if(!target.match(/^\.\.?(\/|$)/)) return(this.resolveSync(target));
+
+			// Like SystemJS, apply package configuration again to the target.
+			return(this.applyPackage(resolveURL(target, pkg.root + '/')));
+		}
+
+		return(pkg.root + '/' + this.addExtension(path, subConfig));
+	}
+
+	/** Add defaultExtension to a path, unless it already has it or matches
+	  * exact package meta or a meta pattern with another extension. */
+
+	private addExtension(path: string, subConfig: any) {
+		const defaultExtension = subConfig.defaultExtension === void 0 ? 'js' : subConfig.defaultExtension;
+		const exactMeta = subConfig.meta || {};
+
+		if(!defaultExtension || path.substr(-defaultExtension.length - 1) == '.' + defaultExtension) return(path);
+		if(exactMeta[path] || exactMeta['./' + path]) return(path);
+
+		for(let meta of [ subConfig.meta || {}, this.systemConfig.meta || {} ]) {
+			for(let pattern of Object.keys(meta)) {
+				if(pattern.match(/^\*\.[^*/]+$/) && matchPattern(pattern, path)) return(path);
+			}
+		}
+
+		return(path + '.' + defaultExtension);
+	}
+
+	/** Modules defined directly, by name. Includes @empty like SystemJS 0.21 */
+	private moduleTbl: { [name: string]: any } = { '@empty': {} };
+
+}
@@ -0,0 +1,206 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+import { FetchResponse } from './fetchResponse';
+import { resolveURL } from './Loader';
+
+/** Manifest file name looked up next to the page by default. */
+
+export const manifestName = 'cresolve-manifest.json';
+
+/** Files and subdirectories of a directory by name. Files are 1,
+  * directories are listings of their contents or 0 if not listed. */
+
+export interface ManifestTree {
+	[ name: string ]: ManifestTree | 0 | 1;
+}
+
+/** Contents of a manifest describing files available on a server,
+  * to check if they exist without a HEAD request for each one. */
+
+export interface ManifestData {
+	/** Format version, currently 1. */
+	cresolve: number;
+
+	/** Files and directories next to the manifest, recursively.
+	  * Files under directories not listed are checked with the batch
+	  * endpoint if available, otherwise using HEAD requests. */
+	files?: ManifestTree;
+
+	/** Address (relative to the manifest) of an endpoint receiving
+	  * any number of url query parameters and responding with a JSON
+	  * object mapping them to their addresses after all redirections,
+	  * or null if missing. Addresses left out are checked using HEAD
+	  * requests. */
+	batch?: string;
+}
+
+/** Pending check for a file using the batch endpoint. */
+
+interface BatchItem {
+	uri: string;
+	resolve: (target: string | null | undefined) => void;
+}
+
+/** Approximate maximum length of query strings sent to the batch endpoint. */
+const maxQueryLength = 2000;
+
+/** Manifest loaded from a server, answering checks for files covered
+  * by it and sending other checks to its batch endpoint, if any.
+  * Checks made at the same time are combined into a single request. */
+
+export class Manifest {
+
+	/** @param url Address of the manifest, after all redirections.
+	  * @param data Parsed manifest contents.
+	  * @param fetch Function for calling the batch endpoint. */
+
+	constructor(
+		public url: string,
+		public data: ManifestData,
+		public fetch: (uri: string, config?: any) => Promise<FetchResponse>
+	) {
+		this.base = url.replace(/[?#].*$/, '').replace(/[^/]*$/, '');
+		if(data.batch) this.batchURL = resolveURL(data.batch, url);
+	}
+
+	/** Check if a file exists according to the manifest or its batch endpoint.
+	  *
+	  * @return Promise resolving to the file address after all redirections,
+	  *   null if missing or undefined if the manifest does not know. */
+
+	check(uri: string): Promise<string | null | undefined> {
+		if(uri.substr(0, this.base.length) != this.base) return(Promise.resolve(void 0));
+
+		const listed = this.find(uri.substr(this.base.length));
+
+		if(listed !== void 0) return(Promise.resolve(listed ? uri : null));
+		if(!this.batchURL) return(Promise.resolve(void 0));
+
+		let result = this.resultTbl[uri];
+
+		if(!result) {
+			result = new Promise((resolve: (target: string | null | undefined) => void) => {
+				this.batchList.push({ uri, resolve });
+				if(this.batchList.length == 1) setTimeout(() => this.flush(), 0);
+			});
+
+			this.resultTbl[uri] = result;
+		}
+
+		return(result);
+	}
+
+	/** Look up a path in the listed files.
+	  *
+	  * @param path URL-encoded path relative to the manifest.
+	  * @return True if listed as a file, false if missing or undefined
+	  *   if a directory along the path is not listed. */
+
+	private find(path: string) {
+		let node: ManifestTree | 0 | 1 | undefined = this.data.files;
+
+		if(!node) return(void 0);
+
+		for(let part of path.split('/')) {
+			// Files have no contents to look in.
+			if(node === 1) return(false);
+			if(node === 0) return(void 0);
+
+			try {
+				part = decodeURIComponent(part);
+			} catch(err) {
+				return(void 0);
+			}
+
+			node = Object.prototype.hasOwnProperty.call(node, part) ? node[part] : void 0;
+			if(node === void 0) return(false);
+		}
+
+		return(node === 0 ? void 0 : node === 1);
+	}
+
+	/** Send all queued checks to the batch endpoint, in as few requests
+	  * as query string length limits allow. */
+
+	private flush() {
+		const itemList = this.batchList;
+		let chunk: BatchItem[] = [];
+		let query = '';
+
+		this.batchList = [];
+
+		for(let item of itemList) {
+			const param = 'url=' + encodeURIComponent(item.uri);
+
+			if(chunk.length && query.length + param.length >= maxQueryLength) {
+				this.send(chunk, query);
+				chunk = [];
+				query = '';
+			}
+
+			chunk.push(item);
+			query += (query ? '&' : '') + param;
+		}
+
+		if(chunk.length) this.send(chunk, query);
+	}
+
+	private send(chunk: BatchItem[], query: string) {
+		const uri = this.batchURL! + (this.batchURL!.indexOf('?') < 0 ? '?' : '&') + query;
+
+		this.fetch(uri).then((res: FetchResponse) => {
+			if(res.ok === false) throw(res);
+			return(res.text());
+		}).then(
+			(data: string) => JSON.parse(data) || {}
+		).catch(
+			// Fall back to HEAD requests if the endpoint fails.
+			() => ({})
+		).then((resultTbl: { [uri: string]: string | null | undefined }) => {
+			for(let { uri, resolve } of chunk) {
+				const target = resultTbl[uri];
+
+				if(target === null || typeof(target) == 'string') {
+					resolve(target);
+				} else {
+					delete this.resultTbl[uri];
+					resolve(void 0);
+				}
+			}
+		});
+	}
+
+	/** Address of the directory containing the manifest, with a slash at the end. */
+	base: string;
+
+	/** Address of the batch endpoint, if any. */
+	batchURL?: string;
+
+	/** Checks waiting to be sent to the batch endpoint. */
+	private batchList: BatchItem[] = [];
+
+	/** Promises for results from the batch endpoint, by file address. */
+	private resultTbl: { [uri: string]: Promise<string | null | undefined> } = {};
+
+}
+
+/** Fetch and parse a manifest.
+  *
+  * @param uri Address of the manifest.
+  * @param fetch Function for fetching the manifest and calling its batch endpoint.
+  * @return Promise resolving to the manifest or undefined if it is missing or invalid. */
+
+export function loadManifest(uri: string, fetch: (uri: string, config?: any) => Promise<FetchResponse>) {
+	const result = fetch(uri).then((res: FetchResponse) => {
+		if(res.ok === false) throw(res);
+
+		return(res.text().then((text: string) => {
+			const data: ManifestData = JSON.parse(text);
+
+			return(data && data.cresolve == 1 ? new Manifest(res.url || uri, data, fetch) : void 0);
+		}));
+	}).catch(() => void 0);
+
+	return(result);
+}
@@ -53,6 +53,44 @@ export class PathTree<Type> {
 		return(result);
 	}
 
+	/** Remove data attached to a path, keeping any paths below it.
+	  *
+	  * @return Removed data, or undefined if there was none. */
+
+	remove(path: string) {
+		let node: TreeBranch<Type> | undefined = this.root;
+
+		for(let part of path.split('/')) {
+			node = node[part] as TreeBranch<Type> | undefined;
+			if(!node) return(void 0);
+		}
+
+		const data = node['/data'];
+		delete node['/data'];
+
+		return(data);
+	}
+
+	/** Call a function for every node with data attached.
+	  *
+	  * @param handler Function receiving the node path and data. */
+
+	forEach(handler: (path: string, data: Type) => void) {
+		const visit = (node: TreeBranch<Type>, prefix: string) => {
+			for(let key of Object.keys(node)) {
+				if(key == '.' || key == '..' || key.charAt(0) == '/') continue;
+
+				const child = node[key] as TreeBranch<Type>;
+				const path = prefix + key;
+
+				if(child['/data']) handler(path, child['/data']!);
+				visit(child, path + '/');
+			}
+		};
+
+		visit(this.root, '');
+	}
+
 	root = new TreeBranch<Type>();
 
 }
@@ -0,0 +1,444 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+import { FetchResponse } from './fetchResponse';
+import { Lockfile, LockedPackage, lockfileNames, parseLockfile } from './lockfile';
+import {
+	ProjectInfo,
+	getWorkspacePatterns,
+	parsePnpmWorkspace,
+	parseModulesYaml,
+	matchWorkspace,
+	getLiteralWorkspaces,
+	guessWorkspaceFolders,
+	getStoreFolder
+} from './workspace';
+import { Trace } from './Trace';
+
+/** Package pinned in the lockfile of a project. */
+
+export interface ProjectLock extends LockedPackage {
+	/** Root address of the project. */
+	project: string;
+}
+
+/** Package containing a file importing another package. */
+
+export interface ParentPackage {
+	name: string;
+	version?: string;
+	/** Package root address (without slash at the end). */
+	root: string;
+}
+
+/** Functions for loading files, provided by a Resolver. */
+
+export interface ProjectHost {
+	/** Check if a file exists, recording the outcome in a trace if given. */
+	probe(uri: string, trace?: Trace): Promise<string>;
+
+	fetch(uri: string, config?: any): Promise<FetchResponse>;
+
+	/** Load package.json from a package root, resolving to its contents
+	  * and the root address after redirections. */
+	loadPackage(root: string): Promise<{ data: string, root: string }>;
+
+	/** Function called with warnings about lockfiles. */
+	warn?: (message: string) => void;
+}
+
+/** Check if an address is a directory or the same as another, or inside it. */
+
+function isInside(uri: string, base: string) {
+	return(uri == base || uri.substr(0, base.length + 1) == base + '/');
+}
+
+/** Find projects containing packages, their workspaces, lockfiles and
+  * packages installed in the pnpm virtual store. */
+
+export class ProjectFinder {
+
+	constructor(private host: ProjectHost) {}
+
+	/** Fetch a file if it exists.
+	  *
+	  * @return Promise resolving to file contents or undefined if missing. */
+
+	private fetchOptional(uri: string): Promise<string | undefined> {
+		const result = this.host.probe(uri).then(
+			(found: string) => this.host.fetch(found, { cache: 'force-cache' })
+		).then(
+			(res: FetchResponse) => res.text()
+		).catch(() => void 0);
+
+		return(result);
+	}
+
+	/** Get the address where to start looking for the project containing
+	  * a package: the project whose lockfile pinned the package,
+	  * or the directory outside all node_modules directories. */
+
+	private getProjectStart(parentRoot: string) {
+		const locked = this.lockTbl[parentRoot];
+
+		return(locked ? locked.project : parentRoot.replace(/\/node_modules\/.*/i, ''));
+	}
+
+	/** Find the project root the first time it is needed: the closest
+	  * directory defining workspaces (in package.json or pnpm-workspace.yaml)
+	  * or containing a lockfile, looking upwards from a package root.
+	  * Also detect the pnpm virtual store from node_modules/.modules.yaml
+	  *
+	  * @param root Package root address where to start looking,
+	  *   used as the project root if nothing else is found. */
+
+	private getProject(root: string) {
+		if(!this.projectReady[root]) {
+			const check = (dir: string): Promise<ProjectInfo | undefined> => Promise.all([
+				this.fetchOptional(dir + '/pnpm-workspace.yaml'),
+				this.fetchOptional(dir + '/package.json'),
+				Promise.all(lockfileNames.map(
+					(name: string) => this.host.probe(dir + '/' + name).then(() => true, () => false)
+				))
+			]).then(([ workspaceData, jsonData, lockList ]) => {
+				let patterns: string[] = [];
+
+				if(workspaceData) {
+					patterns = parsePnpmWorkspace(workspaceData);
+				} else if(jsonData) {
+					try {
+						patterns = getWorkspacePatterns(JSON.parse(jsonData));
+					} catch(err) {}
+				}
+
+				if(patterns.length || (jsonData && lockList.indexOf(true) >= 0)) {
+					return({ root: dir, patterns });
+				}
+
+				// Stop after the file system root or domain name.
+				if(dir.match(/^[a-z]+:\/\/[^/]*$/i)) return(void 0);
+
+				return(check(dir.replace(/\/[^/]*$/, '')));
+			});
+
+			this.projectReady[root] = check(root).then((found?: ProjectInfo) => {
+				const project = found || { root, patterns: [] };
+
+				return(this.fetchOptional(project.root + '/node_modules/.modules.yaml').then((data?: string) => {
+					const store = data && parseModulesYaml(data);
+
+					if(store) project.store = project.root + '/' + store;
+
+					// Projects found from several places share workspaces and lockfiles.
+					if(!this.projectTbl[project.root]) this.projectTbl[project.root] = project;
+
+					return(this.projectTbl[project.root]);
+				}));
+			});
+		}
+
+		return(this.projectReady[root]);
+	}
+
+	/** Load a lockfile from the project root directory (next to package.json)
+	  * the first time a missing package is looked up.
+	  *
+	  * @param project Project information.
+	  * @return Parsed lockfile or undefined if none was found. */
+
+	private getLockfile({ root }: ProjectInfo) {
+		if(!this.lockfileReady[root]) {
+			// Try each supported lockfile name in order.
+
+			this.lockfileReady[root] = lockfileNames.reduce(
+				(found: Promise<Lockfile | undefined>, name: string) => found.then(
+					(lockfile?: Lockfile) => lockfile || this.host.probe(root + '/' + name).then(
+						(uri: string) => Promise.all([
+							this.host.fetch(uri).then((res: FetchResponse) => res.text()),
+							this.host.loadPackage(root)
+						])
+					).then(
+						([ data, { data: json } ]) => parseLockfile(name, data, JSON.parse(json)),
+						() => void 0
+					)
+				),
+				Promise.resolve(void 0)
+			);
+		}
+
+		return(this.lockfileReady[root]);
+	}
+
+	/** Read package.json of a possible workspace package and remember
+	  * its location.
+	  *
+	  * @param root Root address of workspace package.
+	  * @param packageName Expected name of the package, if known.
+	  * @return Package root address (after redirections),
+	  *   or undefined if not found. */
+
+	private loadWorkspace(root: string, packageName?: string, trace?: Trace) {
+		const result = this.host.probe(root + '/package.json', trace).then(
+			() => this.host.loadPackage(root)
+		).then(({ data, root }) => {
+			const name = JSON.parse(data).name;
+
+			if(typeof(name) != 'string' || (packageName && name != packageName)) return(void 0);
+			if(!this.workspaceTbl[name]) this.workspaceTbl[name] = root;
+
+			return(this.workspaceTbl[name]);
+		}).catch(() => void 0);
+
+		return(result);
+	}
+
+	/** Find all workspace packages in folders listed in the lockfile
+	  * or named in workspace patterns without wildcards.
+	  *
+	  * @param root Package root address where to start looking
+	  *   for the project root.
+	  * @return Project information. */
+
+	private getWorkspaces(root: string) {
+		return(this.getProject(root).then((project: ProjectInfo) => {
+			if(!this.workspacesReady[project.root]) {
+				this.workspacesReady[project.root] = project.patterns.length ? this.getLockfile(project).then((lockfile?: Lockfile) => {
+					const folderList = getLiteralWorkspaces(project.patterns);
+
+					for(let folder of lockfile ? lockfile.workspaces : []) {
+						if(folderList.indexOf(folder) < 0 && matchWorkspace(project.patterns, folder)) {
+							folderList.push(folder);
+						}
+					}
+
+					return(Promise.all(folderList.map(
+						(folder: string) => this.loadWorkspace(project.root + '/' + folder)
+					)));
+				}).then(() => project) : Promise.resolve(project);
+			}
+
+			return(this.workspacesReady[project.root]);
+		}));
+	}
+
+	/** Find a package in the project workspaces. Folders not listed in the
+	  * lockfile are guessed from workspace patterns and the package name.
+	  *
+	  * @param packageName Name of npm package.
+	  * @param parent Package containing the file importing the package.
+	  * @return Package root address or undefined if not a workspace. */
+
+	findWorkspace(packageName: string, parent?: ParentPackage, trace?: Trace) {
+		if(!parent) return(Promise.resolve(void 0));
+
+		const result = this.getWorkspaces(this.getProjectStart(parent.root)).then((project: ProjectInfo) => {
+			const key = project.root + ' ' + packageName;
+			const known = this.workspaceTbl[packageName];
+
+			if(!this.workspaceFound[key]) {
+				this.workspaceFound[key] = guessWorkspaceFolders(
+					project.patterns,
+					packageName
+				).reduce(
+					(found: Promise<string | undefined>, folder: string) => found.then(
+						(root?: string) => root || this.loadWorkspace(project.root + '/' + folder, packageName, trace)
+					),
+					// Workspace packages of other projects do not count.
+					Promise.resolve(known && isInside(known, project.root) ? known : void 0)
+				);
+			}
+
+			return(this.workspaceFound[key]);
+		}).then((root?: string) => {
+			if(root && trace) trace.add({ type: 'link', layout: 'workspace', name: packageName, root });
+			return(root);
+		});
+
+		return(result);
+	}
+
+	/** Follow a link from node_modules to the pnpm virtual store, where
+	  * dependencies of a package are installed next to it. Copies linked
+	  * from several places all resolve to the same address.
+	  *
+	  * @param packageName Name of npm package.
+	  * @param rootAddress Package root address found in a node_modules directory.
+	  * @param parent Package containing the file importing the package.
+	  * @return Package root address inside the virtual store, or the same
+	  *   address if the package was not installed by pnpm. */
+
+	findStored(packageName: string, rootAddress: string, parent?: ParentPackage, trace?: Trace) {
+		if(!parent || rootAddress.substr(-packageName.length - 14) != '/node_modules/' + packageName) {
+			return(Promise.resolve(rootAddress));
+		}
+
+		const result = this.getProject(this.getProjectStart(parent.root)).then(({ store }) => {
+			const own = store + '/' + getStoreFolder(packageName) + '@';
+
+			if(!store || rootAddress.substr(0, own.length) == own) return(rootAddress);
+
+			return(this.findLocked(packageName, parent, false).then(
+				(locked?: ProjectLock) => locked ? this.findInStore(packageName, locked, trace).catch(() => rootAddress) : rootAddress
+			));
+		});
+
+		return(result);
+	}
+
+	/** Find a package pinned in the lockfile inside the pnpm virtual store.
+	  *
+	  * @param packageName Name of npm package.
+	  * @param locked Lockfile entry of the package.
+	  * @return Package root address inside the virtual store,
+	  *   rejecting if there is no store or the package is missing. */
+
+	findInStore(packageName: string, locked: ProjectLock, trace?: Trace) {
+		const store = this.projectTbl[locked.project] && this.projectTbl[locked.project].store;
+
+		if(!store) return(Promise.reject(null));
+
+		const storeRoot = (
+			store + '/' +
+			getStoreFolder(locked.id || packageName + '@' + locked.version) +
+			'/node_modules/' + packageName
+		);
+
+		return(this.host.probe(storeRoot + '/package.json', trace).then(() => {
+			// Remember lockfile entry for finding dependencies.
+			this.lockTbl[storeRoot] = locked;
+
+			if(trace) trace.add({ type: 'link', layout: 'pnpm', name: packageName, root: storeRoot });
+			return(storeRoot);
+		}));
+	}
+
+	/** Find the version of a missing package pinned in the lockfile
+	  * of the project containing the importing file.
+	  *
+	  * @param name Name of npm package.
+	  * @param parent Package containing the file importing the package.
+	  * @param warn Warn if the lockfile does not list the package.
+	  * @return Locked package or undefined if there is no lockfile
+	  *   or it does not list the package. */
+
+	findLocked(name: string, parent?: ParentPackage, warn = true) {
+		if(!parent) return(Promise.resolve(void 0));
+
+		const parentRoot = parent.root;
+		let lockedParent: LockedPackage | undefined = this.lockTbl[parentRoot];
+
+		const result = this.getProject(this.getProjectStart(parentRoot)).then((project: ProjectInfo) => this.getLockfile(project).then((lockfile?: Lockfile) => {
+			const projectRoot = project.root;
+
+			if(!lockfile) return(void 0);
+
+			if(!lockedParent && parentRoot.substr(0, projectRoot.length + 1) == projectRoot + '/') {
+				// Importing package is installed locally inside the project.
+				lockedParent = {
+					name: parent.name,
+					version: parent.version!,
+					path: parentRoot.substr(projectRoot.length + 1)
+				};
+			}
+
+			const locked = lockfile.find(name, lockedParent) as ProjectLock | undefined;
+
+			if(locked) {
+				locked.project = projectRoot;
+			} else if(warn && this.host.warn) {
+				this.host.warn('Package missing from lockfile, resolving version range instead: ' + name);
+			}
+
+			return(locked);
+		}));
+
+		return(result);
+	}
+
+	/** Check if a package root is nested inside another package,
+	  * under its node_modules directory or according to the lockfile. */
+
+	isNested(rootAddress: string) {
+		const locked = this.lockTbl[rootAddress];
+
+		for(let root of Object.keys(this.projectTbl)) {
+			const store = this.projectTbl[root].store;
+
+			// Packages in the pnpm virtual store are linked from the top level.
+			if(store && isInside(rootAddress, store)) return(false);
+		}
+
+		return(
+			!!rootAddress.match(/\/node_modules\/.*\/node_modules\//i) ||
+			!!(locked && locked.path.match(/\/node_modules\//i))
+		);
+	}
+
+	/** Check if a package was found as a workspace of a project. */
+
+	isWorkspace(name: string, rootAddress: string) {
+		return(this.workspaceTbl[name] == rootAddress);
+	}
+
+	/** Forget workspaces inside a changed file or directory, and all
+	  * projects if their lockfiles or layout may have changed.
+	  *
+	  * @param base URL address of the file or directory. */
+
+	invalidate(base: string) {
+		for(let name of Object.keys(this.workspaceTbl)) {
+			if(isInside(this.workspaceTbl[name], base)) {
+				delete this.workspaceTbl[name];
+
+				for(let key of Object.keys(this.workspaceFound)) {
+					if(key.substr(key.length - name.length - 1) == ' ' + name) delete this.workspaceFound[key];
+				}
+			}
+		}
+
+		const projectChanged = Object.keys(this.projectTbl).some((projectRoot: string) => (
+			isInside(projectRoot, base) ||
+			[ 'pnpm-workspace.yaml', 'node_modules', 'node_modules/.modules.yaml' ].concat(lockfileNames).map(
+				(name: string) => projectRoot + '/' + name
+			).indexOf(base) >= 0
+		));
+
+		if(projectChanged) {
+			// Find project roots, workspaces and lockfiles again.
+
+			this.projectReady = {};
+			this.projectTbl = {};
+			this.lockfileReady = {};
+			this.workspacesReady = {};
+			this.workspaceTbl = {};
+			this.workspaceFound = {};
+			this.lockTbl = {};
+		}
+	}
+
+	/** Promises for project root, workspace patterns and pnpm layout,
+	  * by address where looking for the project started. */
+	private projectReady: { [start: string]: Promise<ProjectInfo> } = {};
+
+	/** Table of projects found, by root address. */
+	private projectTbl: { [root: string]: ProjectInfo } = {};
+
+	/** Promises for project lockfiles, by project root address. */
+	private lockfileReady: { [root: string]: Promise<Lockfile | undefined> } = {};
+
+	/** Promises for finding workspace packages listed in the lockfile,
+	  * by project root address. */
+	private workspacesReady: { [root: string]: Promise<ProjectInfo> } = {};
+
+	/** Table mapping names of workspace packages to their root addresses. */
+	private workspaceTbl: { [name: string]: string } = {};
+
+	/** Promises for looking up packages from workspaces,
+	  * by project root address and package name. */
+	private workspaceFound: { [name: string]: Promise<string | undefined> } = {};
+
+	/** Table mapping root addresses of packages missing locally
+	  * to their lockfile entries. */
+	lockTbl: { [root: string]: ProjectLock } = {};
+
+}
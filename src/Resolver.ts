@@ -4,7 +4,26 @@
 import * as SystemJS from 'systemjs';
 
 import { PathTree } from './PathTree';
-import { FetchResponse, fetchResponse } from './fetchResponse';
+import { FetchResponse } from './fetchResponse';
+import { ExportsField, defaultConditions, resolveExports, resolveImports, getExactExports } from './packageMap';
+import { parseVersion } from './semver';
+import { fetchVersion } from './registry';
+import { FallbackProvider, unpkg } from './FallbackProvider';
+import { defaultExtensions, defaultIndexFiles, getCandidates, isExtended, getDefaultExtension, addExtensionMeta } from './extensions';
+import { ProjectFinder, ProjectLock, ParentPackage } from './ProjectFinder';
+import { PackageRoot, buildImportMap } from './importMap';
+import { Trace } from './Trace';
+import { AssetType, getAssetTypes, getAssetMeta, getAssetType } from './assets';
+import { getBuiltins } from './builtins';
+import { ProcessShim, createProcessShim } from './shims';
+import { GraphPackage, ImportLog, buildGraph } from './graph';
+import { Loader, ConfigLoader, getBaseURL, resolveURL } from './Loader';
+import { SystemJSLoader } from './adapters';
+import { invalidateRequests } from './fetch';
+import { METHOD, WorkerPortOptions, createRequestError } from './rpc';
+import { WorkerHost } from './WorkerHost';
+import { WorkerClient } from './WorkerClient';
+import { Manifest, manifestName, loadManifest } from './Manifest';
 
 /** Parts of SystemJS configuration that this tool can autogenerate. */
 
@@ -14,53 +33,117 @@ export interface SystemConfig {
 	packages: { [name: string]: any };
 };
 
+/** Configuration generated while resolving imports and not yet applied,
+  * also sent between Web Workers and the UI thread. */
+
+export interface PendingConfig extends SystemConfig {
+	/** Names of fallback providers that served packages missing locally,
+	  * by package root address. Not passed to loaders. */
+	sources?: { [root: string]: string };
+};
+
 /** Parts of SystemJS configuration this tool modifies for any package resolved. */
 
-export interface GeneratedConfig extends SystemConfig {
+export interface GeneratedConfig extends PendingConfig {
 	map: { [name: string]: string };
 	meta: { [name: string]: any };
+	/** Root addresses of all copies of packages found more than once,
+	  * by package name. Not passed to loaders. */
+	duplicates?: { [name: string]: string[] };
 };
 
-/** Promise for an RPC message response and methods to set it when
-  * the response arrives. */
+/** Fields of generated configuration describing packages, not understood
+  * by loaders. */
 
-type MessageHandler<Type> = {
-	promise: Promise<Type>,
-	resolve: (result: Type) => void,
-	reject: (result: string) => void
-};
-
-/** Cache mapping URLs to pending and fulfilled RPC message responses. */
+const infoKeys = [ 'sources', 'duplicates' ];
 
-type HandlerCache<Type> = { [uri: string]: MessageHandler<Type> };
+/** Get generated configuration without fields describing packages,
+  * for passing to a loader. */
 
-/** Method to call in resolver internal RPC between Web Workers and UI thread. */
+export function getLoaderConfig(config: SystemConfig): SystemConfig {
+	const result: { [key: string]: any } = {};
 
-const enum METHOD {
-	/** Request from / response to worker:
-	  * check file existence using UI thread cache. */
-	ifExists,
+	for(let key of Object.keys(config)) {
+		if(infoKeys.indexOf(key) < 0) result[key] = (config as { [key: string]: any })[key];
+	}
 
-	/** Request from / response to worker:
-	  * fetch file using UI thread cache. */
-	fetch,
+	return(result as SystemConfig);
+}
 
-	/** Web Worker initialization success / failure signal. */
-	loaded,
+/** Options for customizing module resolution. */
+
+export interface ResolverOptions {
+	/** Conditions to accept in package.json exports fields, in addition
+	  * to 'default' and the environment passed to attach or patchSystem
+	  * ('development' or 'production'). */
+	conditions?: string[];
+
+	/** URL of npm registry for looking up versions of packages
+	  * missing locally, with a slash at the end.
+	  * Default is https://registry.npmjs.org/ */
+	registry?: string;
+
+	/** Sources of packages not installed locally, tried in order.
+	  * Default is UNPKG only. */
+	fallbacks?: FallbackProvider[];
+
+	/** Extensions to try in order when importing a path without one,
+	  * like [ '.ts', '.tsx', '.mjs', '.cjs', '.js', '.jsx', '.json' ].
+	  * The first one is also the SystemJS defaultExtension.
+	  * Default is [ '.js' ] */
+	extensions?: string[];
+
+	/** Index file names to try in order when importing a directory.
+	  * Default is [ 'index.js' ] */
+	indexFiles?: string[];
+
+	/** Types of files imported as modules but not containing JavaScript,
+	  * in addition to JSON. Configured in SystemJS meta for all packages. */
+	assets?: AssetType[];
+
+	/** Browser replacements for Node.js core modules, overriding defaults.
+	  * Values are npm package names, @empty or false to resolve the name
+	  * like any other package. */
+	builtins?: { [name: string]: string | false };
+
+	/** Replacement for the Node.js process object, used as is.
+	  * Default is created by createProcessShim. */
+	process?: ProcessShim;
+
+	/** Environment variables in the default process object,
+	  * in addition to NODE_ENV. */
+	env?: { [name: string]: string };
+
+	/** Other Node.js globals to provide in the browser, as global:global
+	  * and global:Buffer modules. Buffer is injected into files under
+	  * node_modules using SystemJS meta. SystemJS already passes global
+	  * to CommonJS modules, and injecting it again would fail in strict
+	  * mode, so loaders without meta support define it instead. */
+	globals?: { global?: boolean, Buffer?: boolean };
+
+	/** Function called with a trace of all steps taken after
+	  * resolving each import, whether successful or not. */
+	onTrace?: (trace: Trace) => void;
+
+	/** Function called with warnings about the project, like packages
+	  * missing from the lockfile. Warnings are ignored if omitted. */
+	warn?: (message: string) => void;
+
+	/** Address of a manifest describing files on the server (see Manifest),
+	  * relative to the page (or the worker script inside Web Workers).
+	  * Checks for files it covers need no HEAD requests.
+	  * Default is cresolve-manifest.json if the page is served over HTTP(S),
+	  * ignored if missing. False disables manifests. */
+	manifest?: string | false;
+};
 
-	/** Configuration change from worker, for UI thread to save in SessionStorage. */
-	config
-}
+/** Match 'name' or '@scope/name' and optional 'path/inside/package'. */
+const packageNameRe = /^((@[0-9a-z][-_.0-9a-z]*\/)?[0-9a-z][-_.0-9a-z]*)(\/(.*))?/;
 
-/** Resolver internal RPC message between Web Workers and UI thread. */
+/** Check if an address is a directory or the same as another, or inside it. */
 
-interface ResolverMessage {
-	method: METHOD;
-	uri: string;
-	success?: boolean;
-	target?: string;
-	body?: string;
-	config?: any;
+function isInside(uri: string, base: string) {
+	return(uri == base || uri.substr(0, base.length + 1) == base + '/');
 }
 
 function deepExtend(dst: { [key: string]: any }, src: { [key: string]: any }) {
@@ -70,46 +153,74 @@ function deepExtend(dst: { [key: string]: any }, src: { [key: string]: any }) {
 	}
 }
 
-function semverMax(list: string[]) {
-	let result = list[0].split('.');
-
-	for(let num = 1; num < list.length; ++num) {
-		const other = list[num].split('.');
-		const partCount = Math.min(result.length, other.length);
-		let partNum = 0;
-
-		while(partNum < partCount) {
-			const part = result[partNum].replace(/^[ <=>~^]+ */, '');
-			const otherPart = other[partNum++].replace(/^[ <=>~^]+ */, '');
-
-			if(otherPart > part) result = other;
-			if(otherPart < part) break;
-		}
-
-		if(partNum >= partCount && other.length > partCount) result = other;
-	}
-
-	return(result.join('.'));
-}
-
 export class Resolver {
 
 	/** @param ifExists Function returning a promise resolving to an URL
 	  *   address if it exists (after all redirections), rejected otherwise.
 	  * @param fetch The standard fetch function or a compatible polyfill.
-	  * @param systemConfig Optional initial SystemJS configuration. */
+	  * @param systemConfig Optional initial SystemJS configuration.
+	  * @param options Optional settings for module resolution. */
 
 	constructor(
 		public ifExists: (uri: string) => Promise<string>,
 		public fetch: (uri: string, config?: any) => Promise<FetchResponse>,
-		public systemConfig: GeneratedConfig = { map: {}, meta: {}, packages: {} }
+		public systemConfig: GeneratedConfig = { map: {}, meta: {}, packages: {} },
+		public options: ResolverOptions = {}
 	) {}
 
-	private findStep(packageRoot: string, alternatives: string[]): Promise<string> {
+	/** Check if a file exists, recording the outcome in a trace if given. */
+
+	private probe(uri: string, trace?: Trace) {
+		const found = this.getManifest().then(
+			(manifest?: Manifest) => manifest && manifest.check(uri)
+		).then((target: string | null | undefined) => {
+			if(target === void 0) return(this.ifExists(uri));
+
+			if(target === null) {
+				throw(createRequestError({ message: 'Missing from manifest: ' + uri, url: uri, status: 404, code: 'status' }));
+			}
+
+			return(target);
+		});
+
+		return(trace ? trace.probe(uri, found) : found);
+	}
+
+	/** Start checking files with the manifest batch endpoint at the same
+	  * time, so probing them one by one afterwards needs no more requests. */
+
+	private prefetch(uriList: string[]) {
+		this.getManifest().then((manifest?: Manifest) => {
+			if(manifest && manifest.batchURL) {
+				for(let uri of uriList) manifest.check(uri);
+			}
+		});
+	}
+
+	/** Load the manifest describing files on the server
+	  * the first time a file is probed.
+	  *
+	  * @return Promise resolving to the manifest or undefined if none is available. */
+
+	private getManifest() {
+		if(!this.manifestReady) {
+			const option = this.options.manifest;
+			const base = getBaseURL();
+			const uri = option === false ? void 0 : option ? resolveURL(option, base) : (
+				base.match(/^https?:/i) ? resolveURL(manifestName, base) : void 0
+			);
+
+			this.manifestReady = uri ? loadManifest(uri, this.fetch) : Promise.resolve(void 0);
+		}
+
+		return(this.manifestReady);
+	}
+
+	private findStep(packageRoot: string, alternatives: string[], trace?: Trace): Promise<string> {
 		const next = alternatives.pop();
-		const result = this.ifExists(packageRoot + '/package.json').then(
+		const result = this.probe(packageRoot + '/package.json', trace).then(
 			(uri: string) => packageRoot,
-			() => next ? this.findStep(next, alternatives) : Promise.reject(null)
+			() => next ? this.findStep(next, alternatives, trace) : Promise.reject(null)
 		);
 
 		return(result);
@@ -120,12 +231,14 @@ export class Resolver {
 	  *
 	  * @param name Name of npm package to find.
 	  * @param guess URL address SystemJS thought was inside the package.
-	  * @param alternatives Fallback array of possible package root URLs. */
+	  * @param alternatives Fallback array of possible package root URLs.
+	  * @param trace Optional trace to record files probed. */
 
 	private findPackageRoot(
 		guess: string,
 		alternatives: string[] = [],
-		name?: string
+		name?: string,
+		trace?: Trace
 	) {
 		const container = 'node_modules';
 		let first: string | undefined;
@@ -172,21 +285,18 @@ export class Resolver {
 			alternatives.push(first);
 		}
 
-		return(this.findStep(alternatives.pop()!, alternatives));
+		this.prefetch(alternatives.map((root: string) => root + '/package.json'));
+
+		return(this.findStep(alternatives.pop()!, alternatives, trace));
 	}
 
-	/** Send generated configuration to SystemJS,
+	/** Send generated configuration to the loader,
 	  * and to UI thread if inside a Web Worker. */
 
-	private applyConfig(sys: typeof SystemJS) {
-		sys.config(this.pending);
+	private applyConfig() {
+		this.loader.config(getLoaderConfig(this.pending));
 
-		if(this.port) {
-			this.port.postMessage({
-				method: METHOD.config,
-				config: this.pending
-			});
-		}
+		if(this.client) this.client.sendConfig(this.pending);
 
 		this.pending = { packages: {} };
 	}
@@ -214,26 +324,89 @@ export class Resolver {
 		return('ANONYMOUS-' + ++this.suffix);
 	}
 
+	/** Get key of SystemJS package configuration for a package root.
+	  * The first top-level copy of each package is configured by name,
+	  * any other copies by their root address. */
+
+	private getPackageKey(packageName: string, rootAddress: string) {
+		return(this.systemConfig.map[packageName] == rootAddress ? packageName : rootAddress);
+	}
+
+	/** Map a package name to a copy of the package, only for imports from
+	  * inside another package.
+	  *
+	  * @param parentAddress Address of a file inside the importing package.
+	  * @param packageName Name of imported package.
+	  * @param rootAddress Root address of the copy to use. */
+
+	private scopePackage(parentAddress: string, packageName: string, rootAddress: string) {
+		const other = this.packageTree.find(parentAddress);
+		if(!other) return;
+
+		const config = this.systemConfig;
+		const parentKey = this.getPackageKey(other.node!['/data']!, parentAddress.substr(0, other.next!));
+		let subConfig = config.packages[parentKey];
+
+		if(!subConfig) {
+			subConfig = {};
+			config.packages[parentKey] = subConfig;
+		}
+
+		if(!subConfig.map) subConfig.map = {};
+		if(subConfig.map[packageName] == rootAddress) return;
+
+		subConfig.map[packageName] = rootAddress;
+
+		this.pending.packages[parentKey] = subConfig;
+		this.applyConfig();
+	}
+
+	/** Get names of conditions to accept in package.json exports fields. */
+
+	private getConditions() {
+		return((this.options.conditions || defaultConditions).concat([ this.env ]));
+	}
+
+	/** Add mappings for all exact subpaths in a package.json exports field
+	  * to SystemJS package configuration.
+	  *
+	  * @param exports Contents of the exports field.
+	  * @param subConfig SystemJS configuration for the package.
+	  * @return Package entry point or undefined if not exported. */
+
+	private mapExports(exports: ExportsField, subConfig: any) {
+		const conditions = this.getConditions();
+		const exactTbl = getExactExports(exports, conditions);
+
+		for(let key of Object.keys(exactTbl)) {
+			if(!subConfig.map) subConfig.map = {};
+			subConfig.map[key] = exactTbl[key];
+		}
+
+		return(resolveExports(exports, '.', conditions));
+	}
+
 	/** Parse package.json, apply any SystemJS configuration found and resolve
 	  * package entry point or a path relative to the package root.
 	  *
-	  * @param sys SystemJS object to configure.
 	  * @param data package.json contents as a string.
 	  * @param rootAddress Package root address.
 	  * @param packageName Name of the package if already known.
 	  * @param pathName Path to resolve from package root.
+	  * @param trace Optional trace to record the package and any remapping.
 	  * @return Resolved path inside package or package main entry point. */
 
 	private parsePackage(
-		sys: typeof SystemJS,
 		data: string,
 		rootAddress: string,
 		packageName?: string,
-		pathName?: string
+		pathName?: string,
+		trace?: Trace
 	) {
 		const config = this.systemConfig;
 		const pending = this.pending;
 		const pkg = JSON.parse(data);
+		const importsMain = !!packageName && !pathName;
 		let main = pkg.main || 'index.js';
 
 		// Get package name from path in import statement or package.json.
@@ -245,7 +418,9 @@ export class Resolver {
 		// package name to avoid multiple different generated names.
 
 		packageName = this.packageTree.insert(rootAddress, packageName)['/data']!;
-		this.jsonTbl[packageName] = pkg;
+		this.packageTbl[rootAddress] = pkg;
+
+		if(trace) trace.add({ type: 'package', name: packageName, root: rootAddress });
 
 		// Remove last path component (including surrounding slashes)
 		// if it follows node_modules or a hostname.
@@ -255,13 +430,15 @@ export class Resolver {
 
 		if(!config.meta[modulesGlob]) {
 			config.meta[modulesGlob] = {
-				globals: { process: 'global:process' }
+				globals: this.getGlobals()
 			};
 
 			config.packages[modulesRoot] = {
-				defaultExtension: 'js'
+				defaultExtension: getDefaultExtension(this.options.extensions)
 			};
 
+			addExtensionMeta(config.packages[modulesRoot], this.options.extensions);
+
 			if(!pending.meta) pending.meta = {};
 			if(!pending.packages) pending.packages = {};
 
@@ -269,21 +446,40 @@ export class Resolver {
 			pending.packages[modulesRoot] = config.packages[modulesRoot];
 		}
 
-		config.map[packageName] = rootAddress;
+		if(!config.map[packageName] && !this.projects.isNested(rootAddress)) {
+			// Map the package name globally to its first top-level copy.
+			config.map[packageName] = rootAddress;
 
-		if(!pending.map) pending.map = {}
-		pending.map[packageName] = config.map[packageName];
+			if(!pending.map) pending.map = {}
+			pending.map[packageName] = config.map[packageName];
+		}
+
+		const packageKey = this.getPackageKey(packageName, rootAddress);
+		if(packageKey == packageName) this.jsonTbl[packageName] = pkg;
+
+		const copyList = this.copyTbl[packageName] || (this.copyTbl[packageName] = []);
+
+		if(copyList.indexOf(rootAddress) < 0) {
+			copyList.push(rootAddress);
+
+			if(copyList.length > 1) {
+				// Report multiple copies of the same package.
+				if(!config.duplicates) config.duplicates = {};
+				config.duplicates[packageName] = copyList.slice(0);
+			}
+		}
 
-		let subConfig = config.packages[packageName];
+		let subConfig = config.packages[packageKey];
 
 		if(!subConfig) {
 			subConfig = {};
-			config.packages[packageName] = subConfig;
+			config.packages[packageKey] = subConfig;
 		}
 
 		if(typeof(pkg.browser) == 'string') {
 			// Use browser entry point.
 			if(pathName == main) pathName = pkg.browser;
+			if(trace) trace.add({ type: 'remap', field: 'browser', from: main, to: pkg.browser });
 			main = pkg.browser;
 		} else if(typeof(pkg.browser) == 'object') {
 			// Use browser equivalents of packages and files.
@@ -297,14 +493,40 @@ export class Resolver {
 			}
 		}
 
+		if(pkg.exports !== void 0 && pkg.exports !== null) {
+			// Exports field overrides main and browser entry points.
+			const exportsMain = this.mapExports(pkg.exports, subConfig);
+
+			if(exportsMain === null && importsMain) {
+				throw(new Error('Package entry point is blocked in package.json exports: ' + packageName));
+			}
+
+			main = exportsMain || main;
+
+			if(pathName) {
+				const subpath = './' + pathName;
+				const target = resolveExports(pkg.exports, subpath, this.getConditions());
+
+				if(!target) {
+					throw(new Error(
+						'Package subpath ' + (target === null ? 'is blocked' : 'is not exported') +
+						' in package.json exports: ' + packageName + subpath.substr(1)
+					));
+				}
+
+				if(!subConfig.map) subConfig.map = {};
+				subConfig.map[subpath] = target;
+
+				if(trace) trace.add({ type: 'remap', field: 'exports', from: subpath, to: target });
+				pathName = target;
+			}
+		}
+
 		subConfig.main = main;
+		addExtensionMeta(subConfig, this.options.extensions);
 
 		for(let key of Object.keys(pkg.dependencies || {})) {
-			if(!this.versionTbl[key]) {
-				this.versionTbl[key] = semverMax(
-					pkg.dependencies[key].split(/ *\|\| *| +(- +)?/)
-				);
-			}
+			if(!this.rangeTbl[key]) this.rangeTbl[key] = pkg.dependencies[key];
 		}
 
 		if(packageName == 'typescript') {
@@ -315,30 +537,39 @@ export class Resolver {
 			subConfig.meta['*.js'] = { exports: 'ts', format: 'global' };
 		}
 
-		pending.packages[packageName] = subConfig;
-		this.applyConfig(sys);
+		pending.packages[packageKey] = subConfig;
+		this.applyConfig();
 
-		pathName = pathName || main;
+		pathName = (pathName || main).replace(/^\.\//, '');
 
-		return((rootAddress + '/' + pathName).replace(/(\/[^./]+)$/, '$1.js'));
+		// Missing extensions are added when probing for the file.
+		return(rootAddress + '/' + pathName);
 	}
 
 	/** Look for and parse package.json for package containing a path,
 	  * applying any SystemJS configuration found.
 	  *
 	  * @param pathName Path possibly inside a package.
+	  * @param trace Optional trace to record files probed.
 	  * @return Package root path (without slash at the end) or just the parent
 	  *   directory if no package.json was found higher in the tree. */
 
-	private getContainingPackage(sys: typeof SystemJS, pathName: string) {
-		const node = this.packageTree.find(pathName);
+	private getContainingPackage(pathName: string, trace?: Trace) {
+		let node = this.packageTree.find(pathName);
+
+		// Packages under node_modules of a known package have their own
+		// package.json, maybe not parsed yet.
+		if(node && pathName.substr(node.next!).match(/\/node_modules\//i)) node = void 0;
 
 		const result: Promise<typeof node | void> = node ? Promise.resolve(node) : this.findPackageRoot(
-			pathName
+			pathName,
+			[],
+			void 0,
+			trace
 		).then(
 			(root: string) => this.loadPackage(root)
 		).then(({ data, root }) => {
-			this.parsePackage(sys, data, root);
+			this.parsePackage(data, root, void 0, void 0, trace);
 		}).catch(() => {
 			// If no package.json was found higher in the tree,
 			// just use the parent directory as the package root.
@@ -350,25 +581,130 @@ export class Resolver {
 		return(result);
 	}
 
+	/** Get the name, version and root address of the package containing
+	  * an importing file, if its package.json has been parsed. */
+
+	private getParentPackage(parentAddress?: string): ParentPackage | undefined {
+		const other = parentAddress ? this.packageTree.find(parentAddress) : void 0;
+		if(!other) return(void 0);
+
+		const root = parentAddress!.substr(0, other.next!);
+		const pkg: any = this.packageTbl[root] || {};
+
+		return({ name: pkg.name || other.node!['/data']!, version: pkg.version, root });
+	}
+
+	/** Find the highest version of a package matching its dependency range,
+	  * using package metadata from the npm registry.
+	  *
+	  * @param name Name of npm package.
+	  * @return Promise for the version number, rejecting if the registry
+	  *   cannot be reached or no version matches. */
+
+	private resolveVersion(name: string) {
+		const range = (this.rangeTbl[name] || 'latest').trim();
+
+		if(this.versionTbl[name]) return(Promise.resolve(this.versionTbl[name]));
+
+		if(parseVersion(range)) {
+			this.versionTbl[name] = range;
+			return(Promise.resolve(range));
+		}
+
+		// Versions found are remembered only in memory, since new versions get published.
+
+		const result = fetchVersion(name, range, this.fetch, this.options.registry).then((version: string) => {
+			this.versionTbl[name] = version;
+			return(version);
+		});
+
+		return(result);
+	}
+
+	/** Resolve an import starting with # using the imports field in
+	  * package.json of the package containing the importing file.
+	  *
+	  * @param name Original path in import command.
+	  * @param parentAddress URL address of the importing file.
+	  * @param guess Incorrect URL address resolved by SystemJS.
+	  * @param trace Optional trace to record steps taken. */
+
+	private findImport(
+		name: string,
+		parentAddress: string,
+		guess: string,
+		trace?: Trace
+	): Promise<string> {
+		const result = this.getContainingPackage(parentAddress, trace).then((other) => {
+			if(!other) other = this.packageTree.find(parentAddress)!;
+
+			const config = this.systemConfig;
+			const pending = this.pending;
+			const packageName = other.node!['/data']!;
+			const rootAddress = parentAddress.substr(0, other.next!);
+			const packageKey = this.getPackageKey(packageName, rootAddress);
+			const pkg: any = this.packageTbl[rootAddress];
+			const target = pkg && resolveImports(pkg.imports, name, this.getConditions());
+
+			if(!target) {
+				throw(new Error(
+					'Cannot find ' + name + ' in package.json imports of package: ' + packageName
+				));
+			}
+
+			let subConfig = config.packages[packageKey];
+
+			if(!subConfig) {
+				subConfig = {};
+				config.packages[packageKey] = subConfig;
+			}
+
+			if(!subConfig.map) subConfig.map = {};
+			subConfig.map[name] = target;
+
+			if(trace) trace.add({ type: 'remap', field: 'imports', from: name, to: target });
+
+			pending.packages[packageKey] = subConfig;
+			this.applyConfig();
+
+			if(target.substr(0, 2) == './') {
+				return(rootAddress + target.substr(1));
+			}
+
+			// Target is another package.
+			return(this.findFile(target, parentAddress, guess, trace));
+		});
+
+		return(result);
+	}
+
 	/** Use Node.js module resolution to find a file SystemJS
 	  * resolved incorrectly (ifExists reported the file missing).
 	  * If possible, reconfigure SystemJS to work correctly.
 	  *
 	  * @param name Original path in import command.
 	  * @param guess Incorrect URL address resolved by SystemJS.
-	  * @param sys SystemJS object. */
+	  * @param trace Optional trace to record steps taken. */
 
 	private findFile(
-		sys: typeof SystemJS,
 		name: string,
-		parentAddress: string,
-		guess: string
+		parentAddress: string | undefined,
+		guess: string,
+		trace?: Trace
 	) {
 		const config = this.systemConfig;
 		let rootFound: Promise<string>;
+		let locked: ProjectLock | undefined;
+		let versionError: Error | undefined;
+		let source: string | undefined;
 		let packageName: string | undefined;
 		let pathName: string | undefined;
 
+		if(name.charAt(0) == '#' && parentAddress) {
+			// Handle subpath imports mapped in package.json.
+			return(this.findImport(name, parentAddress, guess, trace));
+		}
+
 		if(name.match(/^\.\.?(\/|$)/)) {
 			// Handle importing packages through paths like '.' or '..'
 			// or './something' (always starting with './), looking for a
@@ -378,7 +714,7 @@ export class Resolver {
 			rootFound = Promise.resolve(guess.replace(/(\/|\.[a-z]+)$/, ''));
 		} else {
 			// Parse imports that start with an npm package name.
-			const parts = name.match(/^((@[0-9a-z][-_.0-9a-z]*\/)?[0-9a-z][-_.0-9a-z]*)(\/(.*))?/);
+			const parts = name.match(packageNameRe);
 
 			if(!parts) {
 				throw(new Error('Cannot parse missing dependency using Node.js module resolution: ' + name));
@@ -395,250 +731,701 @@ export class Resolver {
 				// ensuring browser mappings and dependency versions of the app
 				// main package.json get parsed.
 
-				parentAddress ? this.getContainingPackage(sys, parentAddress) : Promise.resolve()
-			).then(() => this.findPackageRoot(
+				parentAddress ? this.getContainingPackage(parentAddress, trace) : Promise.resolve()
+			).then(
+				// Prefer workspace packages in the same project.
+				() => this.projects.findWorkspace(packageName!, this.getParentPackage(parentAddress), trace)
+			).then((workspaceRoot?: string) => workspaceRoot || this.findPackageRoot(
 				parentAddress || guess,
-				[ 'https://unpkg.com/' + packageName + '@' + (this.versionTbl[packageName!] || 'latest') ],
-				packageName
+				[],
+				packageName,
+				trace
+			).then(
+				(root: string) => this.projects.findStored(packageName!, root, this.getParentPackage(parentAddress), trace)
+			).catch(
+				// Fall back to CDNs or mirrors if the package is not installed,
+				// preferring the version pinned in a lockfile.
+				() => this.projects.findLocked(packageName!, this.getParentPackage(parentAddress)).then((found?: ProjectLock) => {
+					locked = found;
+
+					// Packages pinned in a pnpm lockfile may be installed
+					// in the virtual store without a link in node_modules.
+					return(locked ? this.projects.findInStore(packageName!, locked, trace).catch(() => void 0) : void 0);
+				}).then((storeRoot?: string) => storeRoot || (
+					locked ? Promise.resolve(locked.version) : this.resolveVersion(packageName!).catch((err: Error) => {
+						versionError = err;
+						throw(err);
+					})
+				).then((version: string) => {
+					if(trace) {
+						trace.add({
+							type: 'fallback',
+							name: packageName!,
+							version,
+							reason: locked ? 'pinned in lockfile' : 'matching ' + (this.rangeTbl[packageName!] || 'latest')
+						});
+					}
+
+					const providers = this.options.fallbacks || [ unpkg ];
+					const roots = providers.map(
+						(provider: FallbackProvider) => provider.getRoot(packageName!, version)
+					);
+
+					// Try providers in order, popping from the end.
+					const alternatives = roots.slice(0).reverse();
+					if(!alternatives.length) return(Promise.reject(null));
+
+					return(this.findStep(alternatives.pop()!, alternatives, trace).then((root: string) => {
+						source = providers[roots.indexOf(root)].name;
+						return(root);
+					}));
+				}))
 			)).catch(() => Promise.reject(
-				new Error('Cannot find root of package using Node.js module resolution: ' + packageName)
+				versionError || new Error('Cannot find root of package using Node.js module resolution: ' + packageName)
 			));
 		}
 
 		const result = rootFound.then(
 			(root: string) => this.loadPackage(root)
-		).then(({ data, root }) =>
-			this.parsePackage(sys, data, root, packageName, pathName)
-		);
+		).then(({ data, root }) => {
+			// Remember lockfile entry for finding nested dependencies.
+			if(locked) this.projects.lockTbl[root] = locked;
+
+			if(source) {
+				const pending = this.pending;
+
+				if(!config.sources) config.sources = {};
+				if(!pending.sources) pending.sources = {};
+				config.sources[root] = source;
+				pending.sources[root] = source;
+			}
+
+			const resolved = this.parsePackage(data, root, packageName, pathName, trace);
+
+			if(packageName && parentAddress && config.map[packageName] != root) {
+				// Use another copy of the package only inside the importing package.
+				this.scopePackage(parentAddress, packageName, root);
+			}
+
+			return(resolved);
+		});
 
 		return(result);
 	}
 
-	systemResolve(
-		sys: typeof SystemJS,
-		name: string,
-		parentAddress: string,
-		originalResolve: typeof SystemJS.resolve
-	) {
+	/** Before SystemJS resolves a package import from inside another package
+	  * installed under node_modules or pinned in a lockfile, find the copy
+	  * Node.js would use and map it for the importing package if it differs
+	  * from the copy mapped globally. Done once per package and dependency.
+	  *
+	  * @param name Original path in import command.
+	  * @param parentAddress URL address of the importing file. */
+
+	private checkScope(name: string, parentAddress?: string, trace?: Trace): Promise<void> {
+		const parts = !name.match(/^[a-z]+:/i) && name.match(packageNameRe);
+
+		if(!parentAddress || !parts) return(Promise.resolve());
+
+		return(this.getContainingPackage(parentAddress, trace).then(() => {
+			const other = this.packageTree.find(parentAddress);
+			if(!other) return;
+
+			const parentRoot = parentAddress.substr(0, other.next!);
+
+			if(
+				!parentRoot.match(/\/node_modules\//i) &&
+				!this.projects.lockTbl[parentRoot] &&
+				!this.projects.isWorkspace(other.node!['/data']!, parentRoot)
+			) {
+				return;
+			}
+
+			const key = parentRoot + ' ' + parts[1];
+
+			if(!this.scopeTbl[key]) {
+				this.scopeTbl[key] = this.findFile(parts[1], parentAddress, parentAddress, trace).then(
+					() => {},
+					() => {}
+				);
+			}
+
+			return(this.scopeTbl[key]);
+		}));
+	}
+
+	/** If an import refers to a Node.js core module, map it globally to
+	  * its browser replacement, unless the importing package maps it in
+	  * a browser field.
+	  *
+	  * @param name Original path in import command.
+	  * @param parentAddress URL address of the importing file.
+	  * @return Promise for the name to resolve, without any node: prefix. */
+
+	private checkBuiltin(name: string, parentAddress?: string, trace?: Trace) {
 		const config = this.systemConfig;
+		const plain = name.replace(/^node:/, '');
+		const builtinTbl = this.builtinTbl || (this.builtinTbl = getBuiltins(this.options.builtins));
+		const target = builtinTbl.hasOwnProperty(plain) ? builtinTbl[plain] : void 0;
+
+		// Polyfills with the same name as the core module are resolved normally.
+		if(!target || target == plain || config.map[plain]) return(Promise.resolve(target ? plain : name));
+
+		const result = (
+			parentAddress ? this.getContainingPackage(parentAddress, trace) : Promise.resolve()
+		).then((): string | Promise<string> => {
+			const other = parentAddress ? this.packageTree.find(parentAddress) : void 0;
+			const subConfig = other && config.packages[this.getPackageKey(
+				other.node!['/data']!,
+				parentAddress!.substr(0, other.next!)
+			)];
+
+			// Mappings from browser fields in package.json take precedence.
+			if(config.map[plain] || (subConfig && subConfig.map && subConfig.map[plain])) return(plain);
+
+			return((
+				target == '@empty' ? Promise.resolve(target) : this.resolve(target, parentAddress)
+			).then((resolved: string) => {
+				if(trace) trace.add({ type: 'remap', field: 'builtin', from: name, to: target });
+
+				if(!config.map[plain]) {
+					const pending = this.pending;
+
+					config.map[plain] = resolved;
+
+					if(!pending.map) pending.map = {};
+					pending.map[plain] = resolved;
+
+					this.applyConfig();
+				}
+
+				return(plain);
+			}));
+		});
+
+		return(result);
+	}
+
+	/** Load the Buffer polyfill the first time the Buffer global is needed,
+	  * and register it as a module for injection using SystemJS meta.
+	  *
+	  * @param parentAddress URL address of the file needing Buffer.
+	  * @return Promise for the module name to use. */
+
+	private loadBuffer(parentAddress?: string) {
+		const other = parentAddress ? this.packageTree.find(parentAddress) : void 0;
+
+		// The polyfill itself and its dependencies define their own Buffer.
+		if(other && this.bufferTbl[other.node!['/data']!]) return(Promise.resolve('@empty'));
+
+		if(!this.bufferReady) {
+			const builtinTbl = this.builtinTbl || (this.builtinTbl = getBuiltins(this.options.builtins));
+			const target = builtinTbl['buffer'] || 'buffer';
+
+			this.bufferReady = this.resolve(target, parentAddress).then((resolved: string) => {
+				const other = this.packageTree.find(resolved);
+
+				if(other) {
+					const pkg: any = this.packageTbl[resolved.substr(0, other.next!)] || {};
+
+					this.bufferTbl[other.node!['/data']!] = true;
+					for(let name of Object.keys(pkg.dependencies || {})) this.bufferTbl[name] = true;
+				}
+
+				return(this.loader.import(resolved).then((buffer: any) => {
+					const bufferClass = buffer && (buffer.Buffer || (buffer.default && buffer.default.Buffer));
+
+					if(!bufferClass) throw(new Error('Buffer polyfill does not export Buffer: ' + resolved));
+
+					this.loader.define('global:Buffer', bufferClass);
+				}));
+			});
+		}
+
+		return(this.bufferReady.then(() => 'global:Buffer'));
+	}
+
+	/** Resolve an import to an URL address of an existing file, using
+	  * the attached loader and generating configuration for it.
+	  * Without a loader, generated configuration is only interpreted
+	  * internally.
+	  *
+	  * @param name Original path in import command.
+	  * @param parentAddress URL address of the importing file.
+	  * @return Promise resolving to the URL address of the file. */
+
+	resolve(name: string, parentAddress?: string): Promise<string> {
+		if(!this.loader) this.attach(new ConfigLoader(void 0, this.systemConfig), this.env);
+
+		const loader = this.loader;
+		const config = this.systemConfig;
+		const trace = new Trace(name, parentAddress);
 		let uri: string;
-		let otherUri: string;
 
 		const findAlternatives = (base: string) => {
 			uri = base;
 
-			if(uri.match(/\.ts$/)) otherUri = uri + 'x';
-			else otherUri = uri.replace(/\/?(\.js)?$/, '/index.js');
+			const candidates = getCandidates(
+				uri,
+				name,
+				this.options.extensions || defaultExtensions,
+				this.options.indexFiles || defaultIndexFiles
+			);
+
+			if(this.loader.has(uri)) return(uri);
 
-			if(sys.registry.get(uri)) return(uri);
-			if(sys.registry.get(otherUri)) return(otherUri);
+			for(let candidate of candidates) {
+				if(this.loader.has(candidate)) return(candidate);
+			}
+
+			// Check if the dependency path is an existing file, maybe after
+			// adding an extension, or a directory containing an index file.
 
-			// Check if the dependency path is an existing .js file, or
-			// directory containing index.js. For .ts files try .tsx extension.
+			this.prefetch(candidates);
 
-			return(this.ifExists(uri).catch(() => this.ifExists(otherUri)));
+			return(candidates.reduce(
+				(found: Promise<string>, candidate: string) => found.catch(() => this.probe(candidate, trace)),
+				Promise.reject(null)
+			));
 		};
 
-		const result = originalResolve.call(sys, name, parentAddress).then(findAlternatives).catch(
+		if(name == 'global:Buffer' && !loader.has(name)) return(this.loadBuffer(parentAddress));
+
+		const result = this.checkBuiltin(name, parentAddress, trace).then((plain: string) => {
+			name = plain;
+			return(this.checkScope(name, parentAddress, trace));
+		}).then(
+			() => loader.resolve(name, parentAddress)
+		).then(findAlternatives).catch(
 			// Try to find the dependency using npm-style resolution.
-			() => this.findFile(sys, name, parentAddress, uri).then(findAlternatives)
+			() => this.findFile(name, parentAddress, uri, trace).then(findAlternatives)
 		).then((resolved: string) => {
-			// Ensure SystemJS is prepared to load the correct file
-			// even if autoconfiguration failed.
-			const prepared: Promise<string> = originalResolve.call(
-				sys,
-				resolved,
-				parentAddress
-			);
+			this.fileTbl[resolved] = true;
 
-			if(resolved != otherUri) return(prepared);
+			// Ensure the loader is prepared to load the correct file
+			// even if autoconfiguration failed.
+			const prepare = () => loader.resolve(resolved, parentAddress);
 
-			// If the path was a directory containing index.js or a .tsx file,
-			// add a mapping with the correct path to SystemJS config.
+			// If the path was a directory containing an index file or
+			// missing an extension, add a mapping with the correct path
+			// to SystemJS config.
 
-			const configured = this.getContainingPackage(sys, otherUri).then((other) => {
-				if(!other) other = this.packageTree.find(otherUri)!;
+			const configure = (requested: string) => this.getContainingPackage(resolved, trace).then((other) => {
+				if(!other) other = this.packageTree.find(resolved)!;
 
 				const pending = this.pending;
 				const packageName = other.node!['/data']!;
+				const rootAddress = resolved.substr(0, other.next!);
+				const from = '.' + requested.substr(other.next!);
+				const to = '.' + resolved.substr(other.next!);
 
-				if(!config.map[packageName]) {
-					config.map[packageName] = otherUri.substr(0, other.next!);
+				if(!config.map[packageName] && !this.projects.isNested(rootAddress)) {
+					config.map[packageName] = rootAddress;
 
 					if(!pending.map) pending.map = {}
 					pending.map[packageName] = config.map[packageName];
 				}
 
-				let subConfig = config.packages[packageName];
+				const packageKey = this.getPackageKey(packageName, rootAddress);
+				let subConfig = config.packages[packageKey];
 
 				if(!subConfig) {
 					subConfig = {};
-					config.packages[packageName] = subConfig;
+					config.packages[packageKey] = subConfig;
 				}
 
-				if(!subConfig.map) subConfig.map = {};
-				subConfig.map['.' + uri.substr(other.next!)] = '.' + otherUri.substr(other.next!);
+				if(subConfig.main && './' + subConfig.main.replace(/^\.\//, '') == from) {
+					// Package entry point has the correct path.
+					subConfig.main = to.substr(2);
+				} else if(isExtended(from, to)) {
+					// Only defaultExtension was added to an existing file.
+					// SystemJS would add it again to a mapped path, but skips
+					// paths with exact meta configuration.
+					if(!subConfig.meta) subConfig.meta = {};
+					subConfig.meta[to] = {};
+				} else {
+					if(!subConfig.map) subConfig.map = {};
+					subConfig.map[from] = to;
+				}
 
-				pending.packages[packageName] = subConfig;
-				this.applyConfig(sys);
+				pending.packages[packageKey] = subConfig;
+				this.applyConfig();
 
-				return(prepared);
+				// Resolve again after configuring the mapping.
+				return(prepare());
 			});
 
-			return(configured);
+			if(resolved == uri) {
+				// The loader may still add defaultExtension to a file found
+				// with another extension.
+				return(prepare().then((prepared: string) => isExtended(prepared, resolved) ? configure(prepared) : prepared));
+			}
+
+			trace.add({ type: 'remap', field: 'index', from: uri, to: resolved });
+
+			return(configure(uri));
+		}).then((resolved: string) => {
+			const asset = getAssetType(resolved, this.options.assets);
+
+			// Resolve any loader plugin for the file, so it gets configured.
+			if(!asset || !asset.loader) return(resolved);
+
+			return(this.resolve(asset.loader, resolved).then(() => resolved));
+		}).then((resolved: string) => {
+			const remaps: string[] = [];
+
+			if(trace.name != name && !config.map[trace.name] && config.map[name]) {
+				// Also map the core module name with node: prefix.
+				const pending = this.pending;
+
+				config.map[trace.name] = config.map[name];
+
+				if(!pending.map) pending.map = {};
+				pending.map[trace.name] = config.map[name];
+
+				this.applyConfig();
+			}
+
+			for(let step of trace.steps) {
+				if(step.type == 'remap') remaps.push(step.field);
+			}
+
+			this.imports.add({
+				name: trace.name,
+				parentAddress: parentAddress || '',
+				uri: resolved,
+				remaps
+			});
+
+			trace.result = resolved;
+			trace.add({ type: 'resolved', uri: resolved });
+			if(this.options.onTrace) this.options.onTrace(trace);
+
+			return(resolved);
+		}, (err: any) => {
+			trace.error = err;
+			trace.add({ type: 'failed', message: (err && err.message) || '' + err });
+			if(this.options.onTrace) this.options.onTrace(trace);
+
+			// Allow explaining the failure.
+			if(err && typeof(err) == 'object') err.trace = trace;
+
+			throw(err);
 		});
 
 		return(result);
 	}
 
-	patchSystem(sys: typeof SystemJS, env = 'production') {
-		const originalResolve = sys.resolve;
-		const resolver = this;
+	/** Set up a module loader to use this resolver, through an adapter.
+	  * Defines shims for Node.js globals and configures asset types.
+	  *
+	  * @param loader Adapter for the loader.
+	  * @param env Environment: production or development. */
 
+	attach(loader: Loader, env = 'production') {
 		// Set up a special URI for finding a shim module for the global
 		// process object, required by some npm packages even in browsers.
 
-		sys.set('global:process', sys.newModule({ env: { 'NODE_ENV': env } }));
+		const shim = this.options.process || createProcessShim(env, this.options.env);
+		const globals = this.options.globals || {};
+
+		this.loader = loader;
+		this.env = env;
+
+		loader.define('global:process', shim);
+
+		if(globals.global) {
+			// Register the global object as a module, leaving the real
+			// global object unchanged.
+			loader.define('global:global', typeof(self) == 'object' ? self : typeof(window) == 'object' ? window : global);
+		}
+
+		// Configure module formats or loader plugins of asset types.
+
+		const pending = this.pending;
+		if(!pending.meta) pending.meta = {};
+
+		for(let asset of getAssetTypes(this.options.assets)) {
+			const { pattern, meta } = getAssetMeta(asset);
+
+			this.systemConfig.meta[pattern] = meta;
+			pending.meta[pattern] = meta;
+		}
+
+		this.applyConfig();
+
+		return(this);
+	}
+
+	/** Hook SystemJS 0.21 path resolution to detect missing files and try
+	  * to add mappings according to Node.js module resolution.
+	  *
+	  * @param sys SystemJS object.
+	  * @param env Environment: production or development. */
+
+	patchSystem(sys: typeof SystemJS, env = 'production') {
+		const resolver = this;
 
-		// Hook SystemJS path resolution to detect missing files and try
-		// to add mappings according to Node.js module resolution.
+		this.attach(new SystemJSLoader(sys), env);
 
 		sys.resolve = function(
 			this: typeof SystemJS,
 			name: string,
 			parentAddress: string,
 		) {
-			return(resolver.systemResolve(this, name, parentAddress, originalResolve));
+			return(resolver.resolve(name, parentAddress));
 		};
 
 		return(this);
 	}
 
-	/** Called from the UI thread. Create a message channel port for
-	  * passing to a Web Worker, so it can defer all file fetches to the
-	  * UI thread, which has access to SessionStorage for caching results
-	  * between page loads.
-	  * As an additional feature, resolves a promise to given
-	  * result if the worker reports initialization success.
+	/** Get SystemJS meta globals for files under node_modules,
+	  * mapping global variable names to modules. */
+
+	getGlobals() {
+		const globals: { [name: string]: string } = { process: 'global:process' };
+
+		if(this.options.globals && this.options.globals.Buffer) globals['Buffer'] = 'global:Buffer';
+
+		return(globals);
+	}
+
+	/** Convert generated configuration to an import map, for loading
+	  * the same files as native ES modules without SystemJS.
 	  *
-	  * @param sys SystemJS object to configure with any updates sent
-	  *   from the worker.
-	  * @param resolve Promise resolver to call if the worker reports
-	  *   initialization success through this resolver's RPC channel.
-	  * @param reject Called if the worker reports initialization failure.
-	  * @param result Value the promise resolver should be called with. */
+	  * @param warn Function called with a description of each configuration
+	  *   entry that has no import map equivalent. Defaults to console.warn. */
 
-	createPort<Result>(
-		sys: typeof SystemJS,
-		resolve: (result: Result) => void,
-		reject: () => void,
-		result: Result
-	) {
-		const channel = new MessageChannel();
-		const local = channel.port1;
+	getImportMap(warn = (message: string) => console.warn(message)) {
+		return(buildImportMap(this.systemConfig, this.getPackages(), warn));
+	}
 
-		local.onmessage = (event) => {
-			const req: ResolverMessage = event.data;
-			const method = req.method;
+	/** Get names and root addresses of all packages found so far,
+	  * including nested copies under node_modules. */
 
-			function send(success: boolean, target?: string, body?: string) {
-				const res: ResolverMessage = { method, uri: req.uri, success };
+	getPackages() {
+		const packageList: PackageRoot[] = [];
 
-				if(target) res.target = target;
-				if(body) res.body = body;
+		this.packageTree.forEach((root: string, name: string) => packageList.push({
+			name,
+			root,
+			key: this.getPackageKey(name, root)
+		}));
 
-				local.postMessage(res);
-			}
+		return(packageList);
+	}
 
-			switch(method) {
-				case METHOD.ifExists:
-					this.ifExists(req.uri).then(
-						function(uri) { send(true, uri); },
-						function(err) { send(false); }
-					);
-					break;
+	/** Get a graph of all modules resolved so far, imports between them
+	  * and packages owning them. Serialize using JSON.stringify or graphToDot. */
 
-				case METHOD.fetch:
-					this.fetch(req.uri, req.config || {}).then(
-						function(res) { res.text().then(function(body) { send(true, res.url, body); }); },
-						function(err) { send(false); }
-					);
-					break;
+	getGraph() {
+		return(buildGraph(this.imports.list(), (uri: string) => this.getPackageInfo(uri)));
+	}
 
-				case METHOD.loaded:
-					if(req.success) resolve(result);
-					else reject();
-					break;
+	/** Get information about the package containing an address,
+	  * if its package.json has been parsed. */
 
-				case METHOD.config:
-					// Additional autogenerated config from a Web Worker.
+	private getPackageInfo(uri: string): GraphPackage | undefined {
+		const other = this.packageTree.find(uri);
+		if(!other) return(void 0);
 
-					deepExtend(this.systemConfig, req.config);
-					sys.config(req.config);
-					break;
-			}
-		}
+		const name = other.node!['/data']!;
+		const root = uri.substr(0, other.next!);
+		const pkg: any = this.packageTbl[root] || {};
+		const sources = this.systemConfig.sources || {};
 
-		return(channel.port2);
+		return({ name, version: pkg.version, root, source: sources[root] || 'local', browser: pkg.browser });
 	}
 
-	setPort(port: MessagePort) {
-		function createHandler<Type>(method: METHOD, cache: HandlerCache<Type>) {
-			return(function(uri: string, config?: any) {
-				let handler = cache[uri];
+	/** Forget a file or directory and everything inside it after changes:
+	  * results of ifExists and fetch, packages found there and configuration
+	  * generated for them. Packages with configuration referring to the
+	  * files are also forgotten and parsed again when needed.
+	  * Also sent to Web Workers connected through createPort.
+	  *
+	  * @param uri URL address of a file or directory. Addresses of
+	  *   package.json files refer to the whole package.
+	  * @return Promise resolving after cached requests are removed. */
+
+	invalidate(uri: string) {
+		const config = this.systemConfig;
+		const base = uri.replace(/\/+$/, '').replace(/\/package\.json$/i, '');
+		const removed: SystemConfig = { map: {}, packages: {} };
+		const pending = this.pending;
 
-				if(!handler) {
-					handler = {} as any;
+		// Imports without an extension or of a directory may now find
+		// the file, so mappings from them are also outdated.
+		const stemList = [ base.replace(/(\/[^/]+)\.[^./]*$/, '$1'), base.replace(/\/[^/]*$/, '') ];
 
-					handler.promise = new Promise((resolve: (result: Type) => void, reject) => {
-						handler.resolve = resolve;
-						handler.reject = reject;
-						port.postMessage({ method: method, uri, config });
-					});
+		const refersTo = (path: string, root: string) => {
+			if(!path.match(/^\.\.?(\/|$)/)) return(false);
 
-					cache[uri] = handler;
-				}
+			const target = resolveURL(path, root + '/').replace(/\/+$/, '');
 
-				return(handler.promise);
-			});
+			return(isInside(target, base) || stemList.indexOf(target) >= 0);
+		};
+
+		if(this.host) this.host.broadcast({ method: METHOD.invalidate, uri });
+
+		for(let file of Object.keys(this.fileTbl)) {
+			if(isInside(file, base)) delete this.fileTbl[file];
 		}
 
-		this.existsCache = {};
-		this.fetchCache = {};
+		for(let { name, root, key } of this.getPackages()) {
+			const subConfig = config.packages[key] || {};
+			const map: { [name: string]: string } = subConfig.map || {};
+			let found = isInside(root, base) || (!!subConfig.main && refersTo('./' + subConfig.main.replace(/^\.\//, ''), root));
+			let changed = false;
 
-		this.port = port;
-		this.ifExists = createHandler<string>(METHOD.ifExists, this.existsCache);
-		this.fetch = createHandler(METHOD.fetch, this.fetchCache);
+			for(let from of Object.keys(map)) {
+				if(refersTo(from, root) || refersTo(map[from], root)) found = true;
 
-		port.onmessage = (event) => {
-			const res: ResolverMessage = event.data;
-			let handler: MessageHandler<any> | undefined;
+				if(isInside(map[from], base)) {
+					// Forget copies of dependencies chosen for the package.
+					delete map[from];
+					changed = true;
+				}
+			}
 
-			switch(res.method) {
-				case METHOD.ifExists:
-					const existsHandler = this.existsCache[res.uri];
-					handler = existsHandler;
+			if(found) {
+				this.packageTree.remove(root);
+				delete this.packageTbl[root];
+				if(key == name) delete this.jsonTbl[name];
 
-					if(res.success) {
-						return(existsHandler.resolve(res.target!));
-					}
-					break;
+				removed.packages[key] = subConfig;
+				delete config.packages[key];
+				delete pending.packages[key];
+			} else if(changed) {
+				pending.packages[key] = subConfig;
+			}
 
-				case METHOD.fetch:
-					const fetchHandler = this.fetchCache[res.uri];
-					handler = fetchHandler;
+			if(!isInside(root, base)) continue;
 
-					if(res.success) {
-						return(fetchHandler.resolve(fetchResponse(res.body!, res.target!)));
-					}
-					break;
+			const copyList = (this.copyTbl[name] || []).filter((other: string) => other != root);
+			this.copyTbl[name] = copyList;
+
+			if(config.duplicates && config.duplicates[name]) {
+				if(copyList.length > 1) config.duplicates[name] = copyList.slice(0);
+				else delete config.duplicates[name];
+			}
+
+			if(config.sources) delete config.sources[root];
+		}
 
-				default:
-					return;
+		for(let name of Object.keys(config.map)) {
+			if(isInside(config.map[name], base)) {
+				removed.map![name] = config.map[name];
+				delete config.map[name];
+				if(pending.map) delete pending.map[name];
 			}
+		}
+
+		this.projects.invalidate(base);
+
+		// Choose copies of dependencies again.
+		this.scopeTbl = {};
 
-			handler.reject('');
+		// Load the manifest again, since it lists files that changed.
+		this.manifestReady = void 0;
+
+		if(this.loader) {
+			this.loader.unconfig(removed);
+			this.applyConfig();
 		}
+
+		if(this.client) this.client.forget(uri.replace(/\/+$/, ''));
+
+		return(invalidateRequests(uri));
+	}
+
+	/** Delete modules from the loader registry after their files changed,
+	  * along with all modules importing them directly or indirectly,
+	  * and import again the modules among them imported without a parent
+	  * (like entry points). Call after invalidate.
+	  *
+	  * @param uri URL address of a changed file or directory.
+	  * @return Promise resolving to addresses of all modules deleted,
+	  *   after the imports finish. */
+
+	reload(uri: string) {
+		const { affectedList, entryList } = this.imports.removeImporters(uri.replace(/\/+$/, ''));
+
+		for(let affected of affectedList) this.loader.delete(affected);
+
+		const result = Promise.all(entryList.map(
+			(entry: string) => this.loader.import(entry)
+		)).then(() => affectedList);
+
+		return(result);
+	}
+
+	/** Add configuration generated elsewhere, like in a Web Worker,
+	  * and send it to the attached loader. */
+
+	addConfig(config: PendingConfig) {
+		deepExtend(this.systemConfig, config);
+		if(this.loader) this.loader.config(getLoaderConfig(config));
+	}
+
+	/** Called from the UI thread. Get the object serving file requests
+	  * from Web Workers using this resolver, created on first call. */
+
+	getHost() {
+		if(!this.host) this.host = new WorkerHost(this);
+
+		return(this.host);
+	}
+
+	/** Called from the UI thread. Create a message channel port for
+	  * passing to a Web Worker, so it can defer all file fetches to the
+	  * UI thread and share its cache. Workers with access to IndexedDB
+	  * or the Cache API can also cache results between page loads
+	  * without this.
+	  * As an additional feature, resolves a promise to given
+	  * result if the worker reports initialization success.
+	  * Same as createPort of the object from getHost.
+	  *
+	  * @param sys SystemJS object to configure with any updates sent
+	  *   from workers, if no loader is attached to this resolver.
+	  * @param resolve Promise resolver to call if the worker reports
+	  *   initialization success through this resolver's RPC channel.
+	  * @param reject Called if the worker reports initialization failure.
+	  * @param result Value the promise resolver should be called with. */
+
+	createPort<Result>(
+		sys: typeof SystemJS,
+		resolve: (result: Result) => void,
+		reject: () => void,
+		result: Result
+	) {
+		const host = this.getHost();
+
+		if(!this.loader && !host.loader) host.loader = new SystemJSLoader(sys);
+
+		return(host.createPort((success: boolean) => success ? resolve(result) : reject()));
+	}
+
+	/** Called in a Web Worker. Defer all file fetches to the UI thread,
+	  * through a port from createPort. Requests fail with a RequestError
+	  * and are tried again next time. Cancel a fetch by passing an
+	  * AbortSignal in the signal field of its second argument.
+	  *
+	  * @param port Message channel port received from the UI thread. */
+
+	setPort(port: MessagePort, options: WorkerPortOptions = {}) {
+		const client = new WorkerClient(port, this, options);
+
+		this.client = client;
+		this.ifExists = client.ifExists;
+		this.fetch = client.fetch;
+	}
+
+	/** Called in a Web Worker. Cancel requests forwarded to the UI thread
+	  * and still waiting for a response.
+	  *
+	  * @param uri URL address of requests to cancel, or undefined for all. */
+
+	cancel(uri?: string) {
+		if(this.client) this.client.cancel(uri);
 	}
 
 	/** Call in Web Worker initialization to report success / failure
@@ -646,29 +1433,77 @@ export class Resolver {
 	  * resolver's internal RPC channel. */
 
 	reportLoad(success: boolean) {
-		this.port.postMessage({ method: METHOD.loaded, success });
+		this.client!.reportLoad(success);
 	}
 
-	/** Web Worker side message channel port for RPC messages. */
-	private port: MessagePort;
+	/** Web Worker side of the RPC channel to the UI thread. */
+	private client?: WorkerClient;
 
-	/** Cache (used in workers) mapping URLs to ifExists RPC message responses. */
-	private existsCache: HandlerCache<string>;
+	/** Object serving requests from Web Workers, used in the UI thread. */
+	private host?: WorkerHost;
 
-	/** Cache (used in workers) mapping URLs to fetch RPC message responses. */
-	private fetchCache: HandlerCache<FetchResponse>;
+	/** Adapter for the module loader in use. */
+	private loader: Loader;
 
 	private packageTree = new PathTree<string>();
 
-	/** New configuration object not yet used in SystemJS. */
-	private pending: SystemConfig = { packages: {} };
+	/** New configuration object not yet sent to the loader. */
+	private pending: PendingConfig = { packages: {} };
+
+	/** Environment name passed to attach, also matched as a condition
+	  * in package.json exports fields. */
+	private env = 'production';
 
 	/** Serial number of generated package names. */
 	private suffix = 0;
 
+	/** Promise for the manifest describing files on the server,
+	  * undefined if not yet requested. */
+	private manifestReady?: Promise<Manifest | undefined>;
+
+	/** Projects containing packages, with their workspaces and lockfiles. */
+	private projects = new ProjectFinder({
+		probe: (uri: string, trace?: Trace) => this.probe(uri, trace),
+		fetch: (uri: string, config?: any) => this.fetch(uri, config),
+		loadPackage: (root: string) => this.loadPackage(root),
+		warn: (message: string) => this.options.warn && this.options.warn(message)
+	});
+
+	/** Cache mapping package names to versions resolved from ranges. */
 	versionTbl: { [name: string]: string } = {};
 
-	/** Cache mapping package names to their package.json contents. */
+	/** Table mapping package names to dependency version ranges
+	  * from the first package.json mentioning them. */
+	rangeTbl: { [name: string]: string } = {};
+
+	/** Cache mapping package names to their package.json contents
+	  * (of the copy mapped by name in generated configuration). */
 	jsonTbl: { [name: string]: Object } = {};
 
+	/** Table mapping package root addresses to package.json contents. */
+	private packageTbl: { [root: string]: any } = {};
+
+	/** Promises for choosing copies of dependencies of packages,
+	  * by importing package root and dependency name. */
+	private scopeTbl: { [key: string]: Promise<void> } = {};
+
+	/** Browser replacements for Node.js core modules. */
+	private builtinTbl?: { [name: string]: string };
+
+	/** Promise for registering the Buffer polyfill as a module. */
+	private bufferReady?: Promise<void>;
+
+	/** Names of packages not needing Buffer injected: the polyfill
+	  * and its dependencies. */
+	private bufferTbl: { [name: string]: boolean } = {};
+
+	/** Table mapping package names to root addresses of all their copies. */
+	private copyTbl: { [name: string]: string[] } = {};
+
+	/** Table of URL addresses of all files resolved. */
+	fileTbl: { [uri: string]: boolean } = {};
+
+	/** Latest result of each import resolved, for building a module graph. */
+	private imports = new ImportLog();
+
 }
@@ -0,0 +1,142 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+/** Single step taken while resolving an import. */
+
+export type TraceStep = {
+	/** File existence check. */
+	type: 'probe';
+	uri: string;
+	found: boolean;
+	/** Address after redirections, if found. */
+	target?: string;
+} | {
+	/** package.json chosen for configuring a package. */
+	type: 'package';
+	name: string;
+	root: string;
+} | {
+	/** Package found in a workspace folder or the pnpm virtual store
+	  * instead of a node_modules directory. */
+	type: 'link';
+	layout: 'workspace' | 'pnpm';
+	name: string;
+	root: string;
+} | {
+	/** Path changed according to package.json, a directory index file
+	  * or replacing a Node.js core module. */
+	type: 'remap';
+	field: 'browser' | 'exports' | 'imports' | 'index' | 'builtin';
+	from: string;
+	to: string;
+} | {
+	/** Package not installed, looked up from fallback providers. */
+	type: 'fallback';
+	name: string;
+	version: string;
+	/** Why this version was chosen. */
+	reason: string;
+} | {
+	type: 'resolved';
+	uri: string;
+} | {
+	type: 'failed';
+	message: string;
+};
+
+/** Record of all steps taken while resolving one import. */
+
+export class Trace {
+
+	/** @param name Original path in import command.
+	  * @param parentAddress URL address of importing file. */
+
+	constructor(public name: string, public parentAddress?: string) {}
+
+	add(step: TraceStep) {
+		this.steps.push(step);
+	}
+
+	/** Record the outcome of a file existence check.
+	  *
+	  * @param uri URL address checked.
+	  * @param found Promise resolving to the address after redirections
+	  *   if it exists, rejected otherwise.
+	  * @return The same promise, resolved after recording the outcome. */
+
+	probe(uri: string, found: Promise<string>) {
+		const result = found.then((target: string) => {
+			this.add({ type: 'probe', uri, found: true, target });
+			return(target);
+		}, (err: any) => {
+			this.add({ type: 'probe', uri, found: false });
+			throw(err);
+		});
+
+		return(result);
+	}
+
+	/** Get a human-readable description of all steps. */
+
+	explain() {
+		const lines = [
+			'Resolving ' + this.name +
+			(this.parentAddress ? ' imported from ' + this.parentAddress : '') + ':'
+		];
+
+		for(let step of this.steps) {
+			let line: string;
+
+			switch(step.type) {
+				case 'probe':
+					line = (step.found ? 'Found ' : 'Missing ') + step.uri +
+					(step.target && step.target != step.uri ? ' (redirected to ' + step.target + ')' : '');
+					break;
+
+				case 'package':
+					line = 'Using package.json of ' + step.name + ' in ' + step.root;
+					break;
+
+				case 'link':
+					line = 'Package ' + step.name + (
+						step.layout == 'workspace' ? ' is a workspace in ' : ' is in pnpm virtual store at '
+					) + step.root;
+					break;
+
+				case 'remap':
+					line = 'Mapped ' + step.from + ' to ' + step.to + (
+						step.field == 'index' ? ' (directory index or alternative extension)' :
+						step.field == 'builtin' ? ' (browser replacement for Node.js core module)' :
+						' (' + step.field + ' field in package.json)'
+					);
+					break;
+
+				case 'fallback':
+					line = 'Package ' + step.name + ' not installed, trying fallbacks with version ' +
+					step.version + ' (' + step.reason + ')';
+					break;
+
+				case 'resolved':
+					line = 'Resolved to ' + step.uri;
+					break;
+
+				default:
+					line = 'Failed: ' + step.message;
+			}
+
+			lines.push('  ' + line);
+		}
+
+		return(lines.join('\n'));
+	}
+
+	/** Steps in the order taken. */
+	steps: TraceStep[] = [];
+
+	/** Final resolved address, if successful. */
+	result?: string;
+
+	/** Reason for failure, if unsuccessful. */
+	error?: any;
+
+}
@@ -0,0 +1,199 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+import { Resolver, PendingConfig } from './Resolver';
+import { FetchResponse, fetchResponse } from './fetchResponse';
+import { METHOD, ResolverMessage, RemoteError, RequestError, WorkerPortOptions, createRequestError } from './rpc';
+
+/** Promise for an RPC message response and methods to set it when
+  * the response arrives. */
+
+type MessageHandler<Type> = {
+	/** Request number. */
+	id: number,
+	uri: string,
+	promise: Promise<Type>,
+	resolve: (result: Type) => void,
+	reject: (err: RequestError) => void,
+	/** Timer for failing the request after a timeout. */
+	timer?: any
+};
+
+/** Cache mapping URLs to pending and fulfilled RPC message responses. */
+
+type HandlerCache<Type> = { [uri: string]: MessageHandler<Type> };
+
+/** Forwards file requests from a resolver in a Web Worker to a WorkerHost
+  * in the UI thread, and applies messages the UI thread sends back.
+  * Usually created by Resolver setPort. */
+
+export class WorkerClient {
+
+	/** @param port Message channel port received from the UI thread.
+	  * @param resolver Resolver in the Web Worker. */
+
+	constructor(private port: MessagePort, public resolver: Resolver, options: WorkerPortOptions = {}) {
+		this.timeout = options.timeout === void 0 ? 30000 : options.timeout;
+
+		port.onmessage = (event) => {
+			const res: ResolverMessage = event.data;
+			const error: RemoteError | undefined = res.success ? void 0 : res.error || {
+				message: 'Request failed: ' + res.uri,
+				url: res.uri,
+				code: 'network'
+			};
+
+			switch(res.method) {
+				case METHOD.invalidate:
+					this.resolver.invalidate(res.uri);
+					break;
+
+				case METHOD.config:
+					// Configuration generated in another Web Worker.
+					this.resolver.addConfig(res.config);
+					break;
+
+				case METHOD.ifExists:
+					this.settle(res.id!, error, res.target);
+					break;
+
+				case METHOD.fetch:
+					this.settle(res.id!, error, error ? void 0 : fetchResponse(res.body || '', res.target || res.uri));
+					break;
+			}
+		};
+	}
+
+	/** Check if a file exists using the UI thread cache. */
+
+	ifExists = (uri: string, config?: any) => this.request(METHOD.ifExists, this.existsCache, uri, config);
+
+	/** Fetch a file using the UI thread cache. */
+
+	fetch = (uri: string, config?: any) => this.request(METHOD.fetch, this.fetchCache, uri, config);
+
+	/** Forward a request to the UI thread, unless the same address
+	  * was already requested. */
+
+	private request<Type>(method: METHOD, cache: HandlerCache<Type>, uri: string, config?: any) {
+		let handler = cache[uri];
+
+		if(!handler) {
+			const id = ++this.requestCount;
+			const sent: { [key: string]: any } = {};
+
+			// Abort signals cannot be posted to other threads.
+			for(let key of Object.keys(config || {})) {
+				if(key != 'signal') sent[key] = config[key];
+			}
+
+			handler = { id, uri } as MessageHandler<Type>;
+
+			handler.promise = new Promise((resolve: (result: Type) => void, reject) => {
+				handler.resolve = resolve;
+				handler.reject = reject;
+			});
+
+			if(this.timeout) handler.timer = setTimeout(() => this.abort(id, 'timeout'), this.timeout);
+
+			cache[uri] = handler;
+			this.requestTbl[id] = { handler, cache };
+
+			this.port.postMessage({ method, id, uri, config: sent });
+		}
+
+		const signal: AbortSignal | undefined = config && config.signal;
+		const id = handler.id;
+
+		if(signal) {
+			if(signal.aborted) this.abort(id, 'cancelled');
+			else signal.addEventListener('abort', () => this.abort(id, 'cancelled'));
+		}
+
+		return(handler.promise);
+	}
+
+	/** Cancel requests still waiting for a response.
+	  *
+	  * @param uri URL address of requests to cancel, or undefined for all. */
+
+	cancel(uri?: string) {
+		for(let id of Object.keys(this.requestTbl)) {
+			if(!uri || this.requestTbl[+id].handler.uri == uri) this.abort(+id, 'cancelled');
+		}
+	}
+
+	/** Forget cached responses for a file or everything inside a directory. */
+
+	forget(base: string) {
+		for(let cache of [ this.existsCache, this.fetchCache ] as HandlerCache<any>[]) {
+			for(let uri of Object.keys(cache)) {
+				if(uri == base || uri.substr(0, base.length + 1) == base + '/') delete cache[uri];
+			}
+		}
+	}
+
+	/** Send configuration generated in the Web Worker to the UI thread. */
+
+	sendConfig(config: PendingConfig) {
+		this.port.postMessage({ method: METHOD.config, config });
+	}
+
+	/** Report Web Worker initialization success / failure to the UI thread. */
+
+	reportLoad(success: boolean) {
+		this.port.postMessage({ method: METHOD.loaded, success });
+	}
+
+	/** Fail a request forwarded to the UI thread, telling it to stop. */
+
+	private abort(id: number, code: 'timeout' | 'cancelled') {
+		const req = this.requestTbl[id];
+		if(!req) return;
+
+		const uri = req.handler.uri;
+
+		this.port.postMessage({ method: METHOD.cancel, id, uri });
+		this.settle(id, {
+			message: (code == 'timeout' ? 'Request timed out: ' : 'Request cancelled: ') + uri,
+			url: uri,
+			code
+		});
+	}
+
+	/** Resolve or reject the promise for a request forwarded to the
+	  * UI thread, unless it already timed out or was cancelled.
+	  * Failed requests are removed from the cache, to try them again. */
+
+	private settle(id: number, error?: RemoteError, result?: any) {
+		const req = this.requestTbl[id];
+		if(!req) return;
+
+		const handler = req.handler;
+
+		delete this.requestTbl[id];
+		if(handler.timer) clearTimeout(handler.timer);
+
+		if(!error) return(handler.resolve(result));
+
+		if(req.cache[handler.uri] == handler) delete req.cache[handler.uri];
+		handler.reject(createRequestError(error));
+	}
+
+	/** Time in milliseconds before requests fail, or 0 to wait forever. */
+	private timeout: number;
+
+	/** Requests forwarded to the UI thread and waiting for a response,
+	  * by request number, with the caches holding them. */
+	private requestTbl: { [id: number]: { handler: MessageHandler<any>, cache: HandlerCache<any> } } = {};
+
+	/** Number of the latest request forwarded to the UI thread. */
+	private requestCount = 0;
+
+	/** Cache mapping URLs to ifExists RPC message responses. */
+	private existsCache: HandlerCache<string> = {};
+
+	/** Cache mapping URLs to fetch RPC message responses. */
+	private fetchCache: HandlerCache<FetchResponse> = {};
+
+}
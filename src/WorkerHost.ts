@@ -0,0 +1,111 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+import { Resolver, PendingConfig, getLoaderConfig } from './Resolver';
+import { Loader } from './Loader';
+import { FetchResponse } from './fetchResponse';
+import { METHOD, ResolverMessage, describeError } from './rpc';
+
+/** Serves file requests from any number of Web Workers in the UI thread,
+  * using a resolver there and sharing its caches. Configuration generated
+  * in one worker is applied in the UI thread and sent to all other workers.
+  * Usually obtained from Resolver getHost. */
+
+export class WorkerHost {
+
+	/** @param resolver Resolver in the UI thread.
+	  * @param loader Loader to also configure with updates from workers,
+	  *   if it is not attached to the resolver. */
+
+	constructor(public resolver: Resolver, public loader?: Loader) {}
+
+	/** Create a message channel port for passing to a new Web Worker,
+	  * which should call setPort with it.
+	  *
+	  * @param onLoad Function called when the worker calls reportLoad,
+	  *   with its success flag. */
+
+	createPort(onLoad?: (success: boolean) => void) {
+		const channel = new MessageChannel();
+		const local = channel.port1;
+
+		// Requests not yet answered, cancelled or timed out, by number.
+		const activeTbl: { [id: number]: boolean } = {};
+
+		local.onmessage = (event) => {
+			const req: ResolverMessage = event.data;
+			const { method, uri } = req;
+			const id = req.id!;
+
+			const send = (res: ResolverMessage) => {
+				if(!activeTbl[id]) return;
+
+				delete activeTbl[id];
+				local.postMessage(res);
+			};
+
+			const fail = (err: any) => send({ method, id, uri, success: false, error: describeError(err, uri) });
+
+			switch(method) {
+				case METHOD.ifExists:
+					activeTbl[id] = true;
+
+					this.resolver.ifExists(uri).then(
+						(target: string) => send({ method, id, uri, success: true, target }),
+						fail
+					);
+					break;
+
+				case METHOD.fetch:
+					activeTbl[id] = true;
+
+					this.resolver.fetch(uri, req.config || {}).then((res: FetchResponse) => {
+						// Standard fetch resolves even if the server reports an error.
+						if(res.ok === false) throw({ status: res.status });
+
+						return(res.text().then(
+							(body: string) => send({ method, id, uri, success: true, target: res.url || uri, body })
+						));
+					}).catch(fail);
+					break;
+
+				case METHOD.cancel:
+					delete activeTbl[id];
+					break;
+
+				case METHOD.loaded:
+					if(onLoad) onLoad(!!req.success);
+					break;
+
+				case METHOD.config:
+					this.addConfig(req.config, local);
+					break;
+			}
+		};
+
+		this.portList.push(local);
+
+		return(channel.port2);
+	}
+
+	/** Send a message to all workers. */
+
+	broadcast(message: ResolverMessage) {
+		for(let port of this.portList) port.postMessage(message);
+	}
+
+	/** Apply configuration generated in a worker and send it to all other workers. */
+
+	private addConfig(config: PendingConfig, source: MessagePort) {
+		this.resolver.addConfig(config);
+		if(this.loader) this.loader.config(getLoaderConfig(config));
+
+		for(let port of this.portList) {
+			if(port != source) port.postMessage({ method: METHOD.config, uri: '', config });
+		}
+	}
+
+	/** UI thread side message channel ports of all workers. */
+	private portList: MessagePort[] = [];
+
+}
@@ -0,0 +1,198 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+import * as SystemJS from 'systemjs';
+
+import { Resolver, SystemConfig } from './Resolver';
+import { Loader, ConfigLoader } from './Loader';
+
+/** Get the global object in browsers, Web Workers and Node.js. */
+
+function getGlobal(): any {
+	return(typeof(self) == 'object' ? self : typeof(window) == 'object' ? window : global);
+}
+
+/** Define a global variable for a global: module name, unless it exists. */
+
+function defineGlobal(name: string, value: any) {
+	const root = getGlobal();
+
+	if(name.substr(0, 7) == 'global:' && root[name.substr(7)] === void 0) root[name.substr(7)] = value;
+}
+
+/** Adapter for SystemJS 0.21, which understands generated configuration
+  * and meta globals directly. */
+
+export class SystemJSLoader implements Loader {
+
+	/** @param sys SystemJS object.
+	  * @param originalResolve SystemJS resolve method without the resolver. */
+
+	constructor(
+		public sys: typeof SystemJS,
+		private originalResolve: typeof SystemJS.resolve = sys.resolve
+	) {}
+
+	config(config: SystemConfig) {
+		this.sys.config(config);
+	}
+
+	unconfig(config: SystemConfig) {
+		// SystemJS 0.21 cannot remove configuration. Outdated mappings are
+		// detected later, because the resolver checks that files exist.
+	}
+
+	resolve(name: string, parentAddress?: string): Promise<string> {
+		return(this.originalResolve.call(this.sys, name, parentAddress));
+	}
+
+	has(uri: string) {
+		return(!!this.sys.registry.get(uri));
+	}
+
+	import(uri: string) {
+		return(this.sys.import(uri));
+	}
+
+	define(name: string, value: any) {
+		this.sys.set(name, this.sys.newModule({ default: value, __useDefault: value }));
+	}
+
+	delete(uri: string) {
+		this.sys.registry.delete(uri);
+	}
+
+}
+
+/** Resolve a name using the default resolution of a loader, for bare
+  * names found in its import map.
+  *
+  * @return Resolved address or undefined if the name is not mapped. */
+
+function resolveMapped(
+	defaultResolve: (name: string, parentAddress?: string) => string,
+	name: string,
+	parentAddress?: string
+) {
+	// Only bare names are mapped, paths are always resolved.
+	if(name.match(/^(\.\.?(\/|$)|\/|[a-z][-+.0-9a-z]*:)/i)) return(void 0);
+
+	try {
+		return(defaultResolve(name, parentAddress));
+	} catch(err) {
+		return(void 0);
+	}
+}
+
+/** Adapter for SystemJS 6.x. Generated configuration is interpreted
+  * by the adapter, while names already in an import map are resolved
+  * by SystemJS without the resolver. Meta globals are not supported, so global: modules
+  * also become global variables. */
+
+export class SystemJS6Loader extends ConfigLoader {
+
+	/** @param system SystemJS 6.x object.
+	  * @param baseURL Address for resolving imports without a parent. */
+
+	constructor(public system: any, baseURL?: string) {
+		super(baseURL);
+
+		this.originalResolve = system.resolve;
+		system.set(SystemJS6Loader.emptyURL, {});
+	}
+
+	has(uri: string) {
+		return(super.has(uri) || !!this.system.has(uri));
+	}
+
+	import(uri: string) {
+		return(super.has(uri) ? super.import(uri) : this.system.import(uri));
+	}
+
+	define(name: string, value: any) {
+		super.define(name, value);
+		this.system.set(name, { default: value, __useDefault: value });
+
+		defineGlobal(name, value);
+	}
+
+	delete(uri: string) {
+		super.delete(uri);
+		this.system.delete(uri);
+	}
+
+	/** Hook SystemJS path resolution to use a resolver.
+	  *
+	  * @param resolver Resolver to use.
+	  * @param env Environment: production or development. */
+
+	patch(resolver: Resolver, env = 'production') {
+		resolver.attach(this, env);
+
+		this.system.resolve = (name: string, parentAddress?: string) => {
+			const mapped = resolveMapped(
+				(name: string, parentAddress?: string) => this.originalResolve.call(this.system, name, parentAddress),
+				name,
+				parentAddress
+			);
+
+			return(mapped ? Promise.resolve(mapped) : resolver.resolve(name, parentAddress).then(
+				(uri: string) => uri == '@empty' ? SystemJS6Loader.emptyURL : uri
+			));
+		};
+
+		return(this);
+	}
+
+	/** Name of a module with no exports, replacing SystemJS 0.21 @empty. */
+	static emptyURL = 'global:@empty';
+
+	/** SystemJS resolve method without the resolver. */
+	private originalResolve: (name: string, parentAddress?: string) => string;
+
+}
+
+/** Adapter for es-module-shims. Generated configuration is interpreted
+  * by the adapter, while names already in an import map are resolved
+  * by es-module-shims without the resolver. Native ES modules cannot be
+  * deleted from the browser registry, so they never run again. */
+
+export class ModuleShimsLoader extends ConfigLoader {
+
+	import(uri: string) {
+		const importShim = getGlobal().importShim;
+
+		return(super.has(uri) || !importShim ? super.import(uri) : importShim(uri));
+	}
+
+	define(name: string, value: any) {
+		super.define(name, value);
+		defineGlobal(name, value);
+	}
+
+	/** Create a resolve hook using a resolver, for passing to es-module-shims
+	  * in the resolve field of esmsInitOptions.
+	  *
+	  * @param resolver Resolver to use.
+	  * @param env Environment: production or development. */
+
+	createHook(resolver: Resolver, env = 'production') {
+		resolver.attach(this, env);
+
+		return((
+			name: string,
+			parentAddress: string,
+			defaultResolve: (name: string, parentAddress?: string) => string
+		) => {
+			const mapped = resolveMapped(defaultResolve, name, parentAddress);
+
+			return(mapped ? Promise.resolve(mapped) : resolver.resolve(name, parentAddress).then(
+				(uri: string) => uri == '@empty' ? ModuleShimsLoader.emptyURL : uri
+			));
+		});
+	}
+
+	/** Address of a module with no exports, replacing SystemJS 0.21 @empty. */
+	static emptyURL = 'data:text/javascript,export%20default%20{}';
+
+}
@@ -0,0 +1,67 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+/** Type of files imported as modules but not containing JavaScript. */
+
+export interface AssetType {
+	/** File extension including the dot, like .css */
+	extension: string;
+
+	/** SystemJS module format for parsing the files, like json. */
+	format?: string;
+
+	/** Name of npm package with a SystemJS loader plugin
+	  * for loading the files, like systemjs-plugin-css */
+	loader?: string;
+}
+
+/** JSON files, parsed by SystemJS and exported as default. */
+
+export const jsonAsset: AssetType = { extension: '.json', format: 'json' };
+
+/** Create an asset type loaded by a SystemJS loader plugin.
+  *
+  * @param extension File extension including the dot.
+  * @param loader Name of npm package with the plugin. */
+
+export function createAssetType(extension: string, loader: string): AssetType {
+	return({ extension, loader });
+}
+
+/** Get SystemJS meta configuration for files of an asset type.
+  * The extension in the pattern also stops SystemJS from adding
+  * defaultExtension to their paths. */
+
+export function getAssetMeta(asset: AssetType) {
+	const meta: { [key: string]: string } = {};
+
+	if(asset.format) meta.format = asset.format;
+	if(asset.loader) meta.loader = asset.loader;
+
+	return({ pattern: '*' + asset.extension, meta });
+}
+
+/** Get all asset types, JSON first.
+  *
+  * @param assets Asset types in addition to JSON. */
+
+export function getAssetTypes(assets: AssetType[] = []) {
+	return([ jsonAsset ].concat(assets));
+}
+
+/** Get the asset type of a file, if it is not JavaScript.
+  *
+  * @param uri Address or path of the file.
+  * @param assets Asset types in addition to JSON. */
+
+export function getAssetType(uri: string, assets: AssetType[] = []) {
+	const uriLow = uri.toLowerCase();
+
+	for(let asset of getAssetTypes(assets)) {
+		const ext = asset.extension.toLowerCase();
+
+		if(uriLow.substr(uriLow.length - ext.length) == ext) return(asset);
+	}
+
+	return(void 0);
+}
@@ -0,0 +1,69 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+/** Browser replacements for Node.js core modules, by module name.
+  * Values are npm package names (optionally with a path inside the package)
+  * resolved like any other dependency, or @empty for modules without
+  * a browser equivalent. */
+
+export const defaultBuiltins: { [name: string]: string } = {
+	assert: 'assert',
+	async_hooks: '@empty',
+	buffer: 'buffer',
+	child_process: '@empty',
+	cluster: '@empty',
+	console: 'console-browserify',
+	constants: 'constants-browserify',
+	crypto: 'crypto-browserify',
+	dgram: '@empty',
+	dns: '@empty',
+	domain: 'domain-browser',
+	events: 'events',
+	fs: '@empty',
+	http: 'stream-http',
+	http2: '@empty',
+	https: 'https-browserify',
+	inspector: '@empty',
+	module: '@empty',
+	net: '@empty',
+	os: 'os-browserify/browser',
+	path: 'path-browserify',
+	perf_hooks: '@empty',
+	process: 'process/browser',
+	punycode: 'punycode',
+	querystring: 'querystring-es3',
+	readline: '@empty',
+	repl: '@empty',
+	stream: 'stream-browserify',
+	string_decoder: 'string_decoder',
+	sys: 'util',
+	timers: 'timers-browserify',
+	tls: '@empty',
+	tty: 'tty-browserify',
+	url: 'url',
+	util: 'util',
+	v8: '@empty',
+	vm: 'vm-browserify',
+	worker_threads: '@empty',
+	zlib: 'browserify-zlib'
+};
+
+/** Combine default replacements for Node.js core modules with overrides.
+  *
+  * @param overrides Replacements by module name, or false to resolve
+  *   the name like any other package. */
+
+export function getBuiltins(overrides: { [name: string]: string | false } = {}) {
+	const result: { [name: string]: string } = {};
+
+	for(let name of Object.keys(defaultBuiltins)) result[name] = defaultBuiltins[name];
+
+	for(let name of Object.keys(overrides)) {
+		const target = overrides[name];
+
+		if(target) result[name] = target;
+		else delete result[name];
+	}
+
+	return(result);
+}
@@ -0,0 +1,356 @@
+#!/usr/bin/env node
+
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+import * as FS from 'fs';
+import * as Path from 'path';
+import * as HTTP from 'http';
+import * as SystemJS from 'systemjs';
+
+import { Resolver, GeneratedConfig, getLoaderConfig } from './Resolver';
+import { ifExists, fetch, path2url, setDiskCache } from './fetch';
+import { DiskCache } from './DiskCache';
+import { CacheEntry } from './storage';
+import { crawl, CrawlResult } from './crawl';
+import { FileWatcher, FileEvent } from './FileWatcher';
+import { manifestName } from './Manifest';
+import { writeManifest } from './listing';
+import { DevServer } from './DevServer';
+
+const usage = [
+	'Usage: cresolve [options] <entry>',
+	'       cresolve cache list [options]',
+	'       cresolve cache clear [options] [url prefix]',
+	'       cresolve watch [options] <dir>',
+	'       cresolve manifest [options] <dir>',
+	'       cresolve serve [options] <dir>',
+	'',
+	'Follow all imports starting from an entry point and write SystemJS configuration,',
+	'list or remove HTTP request results stored in the disk cache,',
+	'watch a directory and report changed files to browsers using EventSource,',
+	'write a manifest listing files in a directory to avoid HEAD requests,',
+	'or serve a directory to browsers in development, resolving modules in Node.js.',
+	'',
+	'Options:',
+	'  -o, --out <file>      Output file (default: standard output, or',
+	'                        ' + manifestName + ' inside the directory for manifests)',
+	'  -f, --format <type>   Output format: json or js (default: js if output file',
+	'                        name ends with .js, json otherwise)',
+	'  -r, --report <file>   Also write sources of packages and packages found more',
+	'                        than once to a JSON file',
+	'  -e, --env <name>      Environment: production or development (default: production)',
+	'  -x, --extensions <list>',
+	'                        Comma-separated extensions to try for paths without one,',
+	'                        also used for directory index files (default: .js)',
+	'  -c, --cache <dir>     Disk cache directory for HTTP requests',
+	'                        (default: node_modules/.cache/cresolve)',
+	'  --cache-ttl <seconds> Fetch again results older than this, except immutable',
+	'                        versioned CDN addresses (default: keep until cleared)',
+	'  --no-cache            Do not use the disk cache',
+	'  -p, --port <number>   Port for reporting changes in watch mode (default: 8090)',
+	'                        or serving files (default: 8080)',
+	'  --host <name>         Address to listen on when serving files (default: localhost,',
+	'                        use 0.0.0.0 to allow connections from other machines)',
+	'  --base-url <url>      URL address the watched directory is served from',
+	'                        (default: its file:// address, or guessed when serving)',
+	'  --origin <url>        Origin of pages allowed to read responses from another',
+	'                        address (default: origin of --base-url in watch mode)',
+	'  -h, --help            Show this help'
+].join('\n');
+
+interface CliOptions {
+	/** Subcommand: list or clear for the cache, watch, manifest or serve. */
+	command?: string;
+	entry?: string;
+	out?: string;
+	format?: string;
+	report?: string;
+	env: string;
+	extensions?: string[];
+	cache?: string;
+	cacheTTL?: number;
+	noCache?: boolean;
+	port?: number;
+	host?: string;
+	baseURL?: string;
+	origin?: string;
+	help?: boolean;
+}
+
+function parseArgs(argList: string[]) {
+	const options: CliOptions = { env: 'production' };
+
+	if(argList[0] == 'cache') {
+		options.command = argList[1];
+		argList = argList.slice(2);
+
+		if(options.command != 'list' && options.command != 'clear') {
+			throw(new Error('Unknown cache command: ' + options.command));
+		}
+	} else if(argList[0] == 'watch' || argList[0] == 'manifest' || argList[0] == 'serve') {
+		options.command = argList[0];
+		argList = argList.slice(1);
+	}
+
+	for(let num = 0; num < argList.length; ++num) {
+		const arg = argList[num];
+
+		switch(arg) {
+			case '-o': case '--out': options.out = argList[++num]; break;
+			case '-f': case '--format': options.format = argList[++num]; break;
+			case '-r': case '--report': options.report = argList[++num]; break;
+			case '-e': case '--env': options.env = argList[++num]; break;
+			case '-x': case '--extensions':
+				options.extensions = (argList[++num] || '').split(',').filter(
+					(ext: string) => ext
+				).map(
+					(ext: string) => ext.replace(/^\.?/, '.')
+				);
+				break;
+			case '-c': case '--cache': options.cache = argList[++num]; break;
+			case '--cache-ttl':
+				options.cacheTTL = +argList[++num];
+				if(!(options.cacheTTL >= 0)) throw(new Error('Invalid cache TTL: ' + argList[num]));
+				break;
+			case '--no-cache': options.noCache = true; break;
+			case '-p': case '--port':
+				options.port = +argList[++num];
+				if(!(options.port > 0 && options.port < 65536)) throw(new Error('Invalid port: ' + argList[num]));
+				break;
+			case '--host': options.host = argList[++num]; break;
+			case '--base-url': options.baseURL = (argList[++num] || '').replace(/\/?$/, '/'); break;
+			case '--origin': options.origin = (argList[++num] || '').replace(/\/+$/, ''); break;
+			case '-h': case '--help': options.help = true; break;
+
+			default:
+				if(arg.charAt(0) == '-' || options.entry || options.command == 'list') {
+					throw(new Error('Unexpected argument: ' + arg));
+				}
+
+				options.entry = arg;
+		}
+	}
+
+	if(options.format && options.format != 'json' && options.format != 'js') {
+		throw(new Error('Unknown output format: ' + options.format));
+	}
+
+	return(options);
+}
+
+/** Serialize configuration as JSON or a script calling System.config,
+  * without fields not understood by loaders. */
+
+export function formatConfig(config: GeneratedConfig, format: string) {
+	const json = JSON.stringify(getLoaderConfig(config), null, '\t');
+
+	return(format == 'js' ? 'System.config(' + json + ');\n' : json + '\n');
+}
+
+/** Serialize the sources of packages and root addresses of packages
+  * found more than once as JSON. */
+
+export function formatPackageReport(config: GeneratedConfig) {
+	return(JSON.stringify({
+		sources: config.sources || {},
+		duplicates: config.duplicates || {}
+	}, null, '\t') + '\n');
+}
+
+/** Describe results stored in the disk cache, one per line. */
+
+export function formatCacheList(entryList: CacheEntry[]) {
+	const now = new Date().getTime();
+
+	return(entryList.map((entry: CacheEntry) => [
+		entry.status,
+		Math.round((now - entry.time) / 1000) + 's',
+		entry.body === void 0 ? '-' : entry.body.length,
+		entry.url + (entry.target != entry.url ? ' -> ' + entry.target : '')
+	].join('\t') + '\n').join(''));
+}
+
+/** Watch a directory and serve change events to browsers using EventSource,
+  * also printing them. Pages from the origin of the base URL may connect,
+  * since the events are served from another port. */
+
+function watch(dir: string, port: number, baseURL?: string, origin?: string) {
+	const http: typeof HTTP = eval("require('http')");
+	const baseOrigin = baseURL && baseURL.match(/^https?:\/\/[^/]+/i);
+	const watcher = new FileWatcher(dir, { baseURL, origin: origin || (baseOrigin ? baseOrigin[0] : void 0) }).on(
+		(event: FileEvent) => process.stdout.write(event.type + '\t' + event.url + '\n')
+	);
+
+	const server = http.createServer((req: HTTP.IncomingMessage, res: HTTP.ServerResponse) => watcher.handleEvents(req, res));
+
+	server.on('error', (err: any) => {
+		process.stderr.write(((err && err.message) || err) + '\n');
+		watcher.close();
+		process.exitCode = 1;
+	});
+
+	server.listen(port, () => process.stderr.write(
+		'Watching ' + watcher.baseURL + ', reporting changes at http://localhost:' + port + '/\n'
+	));
+}
+
+/** Serve a directory in development, also reporting changed files. */
+
+function serve(dir: string, port: number, host: string, env: string, extensions?: string[], baseURL?: string, origin?: string) {
+	const http: typeof HTTP = eval("require('http')");
+	const devServer = new DevServer(dir, {
+		baseURL,
+		origin,
+		env,
+		resolver: extensions && {
+			extensions,
+			indexFiles: extensions.map((ext: string) => 'index' + ext)
+		}
+	});
+
+	const server = http.createServer((req: HTTP.IncomingMessage, res: HTTP.ServerResponse) => devServer.handle(req, res));
+
+	server.on('error', (err: any) => {
+		process.stderr.write(((err && err.message) || err) + '\n');
+		devServer.close();
+		process.exitCode = 1;
+	});
+
+	server.listen(port, host, () => process.stderr.write(
+		'Serving ' + devServer.dir + ' at http://' + host + ':' + port + '/\n'
+	));
+}
+
+/** Describe imports that could not be resolved. */
+
+export function formatReport(result: CrawlResult) {
+	const lines = [ 'Cannot resolve ' + result.errors.length + ' import(s):' ];
+
+	for(let { name, parentAddress, message, trace } of result.errors) {
+		lines.push(
+			'  ' + name + (parentAddress ? ' imported from ' + parentAddress : ' (entry point)'),
+			'    ' + message
+		);
+
+		if(trace) lines.push(trace.explain().replace(/^/gm, '    '));
+	}
+
+	return(lines.join('\n') + '\n');
+}
+
+function main(argList: string[]) {
+	const fs: typeof FS = eval("require('fs')");
+	const path: typeof Path = eval("require('path')");
+	let options: CliOptions;
+
+	try {
+		options = parseArgs(argList);
+	} catch(err) {
+		process.stderr.write(err.message + '\n\n' + usage + '\n');
+		process.exitCode = 2;
+		return;
+	}
+
+	const cache = options.noCache ? void 0 : new DiskCache(
+		path.resolve(options.cache || 'node_modules/.cache/cresolve'),
+		{ ttl: options.cacheTTL === void 0 ? void 0 : options.cacheTTL * 1000 }
+	);
+
+	if(options.command == 'watch' && !options.help) {
+		if(!options.entry) {
+			process.stderr.write('Missing directory to watch.\n\n' + usage + '\n');
+			process.exitCode = 2;
+			return;
+		}
+
+		watch(options.entry, options.port || 8090, options.baseURL, options.origin);
+		return;
+	}
+
+	if(options.command == 'serve' && !options.help) {
+		if(!options.entry) {
+			process.stderr.write('Missing directory to serve.\n\n' + usage + '\n');
+			process.exitCode = 2;
+			return;
+		}
+
+		setDiskCache(cache);
+		serve(options.entry, options.port || 8080, options.host || 'localhost', options.env, options.extensions, options.baseURL, options.origin);
+		return;
+	}
+
+	if(options.command == 'manifest' && !options.help) {
+		if(!options.entry) {
+			process.stderr.write('Missing directory to list.\n\n' + usage + '\n');
+			process.exitCode = 2;
+			return;
+		}
+
+		writeManifest(options.entry, options.out).catch((err: any) => {
+			process.stderr.write(((err && err.stack) || err) + '\n');
+			process.exitCode = 1;
+		});
+
+		return;
+	}
+
+	if(options.command && !options.help) {
+		if(!cache) {
+			process.stderr.write('Cannot use --no-cache with cache commands.\n');
+			process.exitCode = 2;
+			return;
+		}
+
+		const done = options.command == 'list' ? cache.list().then(
+			(entryList: CacheEntry[]) => process.stdout.write(formatCacheList(entryList))
+		) : cache.clear(options.entry).then(
+			(count: number) => process.stdout.write('Removed ' + count + ' cached result(s).\n')
+		);
+
+		done.catch((err: any) => {
+			process.stderr.write(((err && err.stack) || err) + '\n');
+			process.exitCode = 1;
+		});
+
+		return;
+	}
+
+	if(options.help || !options.entry) {
+		process.stdout.write(usage + '\n');
+		if(!options.help) process.exitCode = 2;
+		return;
+	}
+
+	const System: typeof SystemJS = eval("require('systemjs')");
+	const sys: typeof SystemJS = new (System.constructor as any)();
+	const resolver = new Resolver(ifExists, fetch, void 0, options.extensions && {
+		extensions: options.extensions,
+		indexFiles: options.extensions.map((ext: string) => 'index' + ext)
+	});
+	const format = options.format || (options.out && options.out.match(/\.js$/i) ? 'js' : 'json');
+
+	setDiskCache(cache);
+	sys.config({ baseURL: path2url(process.cwd()) + '/' });
+	resolver.patchSystem(sys, options.env);
+
+	crawl(sys, path2url(path.resolve(options.entry)), fetch).then((result: CrawlResult) => {
+		if(result.errors.length) {
+			process.stderr.write(formatReport(result));
+			process.exitCode = 1;
+			return;
+		}
+
+		const output = formatConfig(resolver.systemConfig, format);
+
+		if(options.out) fs.writeFileSync(options.out, output, 'utf-8');
+		else process.stdout.write(output);
+
+		if(options.report) fs.writeFileSync(options.report, formatPackageReport(resolver.systemConfig), 'utf-8');
+	}).catch((err: any) => {
+		process.stderr.write(((err && err.stack) || err) + '\n');
+		process.exitCode = 1;
+	});
+}
+
+if(require.main === module) main(process.argv.slice(2));
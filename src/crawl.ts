@@ -0,0 +1,192 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+import * as SystemJS from 'systemjs';
+
+import { FetchResponse } from './fetchResponse';
+import { Trace } from './Trace';
+
+/** Import that could not be resolved. */
+
+export interface CrawlError {
+	/** Path in import statement. */
+	name: string;
+	/** URL address of importing file. */
+	parentAddress: string;
+	message: string;
+	/** Steps taken while trying to resolve the import. */
+	trace?: Trace;
+}
+
+export interface CrawlResult {
+	/** URL addresses of all files found. */
+	files: string[];
+	errors: CrawlError[];
+}
+
+/** Extensions of files that may contain import or require statements. */
+const scriptRe = /\.([cm]?jsx?|tsx?)$/i;
+
+/** Find paths in import, export and require statements in source code.
+  * Comments are ignored, but code is not otherwise parsed. */
+
+export function findImports(source: string) {
+	const code = source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|\s)\/\/.*$/gm, '$1');
+	const importRe = /(^|[^.$\w])(import|export)\s*([\w*{}\s,$]*?\s*from\s*)?(['"])([^'"\n]+)\4/g;
+	const callRe = /(^|[^.$\w])(require|import)\s*\(\s*(['"])([^'"\n]+)\3\s*\)/g;
+	const result: string[] = [];
+	let match: RegExpExecArray | null;
+
+	while((match = importRe.exec(code))) result.push(match[5]);
+	while((match = callRe.exec(code))) result.push(match[4]);
+
+	return(result);
+}
+
+/** Name of the stand-in transpiler used while crawling. */
+const transpilerName = 'cresolve:crawl-esm';
+
+/** Hooks of a SystemJS object replaced while crawling. */
+
+interface LoaderState {
+	register?: typeof SystemJS.register;
+	registerDynamic?: typeof SystemJS.registerDynamic;
+	transpiler: any;
+}
+
+/** Get dependencies of modules using the SystemJS instantiate hook:
+  * fetch, plugin translate and module format detection work like when
+  * loading them, but module code never runs. Anonymous registrations
+  * are captured instead of sent to SystemJS. ES modules are converted to
+  * registrations listing their imports, unless a transpiler is configured.
+  *
+  * @return Function for getting dependencies of a resolved module
+  *   and another for restoring the original SystemJS hooks. */
+
+function hookLoader(sys: typeof SystemJS) {
+	const loader: any = sys;
+	const state: LoaderState = {
+		register: loader.hasOwnProperty('register') ? loader.register : void 0,
+		registerDynamic: loader.hasOwnProperty('registerDynamic') ? loader.registerDynamic : void 0,
+		transpiler: loader.transpiler
+	};
+
+	const register = loader.register;
+	const registerDynamic = loader.registerDynamic;
+
+	// Dependencies from the latest anonymous registration.
+	let lastDeps: string[] | undefined;
+
+	// Named registrations from bundles are passed on.
+
+	loader.register = function(this: any, key: string | string[]) {
+		if(typeof(key) == 'string') return(register.apply(this, arguments));
+		lastDeps = key;
+	};
+
+	loader.registerDynamic = function(this: any, key: string | string[]) {
+		if(typeof(key) == 'string') return(registerDynamic.apply(this, arguments));
+		lastDeps = key;
+	};
+
+	if(!state.transpiler) {
+		sys.registry.set(transpilerName, sys.newModule({
+			translate: (load: { source: string }) => (
+				'System.register(' + JSON.stringify(findImports(load.source)) + ', function() {\n' +
+				'\treturn({ setters: [], execute: function() {} });\n' +
+				'});\n'
+			)
+		}));
+
+		sys.config({ transpiler: transpilerName as any });
+	}
+
+	const getDeps = (uri: string) => {
+		let deps: string[] = [];
+
+		const processAnonRegister = () => {
+			if(!lastDeps) return(false);
+
+			deps = lastDeps;
+			lastDeps = void 0;
+
+			return(true);
+		};
+
+		lastDeps = void 0;
+
+		return(Promise.resolve(
+			loader[(sys.constructor as any).instantiate](uri, processAnonRegister)
+		).then(() => deps.filter((dep: any) => typeof(dep) == 'string')));
+	};
+
+	const restore = () => {
+		for(let name of [ 'register', 'registerDynamic' ] as ('register' | 'registerDynamic')[]) {
+			if(state[name]) loader[name] = state[name];
+			else delete loader[name];
+		}
+
+		if(!state.transpiler) {
+			sys.config({ transpiler: state.transpiler });
+			sys.registry.delete(transpilerName);
+		}
+	};
+
+	return({ getDeps, restore });
+}
+
+/** Follow all imports starting from an entry point, resolving them with
+  * SystemJS (patched by a Resolver) or a Resolver. SystemJS fetches and
+  * translates each file and finds its dependencies like when loading it,
+  * without running the modules. A Resolver alone only finds import,
+  * export and require statements in source code.
+  *
+  * @param sys SystemJS object or Resolver.
+  * @param entry URL address of entry point.
+  * @param fetch Function for fetching source code of each file,
+  *   if sys is not a SystemJS object.
+  * @return Promise resolving to files found and any errors. */
+
+export function crawl(
+	sys: { resolve(name: string, parentAddress?: string): Promise<string> },
+	entry: string,
+	fetch: (uri: string, config?: any) => Promise<FetchResponse>
+) {
+	const result: CrawlResult = { files: [], errors: [] };
+	const visitedTbl: { [uri: string]: boolean } = {};
+	const isLoader = typeof((sys as any).registerDynamic) == 'function' && !!(sys.constructor as any).instantiate;
+	const hooks = isLoader ? hookLoader(sys as typeof SystemJS) : void 0;
+
+	const getDeps = (uri: string) => hooks ? hooks.getDeps(uri) : fetch(uri, { cache: 'force-cache' }).then(
+		(res: FetchResponse) => res.text()
+	).then(findImports);
+
+	const visit = (name: string, parentAddress?: string): Promise<void> => sys.resolve(
+		name,
+		parentAddress
+	).then((uri: string) => {
+		// Skip empty modules and other special names, and files already seen.
+		if(visitedTbl[uri] || !uri.match(/^[a-z]+:\/\//i)) return;
+
+		visitedTbl[uri] = true;
+		result.files.push(uri);
+
+		if(!uri.match(scriptRe)) return;
+
+		return(getDeps(uri).then((depList: string[]) => Promise.all(
+			depList.map((dep: string) => visit(dep, uri))
+		)).then(() => {}));
+	}).catch((err: any) => {
+		result.errors.push({
+			name,
+			parentAddress: parentAddress || '',
+			message: (err && err.message) || '' + err,
+			trace: err && err.trace
+		});
+	});
+
+	return(visit(entry).then(() => {
+		if(hooks) hooks.restore();
+		return(result);
+	}));
+}
@@ -0,0 +1,355 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+// Node.js ESM loader hooks resolving imports like in browsers.
+// Use with: node --import cresolve/dist/register.js app.js
+// or: node --loader cresolve/dist/esmLoader.js app.js
+
+import * as FS from 'fs';
+
+import { Resolver, GeneratedConfig } from './Resolver';
+import { ConfigLoader } from './Loader';
+import { createProvider } from './FallbackProvider';
+import { ifExists, fetch, url2path, setDiskCache } from './fetch';
+import { DiskCache } from './DiskCache';
+import { FetchResponse } from './fetchResponse';
+import { findImports } from './crawl';
+
+/** Options passed to initialize when registering the hooks using
+  * module.register. Defaults come from environment variables. */
+
+export interface EsmLoaderOptions {
+	/** Path of a JSON file with generated configuration, read at startup
+	  * and updated after every new import to share it with browsers.
+	  * Default is CRESOLVE_CONFIG. */
+	config?: string;
+
+	/** Environment: production or development. Default is NODE_ENV
+	  * or production. */
+	env?: string;
+
+	/** Extensions to try in order when importing a path without one.
+	  * Default is CRESOLVE_EXTENSIONS (comma-separated) or .js */
+	extensions?: string[];
+
+	/** Index file names to try in order when importing a directory.
+	  * Default is index with each extension. */
+	indexFiles?: string[];
+
+	/** Conditions to accept in package.json exports fields. */
+	conditions?: string[];
+
+	/** URL of npm registry, with a slash at the end. */
+	registry?: string;
+
+	/** URL templates of sources for packages not installed locally,
+	  * like http://localhost:8080/{name}@{version}
+	  * Default is CRESOLVE_FALLBACKS (comma-separated) or UNPKG only. */
+	fallbacks?: string[];
+
+	/** Native path of disk cache directory for HTTP requests.
+	  * Default is CRESOLVE_CACHE, or no disk cache. */
+	cache?: string;
+}
+
+/** Context passed to the resolve hook by Node.js. */
+
+export interface ResolveContext {
+	conditions: string[];
+	parentURL?: string;
+}
+
+/** Result of the resolve hook. */
+
+export interface ResolveResult {
+	url: string;
+	format?: string;
+	shortCircuit?: boolean;
+}
+
+/** Context passed to the load hook by Node.js. */
+
+export interface LoadContext {
+	conditions: string[];
+	format?: string;
+}
+
+/** Result of the load hook. */
+
+export interface LoadResult {
+	format: string;
+	source?: string;
+	shortCircuit?: boolean;
+}
+
+/** Module with no exports, replacing SystemJS @empty. */
+const emptyURL = 'data:text/javascript,export%20default%20{}';
+
+/** Extensions of files loaded by these hooks, others are left to Node.js. */
+const sourceRe = /\.([cm]?[jt]sx?|json)$/i;
+
+/** Match ES module syntax in source code without comments. */
+const moduleRe = /(^|[;}\s])(import(\s+[\w$]|\s*[*{'"]|\s*\.meta\b)|export(\s+[\w$]|\s*[*{]))/m;
+
+let options: EsmLoaderOptions = {};
+let resolver: Resolver | undefined;
+
+/** Last configuration written to the file, to skip writing it unchanged. */
+let savedConfig: string | undefined;
+
+/** Called by Node.js with data passed to module.register. */
+
+export function initialize(data?: EsmLoaderOptions) {
+	options = data || {};
+}
+
+function getResolver() {
+	if(resolver) return(resolver);
+
+	const fs: typeof FS = eval("require('fs')");
+	const configPath = options.config || process.env.CRESOLVE_CONFIG;
+	const extensions = options.extensions || (process.env.CRESOLVE_EXTENSIONS || '').split(',').filter(
+		(ext: string) => ext
+	).map(
+		(ext: string) => ext.replace(/^\.?/, '.')
+	);
+	const fallbacks = options.fallbacks || (process.env.CRESOLVE_FALLBACKS || '').split(',').filter(
+		(template: string) => template
+	);
+	const cacheDir = options.cache || process.env.CRESOLVE_CACHE;
+	let config: GeneratedConfig | undefined;
+
+	if(cacheDir) setDiskCache(new DiskCache(cacheDir));
+
+	if(configPath && fs.existsSync(configPath)) {
+		savedConfig = fs.readFileSync(configPath, 'utf-8');
+		config = JSON.parse(savedConfig);
+	}
+
+	resolver = new Resolver(ifExists, fetch, config, {
+		conditions: options.conditions,
+		registry: options.registry,
+		fallbacks: fallbacks.length ? fallbacks.map(
+			(template: string, num: number) => createProvider('fallback' + (num + 1), template)
+		) : void 0,
+		extensions: extensions.length ? extensions : void 0,
+		indexFiles: options.indexFiles || (extensions.length ? extensions.map((ext: string) => 'index' + ext) : void 0)
+	});
+
+	resolver.attach(
+		new ConfigLoader(void 0, resolver.systemConfig),
+		options.env || process.env.NODE_ENV || 'production'
+	);
+
+	return(resolver);
+}
+
+/** Write generated configuration to the configured file if it changed. */
+
+function saveConfig() {
+	const configPath = options.config || process.env.CRESOLVE_CONFIG;
+	if(!configPath || !resolver) return;
+
+	const fs: typeof FS = eval("require('fs')");
+	const data = JSON.stringify(resolver.systemConfig, null, '\t') + '\n';
+
+	if(data != savedConfig) {
+		fs.writeFileSync(configPath, data, 'utf-8');
+		savedConfig = data;
+	}
+}
+
+/** Check if an import refers to a Node.js core module, which is left
+  * for Node.js to handle. */
+
+function isBuiltin(name: string) {
+	const builtinModules: string[] = eval("require('module')").builtinModules;
+
+	return(name.substr(0, 5) == 'node:' || builtinModules.indexOf(name) >= 0);
+}
+
+/** Resolve an import like in a browser, except Node.js core modules.
+  *
+  * @return Promise for URL address of the file. */
+
+function resolveURL(name: string, parentAddress?: string) {
+	if(isBuiltin(name)) return(Promise.resolve(name.replace(/^(node:)?/, 'node:')));
+
+	const result = getResolver().resolve(name, parentAddress).then((uri: string) => {
+		saveConfig();
+		return(uri == '@empty' ? emptyURL : uri);
+	});
+
+	return(result);
+}
+
+/** Node.js resolve hook. */
+
+export function resolve(
+	specifier: string,
+	context: ResolveContext,
+	nextResolve: (specifier: string, context?: ResolveContext) => Promise<ResolveResult>
+): Promise<ResolveResult> {
+	const parentURL = context.parentURL;
+
+	if(
+		isBuiltin(specifier) ||
+		specifier.match(/^(data|node):/i) ||
+		(parentURL && !parentURL.match(/^(file|https?):/i))
+	) {
+		return(nextResolve(specifier, context));
+	}
+
+	return(resolveURL(specifier, parentURL).then((url: string) => ({ url, shortCircuit: true })));
+}
+
+/** Find names assigned to properties of exports in CommonJS code,
+  * to export them also as named ES module exports. */
+
+function getExportNames(source: string) {
+	const nameList: string[] = [];
+	const add = (name: string) => {
+		if(name != 'default' && name != '__esModule' && nameList.indexOf(name) < 0) nameList.push(name);
+	};
+
+	const assignRe = /(^|[^.\w$])(module\.)?exports\.([A-Za-z_$][\w$]*)\s*=[^=]/g;
+	const defineRe = /Object\.defineProperty\(\s*(module\.)?exports\s*,\s*['"]([A-Za-z_$][\w$]*)['"]/g;
+	const objectRe = /(^|[^.\w$])module\.exports\s*=\s*\{([^{}]*)\}/g;
+	let match: RegExpExecArray | null;
+
+	while((match = assignRe.exec(source))) add(match[3]);
+	while((match = defineRe.exec(source))) add(match[2]);
+
+	while((match = objectRe.exec(source))) {
+		for(let item of match[2].split(',')) {
+			const key = item.match(/^\s*([A-Za-z_$][\w$]*)\s*(:|$)/);
+			if(key) add(key[1]);
+		}
+	}
+
+	return(nameList);
+}
+
+/** Wrap CommonJS code in an ES module. Dependencies found in require calls
+  * are resolved and imported before running the code, and require returns
+  * their exports. Other calls to require throw an error. */
+
+function wrapCommonJS(source: string, url: string) {
+	const code = source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|\s)\/\/.*$/gm, '$1');
+	const nameList = findImports(code).filter(
+		(name: string, num: number, list: string[]) => list.indexOf(name) == num
+	);
+
+	// Unresolvable dependencies are left for require to report if called.
+	const depsReady = nameList.map((name: string) => resolveURL(name, url).catch(() => void 0));
+
+	return(Promise.all(depsReady).then((uriList: (string | undefined)[]) => {
+		const lines: string[] = [];
+		const depList: string[] = [];
+		const isFile = !!url.match(/^file:/i);
+		const filename = isFile ? url2path(decodeURIComponent(url)) : url;
+
+		uriList.forEach((uri: string | undefined, num: number) => {
+			if(!uri) return;
+
+			lines.push('import * as __cresolve' + num + ' from ' + JSON.stringify(uri) + ';');
+			depList.push(
+				JSON.stringify(nameList[num]) + ': [ __cresolve' + num + ', ' + (uri.substr(0, 5) == 'node:') + ' ]'
+			);
+		});
+
+		lines.push(
+			'var __cresolveDeps = { ' + depList.join(', ') + ' };',
+			'var __cresolveModule = { exports: {} };',
+			'function __cresolveRequire(name) {',
+			'\tvar dep = __cresolveDeps[name];',
+			'\tif(!dep) throw(new Error("Cannot require " + name + " from ' + url.replace(/["\\]/g, '\\$&') + '"));',
+			'\tvar ns = dep[0];',
+			'\treturn("module.exports" in ns ? ns["module.exports"] : dep[1] ? ns.default : ns);',
+			'}',
+			// Indirect eval runs the code in sloppy mode like Node.js would.
+			'(0, eval)(' + JSON.stringify(
+				'(function(exports, require, module, __filename, __dirname) {' + source + '\n})\n//# sourceURL=' + url
+			) + ').call(',
+			'\t__cresolveModule.exports, __cresolveModule.exports, __cresolveRequire, __cresolveModule,',
+			'\t' + JSON.stringify(filename) + ', ' + JSON.stringify(filename.replace(/[\\/][^\\/]*$/, '')),
+			');',
+			'var __cresolveExports = __cresolveModule.exports;',
+			'export { __cresolveExports as default, __cresolveExports as "module.exports" };'
+		);
+
+		getExportNames(code).forEach((name: string, num: number) => lines.push(
+			'var __cresolveName' + num + ' = __cresolveExports.' + name + ';',
+			'export { __cresolveName' + num + ' as ' + JSON.stringify(name) + ' };'
+		));
+
+		return(lines.join('\n') + '\n');
+	}));
+}
+
+/** Compile TypeScript or JSX using the typescript package installed
+  * in the working directory or next to cresolve.
+  *
+  * @param commonjs Output a CommonJS module instead of an ES module. */
+
+function transpile(source: string, url: string, commonjs: boolean) {
+	const req: NodeRequire = eval('require');
+	let ts: any;
+
+	// Prefer the project's own TypeScript version.
+	for(let paths of [ [ process.cwd() ], void 0 ]) {
+		try {
+			ts = req(req.resolve('typescript', paths && { paths }));
+			break;
+		} catch(err) {}
+	}
+
+	if(!ts) throw(new Error('Install typescript to load: ' + url));
+
+	return(ts.transpileModule(source, {
+		compilerOptions: {
+			module: commonjs ? ts.ModuleKind.CommonJS : ts.ModuleKind.ESNext,
+			target: ts.ScriptTarget.ES2017,
+			jsx: ts.JsxEmit.React,
+			esModuleInterop: true
+		},
+		fileName: url.replace(/^.*\//, '')
+	}).outputText as string);
+}
+
+/** Node.js load hook. */
+
+export function load(
+	url: string,
+	context: LoadContext,
+	nextLoad: (url: string, context?: LoadContext) => Promise<LoadResult>
+): Promise<LoadResult> {
+	const path = url.replace(/[?#].*$/, '');
+
+	if(!url.match(/^(file|https?):/i) || !path.match(sourceRe)) return(nextLoad(url, context));
+
+	const result = getResolver().fetch(url, { cache: 'force-cache' }).then(
+		(res: FetchResponse) => res.text()
+	).then((source: string): string | Promise<string> => {
+		const ext = path.replace(/^.*\./, '').toLowerCase();
+
+		if(ext == 'json') {
+			const json = JSON.stringify(JSON.parse(source));
+
+			return(
+				'var __cresolveExports = ' + json + ';\n' +
+				'export { __cresolveExports as default, __cresolveExports as "module.exports" };\n'
+			);
+		}
+
+		if(ext.match(/^[cm]?tsx?$|^jsx$/)) source = transpile(source, url, ext == 'cts');
+		if(ext.match(/^c[jt]s$/)) return(wrapCommonJS(source, url));
+
+		const code = source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|\s)\/\/.*$/gm, '$1');
+
+		// Detect module format like SystemJS, from the code.
+		return(ext.match(/^m/) || code.match(moduleRe) ? source : wrapCommonJS(source, url));
+	}).then((source: string) => ({ format: 'module', source, shortCircuit: true }));
+
+	return(result);
+}
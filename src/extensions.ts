@@ -0,0 +1,67 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+/** Extensions tried for imported paths unless configured otherwise. */
+export const defaultExtensions = [ '.js' ];
+
+/** Index files tried inside imported directories unless configured otherwise. */
+export const defaultIndexFiles = [ 'index.js' ];
+
+/** List URL addresses to try in order for an imported file: the address
+  * resolved by SystemJS, the path as written in the import, the path with
+  * each extension added and finally index files inside it as a directory.
+  *
+  * @param uri Address resolved by SystemJS.
+  * @param name Original path in import command. */
+
+export function getCandidates(uri: string, name: string, extensions: string[], indexFiles: string[]) {
+	const nameLast = name.replace(/\/+$/, '').replace(/^.*\//, '');
+	const uriLast = uri.replace(/^.*\//, '');
+	const ext = (nameLast.match(/\.[^.]+$/) || [])[0];
+	let written = uri.replace(/\/+$/, '');
+
+	if(uriLast.length > nameLast.length && uriLast.substr(0, nameLast.length + 1) == nameLast + '.') {
+		// Remove SystemJS defaultExtension.
+		written = uri.substr(0, uri.length - uriLast.length + nameLast.length);
+	}
+
+	const result = [ uri, written ];
+
+	// Try .tsx if a file with .ts extension is missing.
+	if(written.match(/\.ts$/)) result.push(written + 'x');
+
+	if(!ext || extensions.indexOf(ext) < 0) {
+		for(let extension of extensions) result.push(written + extension);
+		for(let index of indexFiles) result.push(written + '/' + index);
+	}
+
+	// Skip directories, assuming files have extensions.
+	const isFile = !!written.replace(/^.*\//, '').match(/\.[^.]+$/);
+
+	return(result.filter((candidate: string, num: number) => (
+		result.indexOf(candidate) == num && !candidate.match(/\/$/) && (candidate != written || isFile)
+	)));
+}
+
+/** Check if a path only has an extension added to another. */
+
+export function isExtended(path: string, base: string) {
+	return(path.substr(0, base.length + 1) == base + '.' && path.indexOf('/', base.length) < 0);
+}
+
+/** Get the SystemJS defaultExtension (without a dot) from a list of
+  * extensions to try, where the first one is the default. */
+
+export function getDefaultExtension(extensions = defaultExtensions) {
+	return(extensions[0].replace(/^\./, ''));
+}
+
+/** Add SystemJS package meta configuration preventing defaultExtension
+  * from being added to paths with any other extension to try. */
+
+export function addExtensionMeta(subConfig: any, extensions = defaultExtensions) {
+	for(let ext of extensions.slice(1)) {
+		if(!subConfig.meta) subConfig.meta = {};
+		if(!subConfig.meta['*' + ext]) subConfig.meta['*' + ext] = {};
+	}
+}
@@ -4,8 +4,14 @@
 import * as FS from 'fs';
 import * as URL from 'url';
 import * as HTTP from 'http';
+import * as Net from 'net';
+import * as TLS from 'tls';
+import * as Zlib from 'zlib';
 
 import { FetchResponse, fetchResponse } from './fetchResponse';
+import { RequestResult, StorageBackend, requestWithStorage, openBrowserStorage } from './storage';
+import { DiskCache } from './DiskCache';
+import { RequestError, RequestErrorCode, createRequestError } from './rpc';
 
 export const isNode = (
 	typeof(process) == 'object' &&
@@ -48,85 +54,224 @@ export const redirectCodes: { [code: number]: boolean } = {
 	308: true
 }
 
-export function request(uri: string, head?: boolean, ttl = 3) {
-	const result = new Promise((resolve: (result: { uri: string, text: string } | Promise<{ uri: string, text: string }>) => void, reject) => {
-		if(!ttl) reject(new Error('Too many redirects'));
+export interface RequestOptions {
+	/** Time in milliseconds to wait for a connection, including any proxy.
+	  * Default is 10000. */
+	connectTimeout?: number;
 
-		const proto = uri.substr(0, 7).toLowerCase();
+	/** Time in milliseconds to wait for more data after connecting.
+	  * Default is 30000. */
+	readTimeout?: number;
 
-		let http: typeof HTTP;
-		if(proto == 'http://') http = eval("require('http')");
-		else if(proto == 'https:/') http = eval("require('https')");
-		else return(reject(new Error()));
+	/** Number of times to try again after network errors, timeouts
+	  * or server errors (5xx statuses). Default is 2. */
+	retries?: number;
 
-		const url: typeof URL = eval("require('url')");
+	/** Time in milliseconds to wait before trying again,
+	  * doubled after every attempt. Default is 500. */
+	retryDelay?: number;
 
-		const options: HTTP.RequestOptions = url.parse(uri);
-		if(head) options.method = 'HEAD';
+	/** Maximum number of redirections to follow. Default is 3. */
+	maxRedirects?: number;
 
-		const req = http.request(options, (res: HTTP.IncomingMessage) => {
-			if(res.statusCode == 200) {
-				if(head) {
-					req.abort();
-					return(resolve({ uri, text: '' }));
-				}
+	/** Additional request headers. */
+	headers?: { [name: string]: string };
 
-				const chunkList: Buffer[] = [];
+	/** Address of a proxy for all requests, or false to never use one.
+	  * Default is taken from the HTTPS_PROXY or HTTP_PROXY (depending on
+	  * the address requested) and NO_PROXY environment variables. */
+	proxy?: string | false;
+}
 
-				res.on('error', reject);
-				res.on('data', (chunk: Buffer) => chunkList.push(chunk));
-				res.on('end', () => resolve({ uri, text: Buffer.concat(chunkList).toString('utf-8') }));
-			} else if(!res.statusCode || !redirectCodes[res.statusCode]) {
-				req.abort();
-				return(reject(res));
-			} else {
-				const next = res.headers.location;
+let requestOptions: RequestOptions = {};
+
+/** Configure HTTP requests made in Node.js. */
+
+export function setRequestOptions(options: RequestOptions) {
+	requestOptions = options;
+}
+
+/** Find the proxy to use for an URL address, if any.
+  *
+  * @param parsed Parsed URL address. */
+
+function getProxy(parsed: URL.Url, options: RequestOptions) {
+	if(options.proxy !== void 0) return(options.proxy || void 0);
+
+	const env = process.env;
+	const proxy = parsed.protocol == 'https:' ? (
+		env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy
+	) : env.HTTP_PROXY || env.http_proxy;
+
+	if(!proxy) return(void 0);
 
-				req.abort();
-				if(!next) return(reject(res));
+	const host = (parsed.hostname || '').toLowerCase();
+	const port = parsed.port || (parsed.protocol == 'https:' ? '443' : '80');
+
+	for(let rule of (env.NO_PROXY || env.no_proxy || '').toLowerCase().split(/[\s,]+/)) {
+		const [ ruleHost, rulePort ] = rule.split(':');
+		const suffix = ruleHost.replace(/^\*?\.?/, '');
+
+		if(rule == '*') return(void 0);
+		if(!suffix || (rulePort && rulePort != port)) continue;
+
+		// Rules match the host and its subdomains.
+		if(host == suffix || host.substr(-suffix.length - 1) == '.' + suffix) return(void 0);
+	}
 
-				return(resolve(request(url.resolve(uri, next), head, ttl - 1)));
+	return(proxy);
+}
+
+/** Prepare options for an HTTP request, connecting through a proxy
+  * if needed. HTTPS requests are tunneled using CONNECT.
+  *
+  * @param track Function called with every request made, for aborting it. */
+
+function prepareRequest(
+	uri: string,
+	head: boolean,
+	options: RequestOptions,
+	track: (req: HTTP.ClientRequest) => void
+) {
+	const url: typeof URL = eval("require('url')");
+	const parsed = url.parse(uri);
+	const secure = parsed.protocol == 'https:';
+	const proxy = getProxy(parsed, options);
+	const zlib: typeof Zlib = eval("require('zlib')");
+	const config: HTTP.RequestOptions = url.parse(uri);
+	const headers: { [name: string]: string } = {
+		// Brotli is only supported in newer Node.js versions.
+		'Accept-Encoding': 'gzip, deflate' + (typeof(zlib.createBrotliDecompress) == 'function' ? ', br' : '')
+	};
+
+	for(let name of Object.keys(options.headers || {})) headers[name] = options.headers![name];
+
+	config.method = head ? 'HEAD' : 'GET';
+	config.headers = headers;
+
+	if(!proxy) {
+		return(Promise.resolve({ http: getModule(secure), config }));
+	}
+
+	const proxyConfig: HTTP.RequestOptions = url.parse(proxy);
+	const proxyHeaders: { [name: string]: string } = {};
+	const auth = url.parse(proxy).auth;
+
+	if(auth) proxyHeaders['Proxy-Authorization'] = 'Basic ' + Buffer.from(decodeURIComponent(auth)).toString('base64');
+
+	if(!secure) {
+		// Plain HTTP proxies receive the whole address as the path.
+
+		proxyConfig.method = config.method;
+		proxyConfig.path = uri;
+		proxyConfig.headers = headers;
+		headers['Host'] = parsed.host || '';
+		for(let name of Object.keys(proxyHeaders)) headers[name] = proxyHeaders[name];
+
+		return(Promise.resolve({ http: getModule(proxyConfig.protocol == 'https:'), config: proxyConfig }));
+	}
+
+	return(new Promise((resolve: (result: { http: typeof HTTP, config: HTTP.RequestOptions }) => void, reject) => {
+		const tls: typeof TLS = eval("require('tls')");
+		const target = parsed.hostname + ':' + (parsed.port || '443');
+
+		proxyConfig.method = 'CONNECT';
+		proxyConfig.path = target;
+		proxyConfig.headers = proxyHeaders;
+		proxyHeaders['Host'] = target;
+
+		const req = getModule(proxyConfig.protocol == 'https:').request(proxyConfig);
+
+		track(req);
+
+		req.on('connect', (res: HTTP.IncomingMessage, socket: Net.Socket) => {
+			if(res.statusCode != 200) {
+				socket.destroy();
+				return(reject(createRequestError({
+					message: 'Proxy refused connection with status ' + res.statusCode + ': ' + uri,
+					url: uri,
+					code: 'network'
+				})));
 			}
+
+			(config as any).createConnection = () => tls.connect({ socket, servername: parsed.hostname });
+			resolve({ http: getModule(true), config });
 		});
 
 		req.on('error', reject);
 		req.end();
-	});
-
-	return(result);
+	}));
 }
 
-const existsCache: { [uri: string]: Promise<string> } = {};
+function getModule(secure: boolean): typeof HTTP {
+	return(secure ? eval("require('https')") : eval("require('http')"));
+}
 
-export function ifExists(uri: string) {
-	const result = existsCache[uri] || new Promise((
-		resolve: (result: string | Promise<string>) => void,
-		reject
-	) => {
+/** Make a single HTTP request in Node.js, following redirections.
+  * Like in browsers, 200 is the only successful status and HTML content
+  * in response to a HEAD request counts as missing. */
+
+function requestOnce(
+	uri: string,
+	head: boolean,
+	options: RequestOptions,
+	redirects: number
+): Promise<RequestResult> {
+	return(new Promise((resolve: (result: RequestResult | Promise<RequestResult>) => void, reject) => {
+		const url: typeof URL = eval("require('url')");
+		const zlib: typeof Zlib = eval("require('zlib')");
 		const proto = uri.substr(0, 7).toLowerCase();
+		const connectTimeout = options.connectTimeout === void 0 ? 10000 : options.connectTimeout;
+		const readTimeout = options.readTimeout === void 0 ? 30000 : options.readTimeout;
+		const reqList: HTTP.ClientRequest[] = [];
+		let done = false;
 
-		if(!isNode) {
-			const ss = typeof(window) == 'object' && window.sessionStorage;
-			const key = 'cresolve/ifExists/' + uri;
-			const item = ss && ss.getItem(key);
+		if(proto != 'http://' && proto != 'https:/') {
+			return(reject(createRequestError({ message: 'Unsupported protocol: ' + uri, url: uri, code: 'invalid' })));
+		}
 
-			if(item) {
-				if(item.match(/^[0-9]+$/)) reject({ status: +item });
-				else resolve(item);
+		const finish = (result?: RequestResult | Promise<RequestResult>, err?: RequestError) => {
+			if(done) return;
+			done = true;
 
-				return;
-			}
+			clearTimeout(timer);
+
+			if(err) {
+				for(let req of reqList) req.abort();
+				reject(err);
+			} else resolve(result!);
+		};
+
+		const fail = (message: string, code: RequestErrorCode, status?: number) => finish(
+			void 0,
+			createRequestError({ message: message + ': ' + uri, url: uri, status, code })
+		);
 
-			const xhr = new XMLHttpRequest();
+		const timer = setTimeout(() => fail('Connection timed out', 'timeout'), connectTimeout);
+
+		const track = (req: HTTP.ClientRequest) => {
+			reqList.push(req);
+			req.setTimeout(readTimeout, () => fail('Response timed out', 'timeout'));
+		};
+
+		prepareRequest(uri, head, options, track).then(({ http, config }) => {
+			if(done) return;
+
+			const req = http.request(config, (res: HTTP.IncomingMessage) => {
+				let status = res.statusCode || 0;
+				const next = res.headers.location;
 
-			xhr.onerror = reject;
-			xhr.onload = () => {
-				if(xhr.readyState != 4) return;
+				if(redirectCodes[status] && next) {
+					res.resume();
 
-				let status = xhr.status;
-				const contentType = xhr.getResponseHeader('Content-Type');
+					if(!redirects) return(fail('Too many redirects', 'invalid'));
 
-				if(contentType && contentType.match(/^text\/html/i)) {
+					return(finish(requestOnce(url.resolve(uri, next), head, options, redirects - 1)));
+				}
+
+				const contentType = res.headers['content-type'];
+
+				if(head && status == 200 && contentType && contentType.match(/^text\/html/i)) {
 					// Unexpected HTML content might be an index page,
 					// when index.js or package.json inside the directory
 					// should be loaded instead.
@@ -134,18 +279,204 @@ export function ifExists(uri: string) {
 					status = 404;
 				}
 
-				if(status != 200) {
-					if(ss) ss.setItem(key, '' + status);
-					reject(xhr);
-				} else {
-					uri = xhr.responseURL || uri;
-					if(ss) ss.setItem(key, uri);
-					resolve(uri);
+				if(status != 200 || head) {
+					res.resume();
+
+					if(status != 200) return(fail('HTTP status ' + status, 'status', status));
+					return(finish({ uri, text: '' }));
 				}
-			};
 
-			xhr.open('HEAD', uri, true);
-			xhr.send();
+				const encoding = ('' + (res.headers['content-encoding'] || '')).toLowerCase();
+				let stream: NodeJS.ReadableStream = res;
+
+				if(encoding == 'gzip' || encoding == 'x-gzip') stream = res.pipe(zlib.createGunzip());
+				else if(encoding == 'deflate') stream = res.pipe(zlib.createInflate());
+				else if(encoding == 'br') stream = res.pipe(zlib.createBrotliDecompress());
+
+				const chunkList: Buffer[] = [];
+
+				res.on('error', (err: Error) => fail(err.message, 'network'));
+				stream.on('error', (err: Error) => fail('Cannot decompress response', 'network'));
+				stream.on('data', (chunk: Buffer) => chunkList.push(chunk));
+				stream.on('end', () => {
+					const data = Buffer.concat(chunkList);
+
+					finish({ uri, text: data.toString('utf-8'), data });
+				});
+			});
+
+			track(req);
+
+			req.on('socket', (socket: Net.Socket) => {
+				if((socket as any).connecting) socket.once('connect', () => clearTimeout(timer));
+				else clearTimeout(timer);
+			});
+
+			req.on('error', (err: Error) => fail(err.message, 'network'));
+			req.end();
+		}).catch((err: any) => err && err.url ? finish(void 0, err) : fail(
+			'Cannot connect to proxy' + (err && err.message ? ' (' + err.message + ')' : ''),
+			'network'
+		));
+	}));
+}
+
+/** Make an HTTP request in Node.js, trying again after network errors,
+  * timeouts and server errors.
+  *
+  * @param options Settings overriding those from setRequestOptions.
+  * @return Promise resolving to the address after all redirections
+  *   and the contents (empty for HEAD requests), or rejecting
+  *   with a RequestError. */
+
+export function request(uri: string, head?: boolean, options: RequestOptions = requestOptions) {
+	const retries = options.retries === void 0 ? 2 : options.retries;
+	const retryDelay = options.retryDelay === void 0 ? 500 : options.retryDelay;
+	const maxRedirects = options.maxRedirects === void 0 ? 3 : options.maxRedirects;
+
+	const attempt = (num: number): Promise<RequestResult> => requestOnce(
+		uri,
+		!!head,
+		options,
+		maxRedirects
+	).catch((err: RequestError) => {
+		const retry = err.code == 'network' || err.code == 'timeout' || (err.status && err.status >= 500);
+
+		if(num >= retries || !retry) throw(err);
+
+		return(new Promise(
+			(resolve: () => void) => setTimeout(resolve, retryDelay * Math.pow(2, num))
+		).then(() => attempt(num + 1)));
+	});
+
+	return(attempt(0));
+}
+
+/** Get options from setRequestOptions with additional request headers. */
+
+function withHeaders(headers: { [name: string]: string } = {}) {
+	const options: RequestOptions = {};
+	const merged: { [name: string]: string } = {};
+
+	for(let key of Object.keys(requestOptions)) (options as any)[key] = (requestOptions as any)[key];
+	for(let name of Object.keys(requestOptions.headers || {})) merged[name] = requestOptions.headers![name];
+	for(let name of Object.keys(headers)) merged[name] = headers[name];
+
+	options.headers = merged;
+	return(options);
+}
+
+let diskCache: DiskCache | undefined;
+
+/** Store results of HTTP requests made in Node.js in a persistent cache,
+  * shared between processes.
+  *
+  * @param cache Cache to use, or undefined to stop using it. */
+
+export function setDiskCache(cache?: DiskCache) {
+	diskCache = cache;
+}
+
+/** Make an HTTP request through the disk cache, if set. */
+
+function cachedRequest(uri: string, head?: boolean) {
+	return(diskCache ? diskCache.request(uri, !!head, request) : request(uri, head));
+}
+
+/** Make an HTTP request using XMLHttpRequest, in browsers and Web Workers. */
+
+function xhrRequest(uri: string, head?: boolean, headers: { [name: string]: string } = {}) {
+	return(new Promise((resolve: (result: RequestResult) => void, reject) => {
+		const xhr = new XMLHttpRequest();
+
+		xhr.onerror = () => reject(createRequestError({ message: 'Request failed: ' + uri, url: uri, code: 'network' }));
+		xhr.onload = () => {
+			if(xhr.readyState != 4) return;
+
+			let status = xhr.status;
+			const contentType = xhr.getResponseHeader('Content-Type');
+
+			if(head && contentType && contentType.match(/^text\/html/i)) {
+				// Unexpected HTML content might be an index page,
+				// when index.js or package.json inside the directory
+				// should be loaded instead.
+
+				status = 404;
+			}
+
+			if(status != 200) {
+				reject(createRequestError({
+					message: (status ? 'HTTP status ' + status : 'Request failed') + ': ' + uri,
+					url: uri,
+					status,
+					code: status ? 'status' : 'network'
+				}));
+			} else {
+				resolve({ uri: xhr.responseURL || uri, text: head ? '' : '' + xhr.responseText });
+			}
+		};
+
+		xhr.open(head ? 'HEAD' : 'GET', uri, true);
+		for(let name of Object.keys(headers)) xhr.setRequestHeader(name, headers[name]);
+		xhr.send();
+	}));
+}
+
+let browserStorage: Promise<StorageBackend | undefined> | undefined;
+
+/** Store results of HTTP requests made in browsers and Web Workers
+  * in a persistent storage. Default is the first available storage
+  * from openBrowserStorage, opened on first use.
+  *
+  * @param storage Storage or promise resolving to it,
+  *   or undefined to stop using storage. */
+
+export function setBrowserStorage(storage?: StorageBackend | Promise<StorageBackend | undefined>) {
+	browserStorage = Promise.resolve(storage);
+}
+
+/** Make an HTTP request through browser storage, if available. */
+
+function storedRequest(uri: string, head?: boolean) {
+	if(!browserStorage) browserStorage = openBrowserStorage();
+
+	return(browserStorage.then((storage?: StorageBackend) => storage ?
+		requestWithStorage(storage, uri, !!head, xhrRequest) :
+		xhrRequest(uri, head)
+	));
+}
+
+/** Check if a request failed because the file is definitely missing,
+  * rather than a network or server problem worth trying again later. */
+
+function isMissing(err: any) {
+	return(!!err && (
+		(err.statusCode || err.status) == 404 ||
+		err.code == 'ENOENT' ||
+		err.code == 'ENOTDIR'
+	));
+}
+
+/** Remove a pending result from an in-memory cache if it fails
+  * for any other reason than a missing file. */
+
+function forgetFailure<Type>(cache: { [uri: string]: Promise<Type> }, uri: string, result: Promise<Type>) {
+	result.catch((err: any) => {
+		if(cache[uri] == result && !isMissing(err)) delete cache[uri];
+	});
+}
+
+const existsCache: { [uri: string]: Promise<string> } = {};
+
+export function ifExists(uri: string) {
+	const result = existsCache[uri] || new Promise((
+		resolve: (result: string | Promise<string>) => void,
+		reject
+	) => {
+		const proto = uri.substr(0, 7).toLowerCase();
+
+		if(!isNode) {
+			resolve(storedRequest(uri, true).then(({ uri }) => uri));
 		} else if(proto == 'file://') {
 			const fs: typeof FS = eval("require('fs')");
 
@@ -154,19 +485,31 @@ export function ifExists(uri: string) {
 				(err: NodeJS.ErrnoException, stat: FS.Stats) => err ? reject(err) : resolve(uri)
 			);
 		} else {
-			resolve(request(uri, true).then(() => uri));
+			resolve(cachedRequest(uri, true).then(({ uri }) => uri));
 		}
 	});
 
-	existsCache[uri] = result;
+	if(existsCache[uri] != result) {
+		existsCache[uri] = result;
+		forgetFailure(existsCache, uri, result);
+	}
 
 	return(result);
 }
 
 const fetchCache: { [uri: string]: Promise<FetchResponse> } = {};
 
+/** Fetch a file, optionally through in-memory, disk or browser caches.
+  *
+  * @param config Options like in the standard fetch. With cache set to
+  *   force-cache, results are also kept in memory and browser storage.
+  *   With cache set to no-store or any headers, the disk cache is not used,
+  *   because it cannot tell apart responses to different headers. */
+
 export function fetch(uri: string, config?: any) {
 	const useCache = config && config.cache == 'force-cache';
+	const headers: { [name: string]: string } | undefined = config && config.headers;
+	const noStore = !!headers || !!config && config.cache == 'no-store';
 
 	const result = (useCache && fetchCache[uri]) || new Promise((
 		resolve: (result: FetchResponse | Promise<FetchResponse>) => void,
@@ -175,53 +518,59 @@ export function fetch(uri: string, config?: any) {
 		const proto = uri.substr(0, 7).toLowerCase();
 
 		if(!isNode) {
-			const ss = typeof(window) == 'object' && window.sessionStorage;
-			const key = 'cresolve/fetch/' + uri;
-			const uriKey = 'cresolve/fetch-uri/' + uri;
-
-			if(useCache && ss) {
-				const data = ss.getItem(key);
-				const target = ss.getItem(uriKey);
-
-				if(data && target) return(resolve(fetchResponse(data, target)));
-			}
-
-			const xhr = new XMLHttpRequest();
+			const text = useCache ? storedRequest(uri) : xhrRequest(uri, false, headers);
 
-			xhr.onerror = reject;
-			xhr.onload = () => {
-				if(xhr.readyState != 4) return;
-
-				if(xhr.status != 200) {
-					reject(xhr);
-				} else {
-					uri = xhr.responseURL || uri;
-
-					if(useCache && ss) {
-						ss.setItem(key, '' + xhr.responseText);
-						ss.setItem(uriKey, '' + uri);
-					}
-
-					resolve(fetchResponse(xhr.responseText, uri));
-				}
-			};
-
-			xhr.open('GET', uri, true);
-			xhr.send();
+			resolve(text.then(({ uri, text }) => fetchResponse(text, uri)));
 		} else if(proto == 'file://') {
 			const fs: typeof FS = eval("require('fs')");
 
 			fs.readFile(
 				url2path(uri),
-				'utf-8',
-				(err: NodeJS.ErrnoException, data: string) => err ? reject(err) : resolve(fetchResponse(data, uri))
+				(err: NodeJS.ErrnoException, data: Buffer) => err ? reject(err) : resolve(fetchResponse(data.toString('utf-8'), uri, data))
 			);
 		} else {
-			resolve(request(uri).then(({ uri, text }) => fetchResponse(text, uri)));
+			const text = noStore ? request(uri, false, withHeaders(headers)) : cachedRequest(uri);
+
+			resolve(text.then(({ uri, text, data }) => fetchResponse(text, uri, data)));
 		}
 	});
 
-	if(useCache) fetchCache[uri] = result;
+	if(useCache && fetchCache[uri] != result) {
+		fetchCache[uri] = result;
+		forgetFailure(fetchCache, uri, result);
+	}
 
 	return(result);
 }
+
+/** Forget results of ifExists and fetch for a file or everything inside
+  * a directory, kept in memory and in the disk cache or browser storage.
+  *
+  * @param uri URL address of the file or directory. Other addresses
+  *   sharing a prefix, like those of a.js.map for a.js, are kept.
+  * @return Promise resolving after all results are removed. */
+
+export function invalidateRequests(uri: string) {
+	const dir = uri.replace(/\/*$/, '/');
+
+	for(let cache of [ existsCache, fetchCache ] as { [uri: string]: any }[]) {
+		for(let other of Object.keys(cache)) {
+			if(other == uri || other.substr(0, dir.length) == dir) delete cache[other];
+		}
+	}
+
+	let storage: Promise<StorageBackend | undefined>;
+
+	if(isNode) {
+		storage = Promise.resolve(diskCache);
+	} else {
+		// Results from earlier page loads may be stored before first use.
+		if(!browserStorage) browserStorage = openBrowserStorage();
+		storage = browserStorage;
+	}
+
+	return(storage.then((storage?: StorageBackend) => storage && Promise.all([
+		storage.remove(uri),
+		storage.clear(dir)
+	])).then(() => {}));
+}
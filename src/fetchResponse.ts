@@ -3,14 +3,31 @@
 
 export interface FetchResponse {
 	ok: boolean;
+	/** HTTP status code, if known. */
+	status?: number;
 	url: string;
 	text: () => Promise<string>;
+	/** Get raw contents, only in Node.js. */
+	buffer?: () => Promise<Buffer>;
 }
 
-export function fetchResponse(data: string, url: string) {
-	return({
+/** @param raw Raw contents, if available. */
+
+export function fetchResponse(data: string, url: string, raw?: Buffer) {
+	const res = {
 		ok: true,
 		url,
 		text: () => Promise.resolve(data)
-	} as FetchResponse);
+	} as FetchResponse;
+
+	if(raw) res.buffer = () => Promise.resolve(raw);
+
+	return(res);
+}
+
+/** Get raw contents of a response if available (binary files
+  * are corrupted by decoding them as text), otherwise the text. */
+
+export function readBody(res: FetchResponse): Promise<string | Buffer> {
+	return(res.buffer ? res.buffer() : res.text());
 }
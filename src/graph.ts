@@ -0,0 +1,243 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+/** Package owning a module in the graph. */
+
+export interface GraphPackage {
+	name: string;
+	version?: string;
+	/** Package root address (without slash at the end). */
+	root: string;
+	/** Name of fallback provider that served the package,
+	  * or 'local' if it was installed. */
+	source: string;
+	/** Contents of the browser field in package.json. */
+	browser?: any;
+}
+
+export interface GraphModule {
+	uri: string;
+	/** Name of owning package. */
+	package?: string;
+	version?: string;
+	/** Package root address. */
+	root?: string;
+	/** Name of fallback provider that served the module,
+	  * or 'local' if it was installed. */
+	source: string;
+}
+
+export interface GraphEdge {
+	/** URL address of importing module. */
+	from: string;
+	/** URL address of imported module. */
+	to: string;
+	/** Path in import statement. */
+	name: string;
+	/** True if a browser field in package.json changed the target. */
+	browser: boolean;
+	/** Names of package.json fields or other mechanisms used to remap the path. */
+	remaps: string[];
+}
+
+export interface ModuleGraph {
+	modules: GraphModule[];
+	edges: GraphEdge[];
+}
+
+/** Import resolved by a Resolver. */
+
+export interface ImportRecord {
+	name: string;
+	parentAddress?: string;
+	uri: string;
+	remaps: string[];
+}
+
+/** Latest record of each import resolved, by importing module and path. */
+
+export class ImportLog {
+
+	/** Record an import, replacing any earlier record of the same path
+	  * imported from the same module. */
+
+	add(record: ImportRecord) {
+		this.recordTbl[(record.parentAddress || '') + '\n' + record.name] = record;
+	}
+
+	/** Get all imports recorded. */
+
+	list() {
+		const recordTbl = this.recordTbl;
+
+		return(Object.keys(recordTbl).map((key: string) => recordTbl[key]));
+	}
+
+	/** Find modules inside a file or directory, along with all modules
+	  * importing them directly or indirectly, and forget imports from them.
+	  * They are recorded again when the modules run.
+	  *
+	  * @param base URL address of a file or directory.
+	  * @return Addresses of all modules found, and of those among them
+	  *   imported without a parent (like entry points). */
+
+	removeImporters(base: string) {
+		const importerTbl: { [uri: string]: string[] } = {};
+		const affectedTbl: { [uri: string]: boolean } = {};
+		const stack: string[] = [];
+
+		for(let { parentAddress, uri } of this.list()) {
+			(importerTbl[uri] || (importerTbl[uri] = [])).push(parentAddress || '');
+
+			if((uri == base || uri.substr(0, base.length + 1) == base + '/') && !affectedTbl[uri]) {
+				affectedTbl[uri] = true;
+				stack.push(uri);
+			}
+		}
+
+		while(stack.length) {
+			for(let parentAddress of importerTbl[stack.pop()!] || []) {
+				if(parentAddress && !affectedTbl[parentAddress]) {
+					affectedTbl[parentAddress] = true;
+					stack.push(parentAddress);
+				}
+			}
+		}
+
+		for(let key of Object.keys(this.recordTbl)) {
+			const parentAddress = this.recordTbl[key].parentAddress;
+			if(parentAddress && affectedTbl[parentAddress]) delete this.recordTbl[key];
+		}
+
+		const affectedList = Object.keys(affectedTbl);
+
+		return({
+			affectedList,
+			entryList: affectedList.filter((uri: string) => importerTbl[uri].indexOf('') >= 0)
+		});
+	}
+
+	/** Records keyed by importing address and path in the import statement. */
+	private recordTbl: { [key: string]: ImportRecord } = {};
+
+}
+
+/** Check if a browser field in package.json maps a key or path. */
+
+function hasBrowserKey(browser: any, key: string) {
+	return(!!browser && typeof(browser) == 'object' && browser.hasOwnProperty(key));
+}
+
+/** Check if a browser field in package.json maps something to a path. */
+
+function hasBrowserTarget(browser: any, path: string) {
+	if(!browser || typeof(browser) != 'object') return(false);
+
+	for(let key of Object.keys(browser)) {
+		const target = browser[key];
+
+		if(typeof(target) == 'string' && target.replace(/^\.\//, '').replace(/\.js$/, '') == path.replace(/\.js$/, '')) {
+			return(true);
+		}
+	}
+
+	return(false);
+}
+
+/** Build a graph of modules and imports between them.
+  *
+  * @param importList All imports resolved.
+  * @param getPackage Function returning the package owning a module. */
+
+export function buildGraph(
+	importList: ImportRecord[],
+	getPackage: (uri: string) => GraphPackage | undefined
+) {
+	const graph: ModuleGraph = { modules: [], edges: [] };
+	const moduleTbl: { [uri: string]: boolean } = {};
+
+	const addModule = (uri: string) => {
+		if(moduleTbl[uri]) return;
+		moduleTbl[uri] = true;
+
+		const pkg = getPackage(uri);
+
+		graph.modules.push(pkg ? {
+			uri,
+			package: pkg.name,
+			version: pkg.version,
+			root: pkg.root,
+			source: pkg.source
+		} : { uri, source: 'local' });
+	};
+
+	for(let { name, parentAddress, uri, remaps } of importList) {
+		addModule(uri);
+		if(!parentAddress) continue;
+
+		addModule(parentAddress);
+
+		const parent = getPackage(parentAddress);
+		const target = getPackage(uri);
+
+		const browser = remaps.indexOf('browser') >= 0 || (
+			parent && hasBrowserKey(parent.browser, name)
+		) || (
+			target && hasBrowserTarget(target.browser, uri.substr(target.root.length + 1))
+		) || false;
+
+		graph.edges.push({ from: parentAddress, to: uri, name, browser, remaps });
+	}
+
+	return(graph);
+}
+
+function quote(text: string) {
+	return('"' + text.replace(/(["\\])/g, '\\$1') + '"');
+}
+
+/** Serialize a module graph in Graphviz DOT format, grouping modules
+  * by package. Edges affected by browser fields are dashed. */
+
+export function graphToDot(graph: ModuleGraph) {
+	const lines = [ 'digraph modules {', '\tnode [shape=box];' ];
+	const clusterTbl: { [root: string]: GraphModule[] } = {};
+
+	for(let module of graph.modules) {
+		if(!module.root) {
+			lines.push('\t' + quote(module.uri) + ';');
+			continue;
+		}
+
+		if(!clusterTbl[module.root]) clusterTbl[module.root] = [];
+		clusterTbl[module.root].push(module);
+	}
+
+	let num = 0;
+
+	for(let root of Object.keys(clusterTbl)) {
+		const first = clusterTbl[root][0];
+
+		lines.push(
+			'\tsubgraph ' + quote('cluster_' + num++) + ' {',
+			'\t\tlabel=' + quote(first.package + (first.version ? '@' + first.version : '') + ' (' + first.source + ')') + ';'
+		);
+
+		for(let module of clusterTbl[root]) {
+			lines.push('\t\t' + quote(module.uri) + ' [label=' + quote(module.uri.substr(root.length + 1)) + '];');
+		}
+
+		lines.push('\t}');
+	}
+
+	for(let edge of graph.edges) {
+		lines.push(
+			'\t' + quote(edge.from) + ' -> ' + quote(edge.to) +
+			' [label=' + quote(edge.name) + (edge.browser ? ', style=dashed' : '') + '];'
+		);
+	}
+
+	lines.push('}');
+
+	return(lines.join('\n') + '\n');
+}
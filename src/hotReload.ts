@@ -0,0 +1,65 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+import { Resolver } from './Resolver';
+import { FileEvent } from './FileWatcher';
+
+/** Connection receiving messages, like EventSource or WebSocket. */
+
+export interface MessageSource {
+	onmessage: ((event: MessageEvent) => any) | null;
+	close(): void;
+}
+
+export interface ReloadOptions {
+	/** Function called after handling each change, with addresses
+	  * of all modules deleted from the loader registry. */
+	onReload?: (event: FileEvent, deleted: string[]) => void;
+
+	/** Function called if handling a change fails, for example when
+	  * importing again a module importing a removed file.
+	  * Default is console.error. */
+	onError?: (err: any, event: FileEvent) => void;
+}
+
+/** Connect to a server reporting changed files (like FileWatcher or
+  * the cresolve watch command) and for each change, make the resolver
+  * forget the file and reload modules importing it.
+  * Changes are handled one at a time, in order.
+  *
+  * @param resolver Resolver attached to a loader.
+  * @param source URL address of an EventSource endpoint or a WebSocket
+  *   (starting with ws: or wss:), or an open connection of either kind.
+  *   Messages contain a JSON-encoded FileEvent.
+  * @return The connection, for closing it later. */
+
+export function connectReload(resolver: Resolver, source: string | MessageSource, options: ReloadOptions = {}) {
+	const channel: MessageSource = typeof(source) != 'string' ? source : (
+		source.match(/^wss?:/i) ? new WebSocket(source) : new EventSource(source)
+	);
+
+	let ready = Promise.resolve();
+
+	channel.onmessage = (message: MessageEvent) => {
+		let event: FileEvent;
+
+		try {
+			event = JSON.parse(message.data);
+		} catch(err) {
+			return;
+		}
+
+		if(!event || typeof(event.url) != 'string') return;
+
+		ready = ready.then(
+			() => resolver.invalidate(event.url)
+		).then(
+			() => resolver.reload(event.url)
+		).then(
+			(deleted: string[]) => options.onReload && options.onReload(event, deleted),
+			(err: any) => options.onError ? options.onError(err, event) : console.error(err)
+		);
+	};
+
+	return(channel);
+}
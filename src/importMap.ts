@@ -0,0 +1,174 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+import { GeneratedConfig } from './Resolver';
+
+/** Import map for native browser ES modules or es-module-shims. */
+
+export interface ImportMap {
+	imports: { [specifier: string]: string };
+	scopes?: { [scope: string]: { [specifier: string]: string } };
+}
+
+/** Name and root address (without slash at the end) of a resolved package. */
+
+export interface PackageRoot {
+	name: string;
+	root: string;
+	/** Key of the package in SystemJS configuration, either its name
+	  * or root address for additional copies of the same package. */
+	key: string;
+}
+
+/** Bare specifier mapped inside a package scope to another package. */
+
+interface Alias {
+	table: { [specifier: string]: string };
+	key: string;
+	target: string;
+	packageName: string;
+}
+
+/** Append default .js extension to a path without one,
+  * like SystemJS does. */
+
+function addExtension(path: string) {
+	return(path.replace(/(\/[^./]+)$/, '$1.js'));
+}
+
+function resolveRelative(root: string, target: string) {
+	return(addExtension(root + '/' + target.replace(/^\.\//, '')));
+}
+
+/** Follow mappings inside a package from one path to another, since
+  * SystemJS applies package configuration again to mapped targets
+  * but import maps do not.
+  *
+  * @param target Path starting with ./ */
+
+function followMap(map: { [key: string]: string | false }, target: string) {
+	const visitedTbl: { [key: string]: boolean } = {};
+
+	while(!visitedTbl[target]) {
+		visitedTbl[target] = true;
+
+		const next = map[target] || map[addExtension(target)];
+		if(!next || next.substr(0, 2) != './') break;
+
+		target = next;
+	}
+
+	return(target);
+}
+
+/** Convert generated SystemJS configuration to an import map.
+  *
+  * @param config Configuration generated by a Resolver.
+  * @param packageList All packages found during resolution,
+  *   including nested copies under node_modules.
+  * @param warn Function called with a description of each configuration
+  *   entry that has no import map equivalent. */
+
+export function buildImportMap(
+	config: GeneratedConfig,
+	packageList: PackageRoot[],
+	warn: (message: string) => void
+) {
+	const imports: { [specifier: string]: string } = {};
+	const scopes: { [scope: string]: { [specifier: string]: string } } = {};
+	const aliasList: Alias[] = [];
+
+	for(let key of Object.keys(config.meta)) {
+		warn('Import maps cannot express meta configuration for ' + key + ': ' + JSON.stringify(config.meta[key]));
+	}
+
+	const mainTbl: { [root: string]: string } = {};
+
+	for(let { root, key: packageKey } of packageList) {
+		const main = (config.packages[packageKey] || {}).main;
+		if(main) mainTbl[root] = resolveRelative(root, main);
+	}
+
+	for(let { name, root, key: packageKey } of packageList) {
+		const subConfig = config.packages[packageKey] || {};
+		let table: { [specifier: string]: string } | undefined = imports;
+
+		if(config.map[name] != root) {
+			// Place other copies from nested node_modules in scopes.
+			// Copies elsewhere are mapped in scopes of importing packages.
+			const parts = root.match(/^(.*\/)node_modules\/(@[^/]+\/)?[^/]+$/i);
+
+			table = parts ? scopes[parts[1]] || (scopes[parts[1]] = {}) : void 0;
+		}
+
+		// Only packages with a parsed package.json have a main entry point.
+		const isPackage = !!subConfig.main;
+
+		if(table && isPackage) {
+			table[name] = resolveRelative(root, subConfig.main);
+			table[name + '/'] = root + '/';
+		}
+
+		const map: { [key: string]: string | false } = subConfig.map || {};
+
+		for(let key of Object.keys(map)) {
+			const target = map[key];
+
+			if(!target || target == '@empty') {
+				warn('Import maps cannot map ' + key + ' to an empty module in package ' + name);
+				continue;
+			}
+
+			if(key.substr(0, 2) == './') {
+				// Remapped file, directory or exported subpath inside the package.
+				if(target.substr(0, 2) != './') {
+					aliasList.push({ table: imports, key: root + key.substr(1), target, packageName: name });
+					continue;
+				}
+
+				const address = resolveRelative(root, followMap(map, target));
+
+				imports[root + key.substr(1)] = address;
+				if(table && isPackage) table[name + key.substr(1)] = address;
+			} else {
+				// Package or # import remapped only inside this package.
+				const scope = scopes[root + '/'] || (scopes[root + '/'] = {});
+
+				if(target.substr(0, 2) == './') {
+					scope[key] = resolveRelative(root, followMap(map, target));
+				} else if(mainTbl[target]) {
+					// Another copy of a package, by root address.
+					scope[key] = mainTbl[target];
+					scope[key + '/'] = target + '/';
+				} else {
+					aliasList.push({ table: scope, key, target, packageName: name });
+				}
+			}
+		}
+
+		if(subConfig.meta) {
+			warn('Import maps cannot express meta configuration in package ' + name + ': ' + JSON.stringify(subConfig.meta));
+		}
+	}
+
+	// Resolve mappings to other packages after all packages are known.
+
+	for(let { table, key, target, packageName } of aliasList) {
+		const parts = target.match(/^((@[^/]+\/)?[^/]+)(\/.*)?$/);
+
+		// Prefer a copy of the package scoped inside the same package.
+		const base = parts && (table[parts[1] + '/'] || imports[parts[1] + '/']);
+		const main = table[target] || imports[target];
+
+		if(!parts || !(parts[3] ? base : main)) {
+			warn('Import maps cannot map ' + key + ' to unresolved ' + target + ' in package ' + packageName);
+		} else {
+			table[key] = parts[3] ? addExtension(base + parts[3].substr(1)) : main;
+		}
+	}
+
+	const result: ImportMap = { imports };
+	if(Object.keys(scopes).length) result.scopes = scopes;
+
+	return(result);
+}
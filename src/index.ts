@@ -1,2 +1,24 @@
 export * from './Resolver';
+export * from './Loader';
+export * from './extensions';
+export * from './WorkerHost';
+export * from './WorkerClient';
+export * from './rpc';
+export * from './adapters';
 export * from './fetch';
+export * from './storage';
+export * from './DiskCache';
+export * from './Manifest';
+export * from './listing';
+export * from './FallbackProvider';
+export * from './assets';
+export * from './builtins';
+export * from './shims';
+export * from './importMap';
+export * from './snapshot';
+export * from './crawl';
+export * from './Trace';
+export * from './graph';
+export * from './FileWatcher';
+export * from './hotReload';
+export * from './DevServer';
@@ -0,0 +1,167 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+import * as FS from 'fs';
+import * as Path from 'path';
+import * as HTTP from 'http';
+import * as URL from 'url';
+
+import { ManifestData, ManifestTree, manifestName } from './Manifest';
+import { path2url } from './fetch';
+
+export interface ListingOptions {
+	/** Pattern matching paths (relative to the directory) to leave out.
+	  * Directories matching it are marked as not listed, so files inside
+	  * are still checked using the batch endpoint or HEAD requests.
+	  * Default leaves out .git directories. */
+	ignore?: RegExp;
+
+	/** Address of a batch endpoint to include in the manifest,
+	  * relative to the manifest. */
+	batch?: string;
+}
+
+export interface BatchHandlerOptions {
+	/** URL address the directory is served from, with a slash at the end.
+	  * Default is its file:// address. */
+	baseURL?: string;
+}
+
+/** List files in a directory recursively in Node.js, for serving
+  * as a manifest. Symbolic links are followed, but directories already
+  * listed through another path are marked as not listed.
+  *
+  * @param dir Native path of the directory.
+  * @return Promise resolving to manifest contents. */
+
+export function buildManifest(dir: string, options: ListingOptions = {}): Promise<ManifestData> {
+	const fs: typeof FS = eval("require('fs')");
+	const path: typeof Path = eval("require('path')");
+	const ignore = options.ignore || /(^|\/)\.git$/;
+	const visitedTbl: { [realPath: string]: boolean } = {};
+
+	const list = (nativePath: string, relative: string): Promise<ManifestTree | 0> => new Promise(
+		(resolve: (realPath?: string) => void) => fs.realpath(
+			nativePath,
+			(err: NodeJS.ErrnoException, realPath: string) => resolve(err ? void 0 : realPath)
+		)
+	).then((realPath?: string) => {
+		// Avoid listing the same directory twice or forever following cycles.
+		if(!realPath || visitedTbl[realPath]) return(0);
+		visitedTbl[realPath] = true;
+
+		return(new Promise((resolve: (nameList: string[]) => void, reject) => fs.readdir(
+			nativePath,
+			(err: NodeJS.ErrnoException, nameList: string[]) => err ? reject(err) : resolve(nameList)
+		)).then((nameList: string[]) => {
+			const tree: ManifestTree = {};
+
+			// Handle subdirectories one at a time, to avoid opening
+			// too many files.
+
+			return(nameList.sort().reduce((ready: Promise<void>, name: string) => ready.then(() => {
+				const childPath = path.join(nativePath, name);
+				const childRelative = relative + (relative ? '/' : '') + name;
+
+				return(new Promise((resolve: (stat?: FS.Stats) => void) => fs.stat(
+					childPath,
+					(err: NodeJS.ErrnoException, stat: FS.Stats) => resolve(err ? void 0 : stat)
+				)).then((stat?: FS.Stats) => {
+					// Skip broken links.
+					if(!stat) return;
+
+					if(!stat.isDirectory()) {
+						tree[name] = 1;
+					} else if(ignore.test(childRelative)) {
+						tree[name] = 0;
+					} else {
+						return(list(childPath, childRelative).then((child: ManifestTree | 0) => {
+							tree[name] = child;
+						}));
+					}
+				}));
+			}), Promise.resolve()).then(() => tree));
+		}));
+	});
+
+	return(list(path.resolve(dir), '').then((files: ManifestTree | 0) => {
+		const data: ManifestData = { cresolve: 1, files: files || {} };
+
+		if(options.batch) data.batch = options.batch;
+
+		return(data);
+	}));
+}
+
+/** Write a manifest listing files in a directory recursively.
+  *
+  * @param dir Native path of the directory.
+  * @param outFile Native path of the output file,
+  *   by default cresolve-manifest.json inside the directory.
+  * @return Promise resolving to manifest contents. */
+
+export function writeManifest(dir: string, outFile?: string, options: ListingOptions = {}) {
+	const fs: typeof FS = eval("require('fs')");
+	const path: typeof Path = eval("require('path')");
+
+	return(buildManifest(dir, options).then((data: ManifestData) => new Promise(
+		(resolve: (data: ManifestData) => void, reject) => fs.writeFile(
+			outFile || path.join(dir, manifestName),
+			JSON.stringify(data),
+			'utf-8',
+			(err: NodeJS.ErrnoException) => err ? reject(err) : resolve(data)
+		)
+	)));
+}
+
+/** Create a Node.js HTTP request handler serving as a manifest batch
+  * endpoint for files in a directory: it receives addresses in url query
+  * parameters and responds with a JSON object mapping each address inside
+  * the directory to itself if it is an existing file, otherwise null.
+  *
+  * @param dir Native path of the directory. */
+
+export function createBatchHandler(dir: string, options: BatchHandlerOptions = {}) {
+	const fs: typeof FS = eval("require('fs')");
+	const path: typeof Path = eval("require('path')");
+	const url: typeof URL = eval("require('url')");
+	const root = path.resolve(dir);
+	const baseURL = options.baseURL || path2url(root) + '/';
+
+	return((req: HTTP.IncomingMessage, res: HTTP.ServerResponse) => {
+		const param = url.parse(req.url || '', true).query.url || [];
+		const uriList = typeof(param) == 'string' ? [ param ] : param;
+		const resultTbl: { [uri: string]: string | null } = {};
+
+		Promise.all(uriList.map((uri: string) => {
+			if(uri.substr(0, baseURL.length) != baseURL) return;
+
+			let nativePath: string;
+
+			try {
+				nativePath = path.resolve(root, decodeURIComponent(uri.substr(baseURL.length).replace(/[?#].*$/, '')));
+			} catch(err) {
+				return;
+			}
+
+			// Never report files outside the directory.
+			if(nativePath != root && nativePath.substr(0, root.length + 1) != root + path.sep) {
+				resultTbl[uri] = null;
+				return;
+			}
+
+			return(new Promise((resolve: () => void) => fs.stat(nativePath, (err: NodeJS.ErrnoException, stat: FS.Stats) => {
+				resultTbl[uri] = !err && stat.isFile() ? uri : null;
+				resolve();
+			})));
+		})).then(() => {
+			res.writeHead(200, {
+				'Content-Type': 'application/json',
+				'Cache-Control': 'no-cache',
+				'Access-Control-Allow-Origin': '*'
+			});
+
+			res.end(JSON.stringify(resultTbl));
+		});
+	});
+}
@@ -0,0 +1,296 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+/** Package version pinned in a lockfile. */
+
+export interface LockedPackage {
+	name: string;
+	/** Exact version number. */
+	version: string;
+	/** Installation path relative to project root,
+	  * like node_modules/a/node_modules/b */
+	path: string;
+	/** Key identifying the package inside the lockfile, if different. */
+	id?: string;
+}
+
+/** Parsed lockfile contents. */
+
+export interface Lockfile {
+	/** Find the locked version of a dependency.
+	  *
+	  * @param name Name of package to find.
+	  * @param parent Locked package depending on it,
+	  *   undefined for dependencies of the project root.
+	  * @return Locked package or undefined if the lockfile does not list it. */
+	find(name: string, parent?: LockedPackage): LockedPackage | undefined;
+
+	/** Workspace folders relative to project root. */
+	workspaces: string[];
+}
+
+type IndentedTree = { [key: string]: IndentedTree | string };
+
+/** Supported lockfile names, in order of preference. */
+
+export const lockfileNames = [ 'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml' ];
+
+function unquote(text: string) {
+	return(text.replace(/^(["'])(.*)\1$/, '$2'));
+}
+
+/** Parse the indented key-value structure of yarn.lock and the subset
+  * of YAML found in Yarn 2+ and pnpm lockfiles. List items are ignored. */
+
+function parseIndented(data: string) {
+	const root: IndentedTree = {};
+	const stack: { indent: number, node: IndentedTree }[] = [ { indent: -1, node: root } ];
+
+	for(let line of data.split(/\r?\n/)) {
+		const content = line.trim();
+		if(!content || content.charAt(0) == '#' || content.substr(0, 2) == '- ') continue;
+
+		const indent = line.length - line.replace(/^ +/, '').length;
+		while(stack[stack.length - 1].indent >= indent) stack.pop();
+
+		let key: string;
+		let value: string;
+		const quote = content.charAt(0);
+
+		if(content.match(/:$/) && content.indexOf(': ') < 0) {
+			// Key of a nested block, maybe listing several descriptors.
+			key = unquote(content.substr(0, content.length - 1));
+			value = '';
+		} else if(quote == '"' || quote == "'") {
+			const end = content.indexOf(quote, 1);
+			key = content.substr(1, end - 1);
+			value = content.substr(end + 1).replace(/^:?\s*/, '');
+		} else {
+			const parts = content.match(/^(.*?)(:\s+|:$|\s+)(.*)$/);
+			if(!parts) continue;
+
+			key = parts[1];
+			value = parts[3];
+		}
+
+		const parent = stack[stack.length - 1].node;
+
+		if(value) {
+			parent[key] = unquote(value.trim());
+		} else {
+			const node: IndentedTree = {};
+			parent[key] = node;
+			stack.push({ indent, node });
+		}
+	}
+
+	return(root);
+}
+
+/** Split a name@version or name@range descriptor, keeping an initial @
+  * of scoped package names. */
+
+function splitDescriptor(descriptor: string) {
+	const pos = descriptor.indexOf('@', 1);
+	if(pos < 0) return(void 0);
+
+	return({ name: descriptor.substr(0, pos), range: descriptor.substr(pos + 1) });
+}
+
+function childPath(name: string, parent?: LockedPackage) {
+	return((parent && parent.path ? parent.path + '/' : '') + 'node_modules/' + name);
+}
+
+/** Parse package-lock.json (lockfile versions 1 to 3). */
+
+function parseNpmLock(data: string): Lockfile {
+	const json = JSON.parse(data);
+	const versionTbl: { [path: string]: string } = {};
+	const workspaces: string[] = [];
+
+	if(json.packages) {
+		for(let path of Object.keys(json.packages)) {
+			const entry = json.packages[path];
+			if(path && entry.version && !entry.link) versionTbl[path] = entry.version;
+
+			// Other paths outside node_modules are workspaces.
+			if(path && !path.match(/(^|\/)node_modules\//)) workspaces.push(path);
+		}
+	} else {
+		const addDependencies = (prefix: string, deps: { [name: string]: any }) => {
+			for(let name of Object.keys(deps || {})) {
+				const path = prefix + 'node_modules/' + name;
+				versionTbl[path] = deps[name].version;
+				addDependencies(path + '/', deps[name].dependencies);
+			}
+		};
+
+		addDependencies('', json.dependencies);
+	}
+
+	return({
+		find: (name: string, parent?: LockedPackage) => {
+			let base = parent ? parent.path : '';
+
+			// Look in nested node_modules directories like Node.js would.
+
+			while(true) {
+				const path = (base ? base + '/' : '') + 'node_modules/' + name;
+				const version = versionTbl[path];
+
+				if(version && parseDescriptorVersion(version)) return({ name, version, path });
+				if(!base) return(void 0);
+
+				base = base.replace(/\/?node_modules\/(@[^/]+\/)?[^/]+$/, '');
+			}
+		},
+
+		workspaces
+	});
+}
+
+/** Ignore non-semver versions like git URLs, tarballs and workspace links. */
+
+function parseDescriptorVersion(version: string) {
+	return(version.match(/^[0-9]+\.[0-9]+\.[0-9]+/) ? version : void 0);
+}
+
+/** Parse yarn.lock (both Yarn 1 and Yarn 2+ formats). */
+
+function parseYarnLock(data: string, rootJson: any): Lockfile {
+	const tree = parseIndented(data);
+	const rangeTbl: { [descriptor: string]: IndentedTree } = {};
+	const versionTbl: { [descriptor: string]: IndentedTree } = {};
+	const workspaces: string[] = [];
+
+	for(let key of Object.keys(tree)) {
+		const entry = tree[key];
+		if(typeof(entry) != 'object' || typeof(entry.version) != 'string') continue;
+
+		for(let descriptor of key.split(/\s*,\s*/)) {
+			const parts = splitDescriptor(descriptor.replace(/["']/g, ''));
+			if(!parts) continue;
+
+			const range = parts.range.replace(/^npm:/, '');
+
+			// Yarn 2+ lists workspaces like name@workspace:path/to/folder
+			const folder = range.match(/^workspace:(.+)$/);
+			if(folder && folder[1] != '.' && workspaces.indexOf(folder[1]) < 0) workspaces.push(folder[1]);
+
+			rangeTbl[parts.name + '@' + range] = entry;
+			versionTbl[parts.name + '@' + entry.version] = entry;
+		}
+	}
+
+	const rootDeps: { [name: string]: string } = {};
+
+	for(let field of [ 'dependencies', 'devDependencies', 'optionalDependencies' ]) {
+		const deps = rootJson && rootJson[field] || {};
+		for(let name of Object.keys(deps)) rootDeps[name] = deps[name];
+	}
+
+	return({
+		find: (name: string, parent?: LockedPackage) => {
+			const parentEntry = parent && versionTbl[parent.name + '@' + parent.version];
+			const deps = parentEntry ? parentEntry.dependencies : rootDeps;
+			const range = deps && typeof(deps) == 'object' && deps[name];
+
+			if(typeof(range) != 'string') return(void 0);
+
+			const entry = rangeTbl[name + '@' + range.replace(/^npm:/, '')];
+			const version = entry && parseDescriptorVersion(entry.version as string);
+
+			return(version ? { name, version, path: childPath(name, parent) } : void 0);
+		},
+
+		workspaces
+	});
+}
+
+/** Parse pnpm-lock.yaml (lockfile versions 5 to 9). */
+
+function parsePnpmLock(data: string): Lockfile {
+	const tree = parseIndented(data);
+	const importers = (tree.importers || { '.': tree }) as IndentedTree;
+	const depsTbl: { [id: string]: IndentedTree } = {};
+	const importerTbl: { [path: string]: IndentedTree } = {};
+
+	// Importers are the project root and workspace folders.
+
+	for(let path of Object.keys(importers)) {
+		const project = importers[path] as IndentedTree;
+		const importerDeps: IndentedTree = {};
+
+		for(let field of [ 'dependencies', 'devDependencies', 'optionalDependencies' ]) {
+			const deps = project[field] as IndentedTree | undefined;
+			for(let name of Object.keys(deps || {})) importerDeps[name] = deps![name];
+		}
+
+		importerTbl[path] = importerDeps;
+	}
+
+	for(let section of [ 'packages', 'snapshots' ]) {
+		const packages = (tree[section] || {}) as IndentedTree;
+
+		for(let key of Object.keys(packages)) {
+			// Keys look like /name/1.0.0 (v5), /name@1.0.0 (v6) or name@1.0.0 (v9).
+			const parts = key.replace(/^\//, '').match(/^((@[^/]+\/)?[^/@]+)[/@](.+)$/);
+			const entry = packages[key];
+
+			if(parts && typeof(entry) == 'object' && entry.dependencies) {
+				depsTbl[parts[1] + '@' + parts[3]] = entry.dependencies as IndentedTree;
+			}
+		}
+	}
+
+	return({
+		find: (name: string, parent?: LockedPackage) => {
+			let deps: IndentedTree | undefined = importerTbl['.'];
+
+			if(parent && importerTbl[parent.path]) {
+				deps = importerTbl[parent.path];
+			} else if(parent) {
+				deps = depsTbl[parent.id || parent.name + '@' + parent.version];
+
+				if(!deps) {
+					// Match the package version ignoring peer dependency suffixes.
+					const prefix = parent.name + '@' + parent.version;
+
+					for(let id of Object.keys(depsTbl)) {
+						if(id.substr(0, prefix.length) == prefix && !id.charAt(prefix.length).match(/[0-9.]/)) {
+							deps = depsTbl[id];
+						}
+					}
+				}
+			}
+
+			let ref = deps && deps[name];
+			if(ref && typeof(ref) == 'object') ref = ref.version;
+			if(typeof(ref) != 'string') return(void 0);
+
+			const id = name + '@' + ref;
+
+			// Remove peer dependency suffixes like _react@18.0.0 or (react@18.0.0).
+			const version = parseDescriptorVersion(ref.replace(/[_(].*$/, ''));
+
+			return(version ? { name, version, path: childPath(name, parent), id } : void 0);
+		},
+
+		workspaces: Object.keys(importers).filter((path: string) => path != '.')
+	});
+}
+
+/** Parse a supported lockfile.
+  *
+  * @param fileName Lockfile name without path, one of lockfileNames.
+  * @param data Lockfile contents.
+  * @param rootJson Contents of package.json in the same directory. */
+
+export function parseLockfile(fileName: string, data: string, rootJson?: any) {
+	switch(fileName) {
+		case 'package-lock.json': return(parseNpmLock(data));
+		case 'yarn.lock': return(parseYarnLock(data, rootJson));
+		case 'pnpm-lock.yaml': return(parsePnpmLock(data));
+		default: throw(new Error('Unsupported lockfile: ' + fileName));
+	}
+}
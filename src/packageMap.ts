@@ -0,0 +1,200 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+/** Contents of an exports or imports field in package.json. */
+
+export type ExportsField = string | null | ExportsField[] | { [key: string]: ExportsField };
+
+/** Conditions matched by default in exports fields,
+  * in addition to 'default' which always matches. */
+
+export const defaultConditions = [ 'browser', 'import', 'require' ];
+
+/** Check if an exports field object maps subpaths instead of conditions
+  * (all its keys start with a dot). */
+
+function isSubpathMap(field: ExportsField): field is { [key: string]: ExportsField } {
+	if(!field || typeof(field) != 'object' || field instanceof Array) return(false);
+
+	const keys = Object.keys(field);
+	return(keys.length > 0 && keys[0].charAt(0) == '.');
+}
+
+/** Resolve a target in an exports or imports field, picking the first
+  * matching condition in each nested object.
+  *
+  * @param target Target from package.json.
+  * @param match String matched by a * wildcard in the subpath pattern.
+  * @param conditions Names of conditions to accept.
+  * @param allowBare Accept bare package names as targets (in imports).
+  * @return Path relative to package root (starting with ./) or a bare
+  *   package name, null if the path is blocked or undefined if no
+  *   condition matched. */
+
+function resolveTarget(
+	target: ExportsField,
+	match: string | undefined,
+	conditions: string[],
+	allowBare: boolean
+): string | null | undefined {
+	if(typeof(target) == 'string') {
+		const isBare = !target.match(/^([./]|[a-z]+:)/i);
+
+		if(target.substr(0, 2) != './' && !(allowBare && isBare)) {
+			throw(new Error('Invalid target in package.json exports or imports: ' + target));
+		}
+
+		return(match === void 0 ? target : target.replace(/\*/g, match));
+	}
+
+	if(target instanceof Array) {
+		for(let item of target) {
+			let result: string | null | undefined;
+
+			try {
+				result = resolveTarget(item, match, conditions, allowBare);
+			} catch(err) {
+				continue;
+			}
+
+			if(result !== void 0) return(result);
+		}
+
+		return(void 0);
+	}
+
+	if(target && typeof(target) == 'object') {
+		for(let key of Object.keys(target)) {
+			if(key == 'default' || conditions.indexOf(key) >= 0) {
+				const result = resolveTarget(target[key], match, conditions, allowBare);
+				if(result !== void 0) return(result);
+			}
+		}
+
+		return(void 0);
+	}
+
+	return(null);
+}
+
+/** Find the target for a key in an exports or imports subpath map,
+  * trying an exact match first and then the most specific * pattern.
+  *
+  * @return Target as in resolveTarget. */
+
+function resolveSubpath(
+	map: { [key: string]: ExportsField },
+	key: string,
+	conditions: string[],
+	allowBare: boolean
+) {
+	if(map.hasOwnProperty(key) && key.indexOf('*') < 0) {
+		return(resolveTarget(map[key], void 0, conditions, allowBare));
+	}
+
+	let bestKey: string | undefined;
+	let bestLength = -1;
+	let bestMatch = '';
+
+	for(let pattern of Object.keys(map)) {
+		const star = pattern.indexOf('*');
+		let prefix: string;
+		let suffix = '';
+
+		if(star >= 0) {
+			prefix = pattern.substr(0, star);
+			suffix = pattern.substr(star + 1);
+		} else if(pattern.charAt(pattern.length - 1) == '/') {
+			// Deprecated folder mapping, works like a pattern ending in *.
+			prefix = pattern;
+		} else continue;
+
+		if(
+			key.length >= prefix.length + suffix.length &&
+			key.substr(0, prefix.length) == prefix &&
+			key.substr(key.length - suffix.length) == suffix &&
+			prefix.length > bestLength
+		) {
+			bestKey = pattern;
+			bestLength = prefix.length;
+			bestMatch = key.substr(prefix.length, key.length - prefix.length - suffix.length);
+		}
+	}
+
+	if(!bestKey) return(void 0);
+
+	const target = map[bestKey];
+
+	if(bestKey.indexOf('*') < 0) {
+		// Append the rest of the path to a folder mapping.
+		const result = resolveTarget(target, void 0, conditions, allowBare);
+		return(result && result + bestMatch);
+	}
+
+	return(resolveTarget(target, bestMatch, conditions, allowBare));
+}
+
+/** Resolve a path inside a package using its package.json exports field.
+  *
+  * @param exports Contents of the exports field.
+  * @param subpath Path starting with '.', for example './feature'.
+  * @param conditions Names of conditions to accept.
+  * @return Path relative to package root (starting with ./),
+  *   null if the path is blocked or undefined if it is not exported. */
+
+export function resolveExports(
+	exports: ExportsField,
+	subpath: string,
+	conditions: string[]
+) {
+	if(!isSubpathMap(exports)) {
+		// Shorthand for a package exporting only its main entry point.
+		if(subpath != '.') return(void 0);
+
+		return(resolveTarget(exports, void 0, conditions, false));
+	}
+
+	return(resolveSubpath(exports, subpath, conditions, false));
+}
+
+/** Resolve all exact subpaths (without patterns or trailing slashes)
+  * in a package.json exports field.
+  *
+  * @param exports Contents of the exports field.
+  * @param conditions Names of conditions to accept.
+  * @return Paths relative to package root (starting with ./)
+  *   by subpath, omitting blocked subpaths. */
+
+export function getExactExports(exports: ExportsField, conditions: string[]) {
+	const result: { [subpath: string]: string } = {};
+
+	if(exports && typeof(exports) == 'object' && !(exports instanceof Array)) {
+		for(let key of Object.keys(exports)) {
+			if(key.substr(0, 2) != './' || key.match(/[*]|\/$/)) continue;
+
+			const target = resolveExports(exports, key, conditions);
+			if(target) result[key] = target;
+		}
+	}
+
+	return(result);
+}
+
+/** Resolve a specifier starting with # using a package.json imports field.
+  *
+  * @param imports Contents of the imports field.
+  * @param specifier Specifier in an import statement, like '#internal/util'.
+  * @param conditions Names of conditions to accept.
+  * @return Path relative to package root (starting with ./) or a bare
+  *   package name, null if the specifier is blocked or undefined if it
+  *   is not mapped. */
+
+export function resolveImports(
+	imports: ExportsField,
+	specifier: string,
+	conditions: string[]
+) {
+	if(!imports || typeof(imports) != 'object' || imports instanceof Array) return(void 0);
+
+	return(resolveSubpath(imports, specifier, conditions, true));
+}
@@ -0,0 +1,13 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+// Register the Node.js ESM loader hooks in esmLoader.ts, for use with:
+// node --import cresolve/dist/register.js app.js
+
+import * as Path from 'path';
+
+const path: typeof Path = eval("require('path')");
+
+eval("require('module')").register(
+	eval("require('url')").pathToFileURL(path.resolve(__dirname, 'esmLoader.js')).href
+);
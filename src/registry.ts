@@ -0,0 +1,55 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+import { FetchResponse } from './fetchResponse';
+import { maxSatisfying } from './semver';
+
+export const defaultRegistry = 'https://registry.npmjs.org/';
+
+/** Find the highest version of a package matching a dependency range
+  * or dist-tag, using package metadata from an npm registry.
+  *
+  * @param name Name of npm package.
+  * @param range Version range or dist-tag like latest.
+  * @param fetch Function for fetching the metadata.
+  * @param registry Registry URL (with a slash at the end).
+  * @return Promise for the version number, rejecting if the registry
+  *   cannot be reached or no version matches. */
+
+export function fetchVersion(
+	name: string,
+	range: string,
+	fetch: (uri: string, config?: any) => Promise<FetchResponse>,
+	registry = defaultRegistry
+) {
+	// Abbreviated metadata is smaller and lists all versions and tags.
+	// Never cached, since new versions get published.
+
+	const result = fetch(
+		registry + name.replace(/\//g, '%2F'),
+		{ cache: 'no-store', headers: { 'Accept': 'application/vnd.npm.install-v1+json' } }
+	).then((res: FetchResponse) => {
+		if(!res.ok) throw(new Error('HTTP status ' + res.status));
+		return(res.text());
+	}).catch((err: any) => {
+		throw(new Error('Cannot fetch package metadata: ' + name + (err && err.message ? ' (' + err.message + ')' : '')));
+	}).then((data: string) => {
+		const meta = JSON.parse(data);
+		const tags = meta['dist-tags'] || {};
+		let version: string | undefined = tags[range];
+
+		if(!version) {
+			try {
+				version = maxSatisfying(Object.keys(meta.versions || {}), range);
+			} catch(err) {}
+		}
+
+		if(!version) {
+			throw(new Error('No version of package ' + name + ' matches range: ' + range));
+		}
+
+		return(version);
+	});
+
+	return(result);
+}
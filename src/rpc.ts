@@ -0,0 +1,124 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+/** Method to call in resolver internal RPC between Web Workers and UI thread. */
+
+export const enum METHOD {
+	/** Request from / response to worker:
+	  * check file existence using UI thread cache. */
+	ifExists,
+
+	/** Request from / response to worker:
+	  * fetch file using UI thread cache. */
+	fetch,
+
+	/** Web Worker initialization success / failure signal. */
+	loaded,
+
+	/** Configuration change from a worker, for the UI thread to apply
+	  * and send to all other workers. */
+	config,
+
+	/** Request from UI thread: forget a file or directory, see invalidate. */
+	invalidate,
+
+	/** Request from worker: stop handling a request after a timeout
+	  * or cancellation. */
+	cancel
+}
+
+/** Reason for a request failure: HTTP status, network or other error,
+  * timeout, cancellation or a request that cannot succeed however
+  * many times it is tried (unsupported protocol, too many redirects). */
+
+export type RequestErrorCode = 'status' | 'network' | 'timeout' | 'cancelled' | 'invalid';
+
+/** Description of a failed request, for passing between threads. */
+
+export interface RemoteError {
+	message: string;
+	/** URL address requested. */
+	url: string;
+	/** HTTP status code, if the server responded. */
+	status?: number;
+	code: RequestErrorCode;
+	/** Result was stored earlier and no request was made. */
+	cached?: boolean;
+}
+
+/** Error rejecting a request forwarded from a Web Worker to the UI thread. */
+
+export interface RequestError extends Error {
+	url: string;
+	status?: number;
+	/** Same as status, like in errors from the Node.js HTTP client. */
+	statusCode?: number;
+	code: RequestErrorCode;
+	/** Result was stored earlier and no request was made. */
+	cached?: boolean;
+}
+
+/** Resolver internal RPC message between Web Workers and UI thread. */
+
+export interface ResolverMessage {
+	method: METHOD;
+	/** Request number, repeated in the response. */
+	id?: number;
+	uri: string;
+	success?: boolean;
+	target?: string;
+	body?: string;
+	config?: any;
+	/** Reason for failure, if success is false. */
+	error?: RemoteError;
+}
+
+export interface WorkerPortOptions {
+	/** Time in milliseconds before requests forwarded to the UI thread
+	  * fail, or 0 to wait forever. Default is 30000. */
+	timeout?: number;
+}
+
+/** Create an Error object from a failure description. */
+
+export function createRequestError(info: RemoteError) {
+	const err = new Error(info.message) as RequestError;
+
+	err.url = info.url;
+	err.code = info.code;
+
+	if(info.status) {
+		err.status = info.status;
+		err.statusCode = info.status;
+	}
+
+	if(info.cached) err.cached = true;
+
+	return(err);
+}
+
+/** Describe any rejection from ifExists or fetch, for passing between threads.
+  *
+  * @param err Rejection reason: an Error, XMLHttpRequest, HTTP response
+  *   or object with a status or statusCode field.
+  * @param url URL address requested. */
+
+export function describeError(err: any, url: string): RemoteError {
+	const status: number | undefined = (err && (err.statusCode || err.status)) || void 0;
+	const code: RequestErrorCode = err && (
+		err.code == 'timeout' || err.code == 'cancelled' || err.code == 'network' || err.code == 'invalid'
+	) ? err.code : status ? 'status' : 'network';
+
+	const info: RemoteError = {
+		message: (err && typeof(err.message) == 'string' && err.message) || (
+			(status ? 'HTTP status ' + status : 'Request failed') + ': ' + url
+		),
+		url,
+		status,
+		code
+	};
+
+	if(err && err.cached) info.cached = true;
+
+	return(info);
+}
@@ -0,0 +1,248 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+/** Parsed semantic version number. */
+
+export interface Version {
+	major: number;
+	minor: number;
+	patch: number;
+	/** Dot-separated prerelease identifiers (empty for releases). */
+	prerelease: (string | number)[];
+}
+
+/** Single comparison against a version, for example >=1.2.3. */
+
+interface Comparator {
+	operator: '<' | '<=' | '>' | '>=' | '=';
+	version: Version;
+}
+
+/** Range as a list of alternative comparator sets.
+  * A version must satisfy all comparators in at least one set. */
+
+export type Range = Comparator[][];
+
+const versionRe = /^v?(0|[1-9][0-9]*)\.(0|[1-9][0-9]*)\.(0|[1-9][0-9]*)(-([-.0-9A-Za-z]+))?(\+[-.0-9A-Za-z]+)?$/;
+const partialRe = /^v?([0-9]+|[xX*])?(\.([0-9]+|[xX*]))?(\.([0-9]+|[xX*]))?(-([-.0-9A-Za-z]+))?(\+[-.0-9A-Za-z]+)?$/;
+
+function parsePrerelease(tag?: string) {
+	if(!tag) return([]);
+
+	return(tag.split('.').map(
+		(part: string) => part.match(/^[0-9]+$/) ? +part : part
+	));
+}
+
+/** Parse a full version number like 1.2.3-beta.4.
+  *
+  * @return Parsed version or undefined if the string is invalid. */
+
+export function parseVersion(text: string): Version | undefined {
+	const parts = text.trim().match(versionRe);
+
+	if(!parts) return(void 0);
+
+	return({
+		major: +parts[1],
+		minor: +parts[2],
+		patch: +parts[3],
+		prerelease: parsePrerelease(parts[5])
+	});
+}
+
+/** Compare two versions according to semver precedence rules.
+  *
+  * @return Negative if a < b, positive if a > b, 0 if equal. */
+
+export function compareVersions(a: Version, b: Version) {
+	const diff = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+	if(diff) return(diff);
+
+	const preA = a.prerelease;
+	const preB = b.prerelease;
+
+	// A release has higher precedence than any of its prereleases.
+	if(!preA.length || !preB.length) return(preB.length - preA.length);
+
+	for(let num = 0; num < preA.length && num < preB.length; ++num) {
+		const partA = preA[num];
+		const partB = preB[num];
+
+		if(partA === partB) continue;
+
+		// Numeric identifiers have lower precedence than alphanumeric ones.
+		if(typeof(partA) == 'number' && typeof(partB) == 'number') return(partA - partB);
+		if(typeof(partA) == 'number') return(-1);
+		if(typeof(partB) == 'number') return(1);
+
+		return(partA < partB ? -1 : 1);
+	}
+
+	return(preA.length - preB.length);
+}
+
+function createVersion(major: number, minor = 0, patch = 0, prerelease: (string | number)[] = []) {
+	return({ major, minor, patch, prerelease } as Version);
+}
+
+/** Convert a single comparator like ^1.2 or >=1.x to comparators
+  * with full versions, appending them to a list. */
+
+function parseComparator(text: string, result: Comparator[]) {
+	const parts = text.match(/^(<=|>=|<|>|=|~>?|\^)?(.*)$/)!;
+	const operator = parts[1] || '=';
+	const partial = parts[2].match(partialRe);
+
+	if(!partial) throw(new Error('Invalid version range: ' + text));
+
+	const isWild = (part?: string) => !part || !!part.match(/^[xX*]$/);
+
+	const prerelease = parsePrerelease(partial[7]);
+	const major = isWild(partial[1]) ? -1 : +partial[1];
+	const minor = major < 0 || isWild(partial[3]) ? -1 : +partial[3];
+	const patch = minor < 0 || isWild(partial[5]) ? -1 : +partial[5];
+
+	// Lowest and lowest excluded versions matching the partial version.
+	const low = createVersion(Math.max(major, 0), Math.max(minor, 0), Math.max(patch, 0), prerelease);
+	let high: Version | undefined;
+
+	if(major < 0) {
+		if(operator == '<' || operator == '>') {
+			// Nothing is smaller or larger than any version.
+			result.push({ operator: '<', version: createVersion(0, 0, 0, [ 0 ]) });
+		} else {
+			result.push({ operator: '>=', version: createVersion(0) });
+		}
+
+		return;
+	}
+
+	if(minor < 0) high = createVersion(major + 1);
+	else if(patch < 0) high = createVersion(major, minor + 1);
+
+	switch(operator) {
+		case '~':
+		case '~>':
+			result.push({ operator: '>=', version: low });
+			result.push({ operator: '<', version: high || createVersion(major, minor + 1) });
+			break;
+
+		case '^':
+			result.push({ operator: '>=', version: low });
+
+			if(major > 0 || minor < 0) high = createVersion(major + 1);
+			else if(minor > 0 || patch < 0) high = createVersion(0, minor + 1);
+			else high = createVersion(0, 0, patch + 1);
+
+			result.push({ operator: '<', version: high });
+			break;
+
+		case '=':
+			if(high) {
+				result.push({ operator: '>=', version: low });
+				result.push({ operator: '<', version: high });
+			} else result.push({ operator: '=', version: low });
+			break;
+
+		case '>':
+			result.push(high ? { operator: '>=', version: high } : { operator: '>', version: low });
+			break;
+
+		case '<=':
+			result.push(high ? { operator: '<', version: high } : { operator: '<=', version: low });
+			break;
+
+		default:
+			// Handle >= and < where partial versions mean the lowest match.
+			result.push({ operator: operator as '>=' | '<', version: low });
+	}
+}
+
+/** Parse a semver range like ">=1.2 <2 || ^3.0.0-beta". */
+
+export function parseRange(text: string): Range {
+	return(text.trim().split(/\s*\|\|\s*/).map((part: string) => {
+		const result: Comparator[] = [];
+		const hyphen = part.match(/^(\S+)\s+-\s+(\S+)$/);
+
+		if(hyphen) {
+			parseComparator('>=' + hyphen[1], result);
+			parseComparator('<=' + hyphen[2], result);
+		} else {
+			// Remove whitespace between operators and versions.
+			part = part.replace(/(<=|>=|<|>|=|~>?|\^)\s+/g, '$1');
+
+			for(let item of part.split(/\s+/)) {
+				parseComparator(item, result);
+			}
+		}
+
+		return(result);
+	}));
+}
+
+function testComparator(version: Version, comparator: Comparator) {
+	const diff = compareVersions(version, comparator.version);
+
+	switch(comparator.operator) {
+		case '<': return(diff < 0);
+		case '<=': return(diff <= 0);
+		case '>': return(diff > 0);
+		case '>=': return(diff >= 0);
+		default: return(diff == 0);
+	}
+}
+
+/** Check if a version satisfies a range. Prereleases only satisfy ranges
+  * explicitly mentioning a prerelease of the same major.minor.patch. */
+
+export function satisfies(version: Version, range: Range) {
+	for(let comparatorList of range) {
+		let ok = true;
+
+		for(let comparator of comparatorList) {
+			if(!testComparator(version, comparator)) ok = false;
+		}
+
+		if(ok && version.prerelease.length) {
+			ok = false;
+
+			for(let { version: other } of comparatorList) {
+				if(
+					other.prerelease.length &&
+					other.major == version.major &&
+					other.minor == version.minor &&
+					other.patch == version.patch
+				) ok = true;
+			}
+		}
+
+		if(ok) return(true);
+	}
+
+	return(false);
+}
+
+/** Find the highest version in a list satisfying a range.
+  *
+  * @param versionList Version numbers as strings.
+  * @param range Range to satisfy.
+  * @return Highest matching version as a string or undefined if none match. */
+
+export function maxSatisfying(versionList: string[], range: string) {
+	const parsed = parseRange(range);
+	let best: Version | undefined;
+	let result: string | undefined;
+
+	for(let text of versionList) {
+		const version = parseVersion(text);
+
+		if(version && satisfies(version, parsed) && (!best || compareVersions(version, best) > 0)) {
+			best = version;
+			result = text;
+		}
+	}
+
+	return(result);
+}
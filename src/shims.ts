@@ -0,0 +1,57 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+/** Replacement for the Node.js process object in browsers. */
+
+export interface ProcessShim {
+	title: string;
+	browser: boolean;
+	/** Environment variables, always including NODE_ENV. */
+	env: { [name: string]: string };
+	argv: string[];
+	version: string;
+	versions: { [name: string]: string };
+	platform: string;
+	/** Call a function asynchronously, before any timers. */
+	nextTick(callback: (...args: any[]) => void, ...args: any[]): void;
+	cwd(): string;
+	[key: string]: any;
+}
+
+function noop() {}
+
+/** Create a replacement for the Node.js process object.
+  *
+  * @param nodeEnv Value of process.env.NODE_ENV,
+  *   production or development.
+  * @param env Other environment variables. */
+
+export function createProcessShim(nodeEnv: string, env: { [name: string]: string } = {}): ProcessShim {
+	const shimEnv: { [name: string]: string } = { 'NODE_ENV': nodeEnv };
+
+	for(let name of Object.keys(env)) shimEnv[name] = env[name];
+
+	return({
+		title: 'browser',
+		browser: true,
+		env: shimEnv,
+		argv: [],
+		version: '',
+		versions: {},
+		platform: 'browser',
+		nextTick: (callback: (...args: any[]) => void, ...args: any[]) => {
+			Promise.resolve().then(() => callback.apply(null, args));
+		},
+		cwd: () => '/',
+		chdir: () => { throw(new Error('process.chdir is not supported')); },
+		umask: () => 0,
+		on: noop,
+		once: noop,
+		off: noop,
+		addListener: noop,
+		removeListener: noop,
+		removeAllListeners: noop,
+		emit: noop,
+		listeners: () => []
+	});
+}
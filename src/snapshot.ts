@@ -0,0 +1,179 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+import * as FS from 'fs';
+import * as Path from 'path';
+
+import { Resolver, GeneratedConfig, getLoaderConfig } from './Resolver';
+import { getDefaultExtension } from './extensions';
+import { FetchResponse, readBody } from './fetchResponse';
+import { fetch } from './fetch';
+
+/** Package copied to a snapshot. */
+
+export interface SnapshotPackage {
+	name: string;
+	version?: string;
+	/** Name of fallback provider that served the package,
+	  * or 'local' if it was installed. */
+	source: string;
+	/** Original package root address. */
+	root: string;
+	/** Path of the copy relative to the vendor directory. */
+	path: string;
+}
+
+/** Contents of manifest.json written to a snapshot. */
+
+export interface SnapshotManifest {
+	packages: SnapshotPackage[];
+	/** Table mapping original file addresses to paths relative to
+	  * the output directory. */
+	files: { [uri: string]: string };
+}
+
+export interface SnapshotOptions {
+	/** URL of the vendor directory in the rewritten configuration.
+	  * Default is 'vendor', relative to the SystemJS baseURL. */
+	vendorUrl?: string;
+}
+
+/** Write a file, creating missing parent directories.
+  * Buffers are written unchanged. */
+
+function writeFile(nativePath: string, data: string | Buffer) {
+	const fs: typeof FS = eval("require('fs')");
+	const path: typeof Path = eval("require('path')");
+
+	return(new Promise((resolve: () => void, reject) => {
+		fs.mkdir(path.dirname(nativePath), { recursive: true }, (err: NodeJS.ErrnoException) => {
+			if(err) return(reject(err));
+
+			const done = (err: NodeJS.ErrnoException) => err ? reject(err) : resolve();
+
+			if(typeof(data) == 'string') fs.writeFile(nativePath, data, 'utf-8', done);
+			else fs.writeFile(nativePath, data, done);
+		});
+	}));
+}
+
+/** Replace package root addresses at the start of all keys and values
+  * in a configuration object.
+  *
+  * @param rootList Original root addresses and their replacements,
+  *   longest roots first. */
+
+function rewriteConfig(data: any, rootList: { root: string, local: string }[]): any {
+	const rewrite = (text: string) => {
+		for(let { root, local } of rootList) {
+			if(text == root || text.substr(0, root.length + 1) == root + '/') {
+				return(local + text.substr(root.length));
+			}
+		}
+
+		return(text);
+	};
+
+	if(typeof(data) == 'string') return(rewrite(data));
+	if(!data || typeof(data) != 'object') return(data);
+	if(data instanceof Array) return(data.map((item: any) => rewriteConfig(item, rootList)));
+
+	const result: { [key: string]: any } = {};
+
+	for(let key of Object.keys(data)) {
+		result[rewrite(key)] = rewriteConfig(data[key], rootList);
+	}
+
+	return(result);
+}
+
+/** Copy all package files resolved so far into a vendor directory
+  * laid out like node_modules, and write SystemJS configuration using
+  * the local copies (config.json) and a list of their sources (manifest.json)
+  * to allow loading the project without network access.
+  *
+  * @param resolver Resolver used to load the project.
+  * @param outDir Native path of output directory.
+  * @return Promise resolving to manifest contents after all files are written. */
+
+export function writeSnapshot(resolver: Resolver, outDir: string, options: SnapshotOptions = {}) {
+	const path: typeof Path = eval("require('path')");
+	const config = resolver.systemConfig;
+	const sources = config.sources || {};
+	const vendorUrl = options.vendorUrl || 'vendor';
+	const manifest: SnapshotManifest = { packages: [], files: {} };
+	const usedTbl: { [path: string]: boolean } = {};
+
+	// Only copy installed dependencies and packages from fallback providers,
+	// not the project itself.
+
+	const packageList = resolver.getPackages().filter(
+		({ key, root }) => config.packages[key] && config.packages[key].main && (
+			sources[root] || root.match(/\/node_modules\//i)
+		)
+	).sort((a, b) => b.root.length - a.root.length);
+
+	const packagesReady = packageList.map(({ name, root }) => fetch(
+		root + '/package.json',
+		{ cache: 'force-cache' }
+	).then((res: FetchResponse) => res.text()).then((data: string) => {
+		const version: string | undefined = JSON.parse(data).version;
+		const nested = root.match(/\/node_modules\/(.*)$/i);
+		let local = nested ? nested[1] : name;
+
+		if(usedTbl[local]) local += '@' + version;
+		usedTbl[local] = true;
+
+		manifest.packages.push({ name, version, source: sources[root] || 'local', root, path: local });
+		manifest.files[root + '/package.json'] = 'vendor/' + local + '/package.json';
+
+		return(writeFile(path.resolve(outDir, 'vendor', local, 'package.json'), data));
+	}));
+
+	const result = Promise.all(packagesReady).then(() => {
+		// Match files inside nested packages first.
+		manifest.packages.sort((a, b) => b.root.length - a.root.length);
+
+		const fileList = Object.keys(resolver.fileTbl).filter((uri: string) => uri.match(/^(file|https?):/i));
+
+		return(Promise.all(fileList.map((uri: string) => {
+			for(let item of manifest.packages) {
+				if(uri.substr(0, item.root.length + 1) != item.root + '/') continue;
+
+				const local = 'vendor/' + item.path + uri.substr(item.root.length);
+				manifest.files[uri] = local;
+
+				return(fetch(uri, { cache: 'force-cache' }).then(readBody).then(
+					(data: string | Buffer) => writeFile(path.resolve(outDir, local), data)
+				));
+			}
+
+			return(Promise.resolve());
+		})));
+	}).then(() => {
+		const rootList = manifest.packages.map(({ root, path }) => ({
+			root,
+			local: vendorUrl + '/' + path
+		})).sort((a, b) => b.root.length - a.root.length);
+
+		// Sources are listed in the manifest instead.
+		const localConfig: GeneratedConfig = rewriteConfig(getLoaderConfig(config), rootList);
+
+		// Configure the vendor directory like a node_modules directory.
+
+		localConfig.meta[vendorUrl + '/*'] = {
+			globals: resolver.getGlobals()
+		};
+
+		localConfig.packages[vendorUrl] = {
+			defaultExtension: getDefaultExtension(resolver.options.extensions)
+		};
+
+		return(Promise.all([
+			writeFile(path.resolve(outDir, 'config.json'), JSON.stringify(localConfig, null, '\t')),
+			writeFile(path.resolve(outDir, 'manifest.json'), JSON.stringify(manifest, null, '\t'))
+		]));
+	}).then(() => manifest);
+
+	return(result);
+}
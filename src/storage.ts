@@ -0,0 +1,623 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+import { createRequestError } from './rpc';
+
+/** Result of an HTTP request stored in a cache. */
+
+export interface CacheEntry {
+	/** Requested URL address. */
+	url: string;
+	/** URL address after following redirects. */
+	target: string;
+	/** HTTP status code, 200 if the file exists. */
+	status: number;
+	/** File contents, missing if only existence was checked. */
+	body?: string;
+	/** Set to base64 if the body is binary data encoded as text. */
+	encoding?: 'base64';
+	/** Time the result was stored, in milliseconds since the epoch. */
+	time: number;
+}
+
+/** Address after redirects and contents of a file from an HTTP request. */
+
+export interface RequestResult {
+	uri: string;
+	/** Contents decoded as UTF-8, empty if only existence was checked. */
+	text: string;
+	/** Raw contents, only in Node.js. */
+	data?: Buffer;
+}
+
+/** Persistent storage for results of HTTP requests. */
+
+export interface StorageBackend {
+	/** Read the stored result for an URL address.
+	  *
+	  * @return Promise resolving to the result, or undefined if missing. */
+	read(uri: string): Promise<CacheEntry | undefined>;
+
+	/** Store a result, replacing any earlier result for the same URL address. */
+	write(entry: CacheEntry): Promise<void>;
+
+	/** Remove the stored result for an URL address, if any. */
+	remove(uri: string): Promise<void>;
+
+	/** Remove stored results.
+	  *
+	  * @param prefix Only remove results for URL addresses starting
+	  *   with this, or all if undefined.
+	  * @return Promise resolving to the number of results removed. */
+	clear(prefix?: string): Promise<number>;
+
+	/** Check if a stored result can be used without fetching again. */
+	isFresh(entry: CacheEntry): boolean;
+}
+
+export interface BrowserStorageOptions {
+	/** Application build or version. Results stored by other versions
+	  * are removed when the storage is opened. Default is empty.
+	  * openBrowserStorage only uses persistent storage if this
+	  * or ttl is set. */
+	version?: string;
+
+	/** Time in milliseconds before results get fetched again,
+	  * except for immutable versioned CDN addresses.
+	  * Default is to keep results until the version changes. */
+	ttl?: number;
+}
+
+/** Match a path component like name@1.2.3 or @scope/name@1.2.3-beta.1
+  * with an exact version, so the contents never change. */
+const immutableRe = /^[a-z]+:\/\/[^/]+\/(.*\/)?(@[^/@]+\/)?[^/@]+@[0-9]+\.[0-9]+\.[0-9]+(-[-.0-9A-Za-z]+)?(\+[-.0-9A-Za-z]+)?(\/|$)/i;
+
+/** Check if an URL address points inside a package version on a CDN. */
+
+export function isImmutable(uri: string) {
+	return(immutableRe.test(uri));
+}
+
+/** Check if a stored result is younger than a time to live in milliseconds,
+  * or never expires. */
+
+export function isFreshEntry(entry: CacheEntry, ttl?: number) {
+	return(ttl === void 0 || isImmutable(entry.url) || new Date().getTime() - entry.time <= ttl);
+}
+
+/** Check if an exception means the storage is full. */
+
+function isQuotaError(err: any) {
+	return(!!err && (
+		err.name == 'QuotaExceededError' ||
+		err.name == 'NS_ERROR_DOM_QUOTA_REACHED' ||
+		err.code == 22
+	));
+}
+
+/** Make an HTTP request through a storage backend.
+  *
+  * @param storage Backend storing the results.
+  * @param uri URL address to request.
+  * @param head Only check if the file exists.
+  * @param send Function making the actual request, resolving to
+  *   the address after redirects and file contents, or rejecting
+  *   with an object containing statusCode.
+  * @return Promise like the one from send. Stored missing files reject
+  *   with a RequestError flagged as cached. Missing files are only stored
+  *   for immutable versioned CDN addresses, since others may appear. */
+
+export function requestWithStorage(
+	storage: StorageBackend,
+	uri: string,
+	head: boolean,
+	send: (uri: string, head?: boolean) => Promise<RequestResult>
+): Promise<RequestResult> {
+	const result = storage.read(uri).then((entry?: CacheEntry) => {
+		if(entry && storage.isFresh(entry) && (head || entry.status != 200 || entry.body !== void 0)) {
+			if(entry.status != 200) {
+				throw(createRequestError({
+					message: 'HTTP status ' + entry.status + ' (cached): ' + uri,
+					url: uri,
+					status: entry.status,
+					code: 'status',
+					cached: true
+				}));
+			}
+
+			if(entry.encoding == 'base64') {
+				const data = Buffer.from(entry.body || '', 'base64');
+
+				return({ uri: entry.target, text: data.toString('utf-8'), data });
+			}
+
+			return({ uri: entry.target, text: entry.body || '' });
+		}
+
+		return(send(uri, head).then((result: RequestResult) => {
+			const target = result.uri;
+			const data = result.data;
+			const time = new Date().getTime();
+			let body = head ? void 0 : result.text;
+			let encoding: 'base64' | undefined;
+
+			// Binary data does not survive decoding as UTF-8.
+			if(body !== void 0 && data && !data.equals(Buffer.from(body, 'utf-8'))) {
+				body = data.toString('base64');
+				encoding = 'base64';
+			}
+
+			// Also store the result for the address after redirects.
+			const urlList = target == uri ? [ uri ] : [ uri, target ];
+
+			return(Promise.all(urlList.map((url: string) => {
+				const entry: CacheEntry = { url, target, status: 200, body, time };
+
+				if(encoding) entry.encoding = encoding;
+
+				return(storage.write(entry).catch(() => {}));
+			})).then(() => result));
+		}, (err: any) => {
+			const status = err && err.statusCode;
+
+			// Network and server errors are not cached.
+			if(!status || status >= 500 || err.cached || !isImmutable(uri)) throw(err);
+
+			return(storage.write({
+				url: uri,
+				target: uri,
+				status,
+				time: new Date().getTime()
+			}).catch(() => {}).then(() => { throw(err); }));
+		}));
+	});
+
+	return(result);
+}
+
+/** Base class for storage backends in browsers and Web Workers.
+  * Removes the oldest half of the results if the storage gets full. */
+
+export abstract class BrowserStorage implements StorageBackend {
+
+	constructor(public options: BrowserStorageOptions = {}) {}
+
+	/** Prepare the storage for use, removing results of other versions.
+	  *
+	  * @return Promise rejecting if the storage is unavailable. */
+
+	abstract open(): Promise<this>;
+
+	abstract read(uri: string): Promise<CacheEntry | undefined>;
+
+	write(entry: CacheEntry) {
+		return(this.put(entry).catch((err: any) => {
+			if(!isQuotaError(err)) throw(err);
+
+			return(this.evict().then(() => this.put(entry)));
+		}));
+	}
+
+	abstract remove(uri: string): Promise<void>;
+
+	abstract clear(prefix?: string): Promise<number>;
+
+	isFresh(entry: CacheEntry) {
+		return(isFreshEntry(entry, this.options.ttl));
+	}
+
+	/** Store a result without handling quota errors. */
+
+	protected abstract put(entry: CacheEntry): Promise<void>;
+
+	/** Remove the oldest half of the stored results. */
+
+	protected abstract evict(): Promise<void>;
+
+}
+
+/** Wait for an IndexedDB request to finish. */
+
+function idbRequest<Type>(req: IDBRequest) {
+	return(new Promise((resolve: (result: Type) => void, reject) => {
+		req.onsuccess = () => resolve(req.result);
+		req.onerror = () => reject(req.error);
+	}));
+}
+
+/** Wait for an IndexedDB transaction to commit. */
+
+function idbTransaction(tx: IDBTransaction): Promise<void> {
+	return(new Promise((resolve: () => void, reject) => {
+		tx.oncomplete = () => resolve();
+		tx.onerror = () => reject(tx.error);
+		tx.onabort = () => reject(tx.error);
+	}));
+}
+
+/** Storage in an IndexedDB database, available in browsers and Web Workers. */
+
+export class IndexedDBStorage extends BrowserStorage {
+
+	/** @param name Name of the database. */
+
+	constructor(options?: BrowserStorageOptions, public name = 'cresolve') {
+		super(options);
+	}
+
+	open() {
+		if(this.ready) return(this.ready);
+
+		const version = this.options.version || '';
+
+		const ready = new Promise((resolve: (db: IDBDatabase) => void, reject) => {
+			const req = indexedDB.open(this.name, 1);
+
+			req.onupgradeneeded = () => {
+				const db: IDBDatabase = req.result;
+
+				db.createObjectStore('entries', { keyPath: 'url' }).createIndex('time', 'time');
+				db.createObjectStore('meta');
+			};
+
+			req.onsuccess = () => resolve(req.result);
+			req.onerror = () => reject(req.error);
+			req.onblocked = () => reject(new Error('IndexedDB database is blocked: ' + this.name));
+		}).then((db: IDBDatabase) => {
+			const tx = db.transaction([ 'entries', 'meta' ], 'readwrite');
+			const meta = tx.objectStore('meta');
+
+			const req = meta.get('version');
+
+			// Requests must be queued in event handlers,
+			// before the transaction commits.
+
+			req.onsuccess = () => {
+				if(req.result === version) return;
+
+				tx.objectStore('entries').clear();
+				meta.put(version, 'version');
+			};
+
+			return(idbTransaction(tx).then(() => db));
+		});
+
+		this.ready = ready.then(() => this);
+		this.db = ready;
+
+		return(this.ready);
+	}
+
+	read(uri: string) {
+		return(this.open().then(() => this.db).then((db: IDBDatabase) => idbRequest<CacheEntry | undefined>(
+			db.transaction('entries', 'readonly').objectStore('entries').get(uri)
+		)));
+	}
+
+	remove(uri: string) {
+		return(this.open().then(() => this.db).then((db: IDBDatabase) => {
+			const tx = db.transaction('entries', 'readwrite');
+
+			tx.objectStore('entries').delete(uri);
+
+			return(idbTransaction(tx));
+		}));
+	}
+
+	clear(prefix?: string) {
+		return(this.open().then(() => this.db).then((db: IDBDatabase) => {
+			const tx = db.transaction('entries', 'readwrite');
+			const range = prefix ? IDBKeyRange.bound(prefix, prefix + '\uffff') : void 0;
+			const req = tx.objectStore('entries').openCursor(range);
+			let count = 0;
+
+			req.onsuccess = () => {
+				const cursor: IDBCursorWithValue | null = req.result;
+				if(!cursor) return;
+
+				cursor.delete();
+				++count;
+				cursor.continue();
+			};
+
+			return(idbTransaction(tx).then(() => count));
+		}));
+	}
+
+	protected put(entry: CacheEntry) {
+		return(this.open().then(() => this.db).then((db: IDBDatabase) => {
+			const tx = db.transaction('entries', 'readwrite');
+
+			tx.objectStore('entries').put(entry);
+
+			return(idbTransaction(tx));
+		}));
+	}
+
+	protected evict() {
+		return(this.open().then(() => this.db).then((db: IDBDatabase) => {
+			const tx = db.transaction('entries', 'readwrite');
+			const store = tx.objectStore('entries');
+
+			const countReq = store.count();
+
+			countReq.onsuccess = () => {
+				const req = store.index('time').openCursor();
+				let count = Math.ceil(countReq.result / 2);
+
+				req.onsuccess = () => {
+					const cursor: IDBCursorWithValue | null = req.result;
+					if(!cursor || !count--) return;
+
+					cursor.delete();
+					cursor.continue();
+				};
+			};
+
+			return(idbTransaction(tx));
+		}));
+	}
+
+	private ready?: Promise<this>;
+	private db: Promise<IDBDatabase>;
+
+}
+
+/** Headers storing result metadata in Cache API responses. */
+const targetHeader = 'X-Cresolve-Target';
+const statusHeader = 'X-Cresolve-Status';
+const timeHeader = 'X-Cresolve-Time';
+const bodyHeader = 'X-Cresolve-Body';
+
+/** Storage using the Cache API, available in browsers and Web Workers
+  * on pages served over HTTPS or from localhost. */
+
+export class CacheAPIStorage extends BrowserStorage {
+
+	/** @param prefix Start of cache names. The version is appended to it. */
+
+	constructor(options?: BrowserStorageOptions, public prefix = 'cresolve/') {
+		super(options);
+	}
+
+	open() {
+		if(this.ready) return(this.ready);
+
+		const name = this.prefix + (this.options.version || '');
+
+		const ready = caches.keys().then((nameList: string[]) => Promise.all(nameList.filter(
+			(other: string) => other != name && other.substr(0, this.prefix.length) == this.prefix
+		).map(
+			(other: string) => caches.delete(other)
+		))).then(() => caches.open(name));
+
+		this.ready = ready.then(() => this);
+		this.cache = ready;
+
+		return(this.ready);
+	}
+
+	read(uri: string) {
+		return(this.open().then(() => this.cache).then(
+			(cache: Cache) => cache.match(uri)
+		).then((res?: Response) => {
+			if(!res) return(void 0);
+
+			const headers = res.headers;
+
+			return(res.text().then((text: string) => {
+				const entry: CacheEntry = {
+					url: uri,
+					target: headers.get(targetHeader) || uri,
+					status: +(headers.get(statusHeader) || 200),
+					time: +(headers.get(timeHeader) || 0)
+				};
+
+				if(headers.get(bodyHeader)) entry.body = text;
+
+				return(entry);
+			}));
+		}));
+	}
+
+	remove(uri: string) {
+		return(this.open().then(() => this.cache).then((cache: Cache) => cache.delete(uri)).then(() => {}));
+	}
+
+	clear(prefix?: string) {
+		return(this.open().then(() => this.cache).then((cache: Cache) => cache.keys().then(
+			(reqList: Request[]) => Promise.all(reqList.filter(
+				(req: Request) => !prefix || req.url.substr(0, prefix.length) == prefix
+			).map(
+				(req: Request) => cache.delete(req).then((removed: boolean) => removed ? 1 : 0)
+			))
+		)).then((removedList: number[]) => removedList.reduce((total: number, removed: number) => total + removed, 0)));
+	}
+
+	protected put(entry: CacheEntry) {
+		const headers: { [name: string]: string } = {};
+
+		headers[targetHeader] = entry.target;
+		headers[statusHeader] = '' + entry.status;
+		headers[timeHeader] = '' + entry.time;
+		if(entry.body !== void 0) headers[bodyHeader] = '1';
+
+		return(this.open().then(() => this.cache).then(
+			(cache: Cache) => cache.put(entry.url, new Response(entry.body || '', { headers }))
+		));
+	}
+
+	protected evict() {
+		// Cache keys are listed in insertion order, oldest first.
+
+		return(this.open().then(() => this.cache).then((cache: Cache) => cache.keys().then(
+			(reqList: Request[]) => Promise.all(reqList.slice(0, Math.ceil(reqList.length / 2)).map(
+				(req: Request) => cache.delete(req)
+			))
+		)).then(() => {}));
+	}
+
+	private ready?: Promise<this>;
+	private cache: Promise<Cache>;
+
+}
+
+/** Storage in sessionStorage or another Web Storage object, one JSON
+  * string per URL address. Only available in the UI thread and limited
+  * to a few megabytes. */
+
+export class WebStorage extends BrowserStorage {
+
+	/** @param storage Web Storage object. Default is window.sessionStorage.
+	  * @param prefix Start of item keys. The version is appended to it. */
+
+	constructor(
+		options?: BrowserStorageOptions,
+		public storage?: Storage,
+		public prefix = 'cresolve/'
+	) {
+		super(options);
+	}
+
+	open() {
+		if(this.ready) return(this.ready);
+
+		try {
+			if(!this.storage) this.storage = window.sessionStorage;
+
+			const storage = this.storage;
+			const keyPrefix = this.getKey('');
+
+			// Remove results of other versions.
+
+			for(let key of this.getKeys()) {
+				if(key.substr(0, keyPrefix.length) != keyPrefix) storage.removeItem(key);
+			}
+		} catch(err) {
+			return(Promise.reject(err));
+		}
+
+		this.ready = Promise.resolve(this);
+
+		return(this.ready);
+	}
+
+	read(uri: string) {
+		return(this.open().then(() => {
+			const item = this.storage!.getItem(this.getKey(uri));
+			let entry: CacheEntry | undefined;
+
+			try {
+				if(item) entry = JSON.parse(item);
+			} catch(err) {}
+
+			return(entry);
+		}));
+	}
+
+	remove(uri: string) {
+		return(this.open().then(() => this.storage!.removeItem(this.getKey(uri))));
+	}
+
+	clear(prefix?: string) {
+		return(this.open().then(() => {
+			const keyPrefix = this.getKey(prefix || '');
+			let count = 0;
+
+			for(let key of this.getKeys()) {
+				if(key.substr(0, keyPrefix.length) == keyPrefix) {
+					this.storage!.removeItem(key);
+					++count;
+				}
+			}
+
+			return(count);
+		}));
+	}
+
+	protected put(entry: CacheEntry) {
+		return(this.open().then(() => this.storage!.setItem(this.getKey(entry.url), JSON.stringify(entry))));
+	}
+
+	protected evict() {
+		return(this.open().then(() => {
+			const storage = this.storage!;
+			const keyPrefix = this.getKey('');
+			const itemList: { key: string, time: number }[] = [];
+
+			for(let key of this.getKeys()) {
+				if(key.substr(0, keyPrefix.length) != keyPrefix) continue;
+
+				let time = 0;
+
+				try {
+					time = JSON.parse(storage.getItem(key) || '{}').time || 0;
+				} catch(err) {}
+
+				itemList.push({ key, time });
+			}
+
+			itemList.sort((a, b) => a.time - b.time);
+
+			for(let item of itemList.slice(0, Math.ceil(itemList.length / 2))) {
+				storage.removeItem(item.key);
+			}
+		}));
+	}
+
+	/** Get the item key for an URL address. */
+
+	private getKey(uri: string) {
+		return(this.prefix + (this.options.version || '') + '/' + uri);
+	}
+
+	/** List all item keys starting with the prefix, including other versions. */
+
+	private getKeys() {
+		const storage = this.storage!;
+		const keyList: string[] = [];
+
+		for(let num = 0; num < storage.length; ++num) {
+			const key = storage.key(num);
+
+			if(key && key.substr(0, this.prefix.length) == this.prefix) keyList.push(key);
+		}
+
+		return(keyList);
+	}
+
+	private ready?: Promise<this>;
+
+}
+
+/** Open the first available storage in a browser or Web Worker,
+  * trying IndexedDB, the Cache API and sessionStorage in that order.
+  * Results are kept only for the browser session unless a version
+  * or ttl is given, so outdated results cannot linger.
+  *
+  * @return Promise resolving to the storage, or undefined if none work. */
+
+export function openBrowserStorage(options: BrowserStorageOptions = {}): Promise<BrowserStorage | undefined> {
+	const candidates: (() => BrowserStorage)[] = [];
+	const persistent = options.version !== void 0 || options.ttl !== void 0;
+
+	if(persistent && typeof(indexedDB) == 'object' && indexedDB) candidates.push(() => new IndexedDBStorage(options));
+	if(persistent && typeof(caches) == 'object' && caches) candidates.push(() => new CacheAPIStorage(options));
+	if(typeof(window) == 'object') candidates.push(() => new WebStorage(options));
+
+	const tryNext = (num: number): Promise<BrowserStorage | undefined> => {
+		if(num >= candidates.length) return(Promise.resolve(void 0));
+
+		let storage: Promise<BrowserStorage>;
+
+		try {
+			storage = candidates[num]().open();
+		} catch(err) {
+			storage = Promise.reject(err);
+		}
+
+		return(storage.catch(() => tryNext(num + 1)));
+	};
+
+	return(tryNext(0));
+}
@@ -0,0 +1,155 @@
+// This file is part of cresolve, copyright (c) 2018- BusFaster Ltd.
+// Released under the MIT license, see LICENSE.
+
+/** Workspaces and package manager layout of a project. */
+
+export interface ProjectInfo {
+	/** Project root address (without slash at the end). */
+	root: string;
+	/** Patterns matching workspace folders, relative to project root. */
+	patterns: string[];
+	/** Address of pnpm virtual store directory (without slash at the end),
+	  * if packages are installed in its layout. */
+	store?: string;
+}
+
+function unquote(text: string) {
+	return(text.trim().replace(/^(["'])(.*)\1$/, '$2'));
+}
+
+/** Remove ./ at the start and slashes at the end of a folder name or pattern. */
+
+function cleanFolder(folder: string) {
+	return(folder.replace(/^(\.\/)+/, '').replace(/\/+$/, ''));
+}
+
+/** Get workspace folder patterns from the workspaces field in package.json
+  * (npm and Yarn), either a list or an object with a packages list. */
+
+export function getWorkspacePatterns(rootJson: any) {
+	let workspaces = rootJson && rootJson.workspaces;
+
+	if(workspaces && !(workspaces instanceof Array)) workspaces = workspaces.packages;
+	if(!(workspaces instanceof Array)) return([]);
+
+	return(workspaces.filter((pattern: any) => typeof(pattern) == 'string') as string[]);
+}
+
+/** Get workspace folder patterns from the packages list in pnpm-workspace.yaml. */
+
+export function parsePnpmWorkspace(data: string) {
+	const patterns: string[] = [];
+	let inside = false;
+
+	for(let line of data.split(/\r?\n/)) {
+		const content = line.replace(/(^|\s)#.*$/, '').trim();
+		if(!content) continue;
+
+		if(line.charAt(0) != ' ' && line.charAt(0) != '-') {
+			// Top-level key.
+			inside = !!content.match(/^packages\s*:/);
+
+			// Handle an inline list like packages: [ 'a/*', 'b' ].
+			const inline = inside && content.match(/\[(.*)\]/);
+			if(inline) patterns.push.apply(patterns, inline[1].split(',').map(unquote).filter((item) => item));
+		} else if(inside && content.substr(0, 2) == '- ') {
+			patterns.push(unquote(content.substr(2)));
+		}
+	}
+
+	return(patterns);
+}
+
+/** Get the pnpm virtual store directory from node_modules/.modules.yaml.
+  *
+  * @return Path relative to project root, or undefined if packages are
+  *   installed in a flat node_modules directory (hoisted node linker). */
+
+export function parseModulesYaml(data: string) {
+	const linker = data.match(/^nodeLinker:(.*)$/m);
+	if(linker && unquote(linker[1]) == 'hoisted') return(void 0);
+
+	const found = data.match(/^virtualStoreDir:(.*)$/m);
+	let store = found ? unquote(found[1]).replace(/\\/g, '/') : '.pnpm';
+
+	if(store.match(/^([A-Za-z]:)?\//)) {
+		// Newer pnpm versions store an absolute path. Keep the part
+		// starting from the last node_modules directory.
+		const pos = store.lastIndexOf('/node_modules/');
+		store = pos >= 0 ? store.substr(pos + 1) : 'node_modules/.pnpm';
+	} else if(!store.match(/^(\.\/)?node_modules\//)) {
+		// Older versions store a path relative to node_modules.
+		store = 'node_modules/' + cleanFolder(store);
+	}
+
+	return(cleanFolder(store));
+}
+
+function patternToRegExp(pattern: string) {
+	const source = cleanFolder(pattern).replace(/[-[\]{}()+?.\\^$|]/g, '\\$&').replace(
+		/\*\*\/?|\*/g,
+		(wildcard: string) => wildcard == '*' ? '[^/]*' : wildcard == '**' ? '.*' : '(.*/)?'
+	);
+
+	return(new RegExp('^' + source + '$'));
+}
+
+/** Check if a folder matches workspace patterns.
+  * Patterns starting with ! exclude folders.
+  *
+  * @param folder Path relative to project root. */
+
+export function matchWorkspace(patterns: string[], folder: string) {
+	let matched = false;
+
+	folder = cleanFolder(folder);
+
+	for(let pattern of patterns) {
+		const negated = pattern.charAt(0) == '!';
+
+		if(patternToRegExp(negated ? pattern.substr(1) : pattern).test(folder)) matched = !negated;
+	}
+
+	return(matched);
+}
+
+/** List folders named in workspace patterns without wildcards. */
+
+export function getLiteralWorkspaces(patterns: string[]) {
+	return(patterns.filter(
+		(pattern: string) => pattern.charAt(0) != '!' && pattern.indexOf('*') < 0
+	).map(cleanFolder));
+}
+
+/** Guess folders of a workspace package, replacing the last wildcard in each
+  * pattern with the package name (without scope). Directories cannot
+  * be listed over HTTP, so this finds workspaces following the common
+  * convention of naming folders after packages.
+  *
+  * @param packageName Name of npm package. */
+
+export function guessWorkspaceFolders(patterns: string[], packageName: string) {
+	const base = packageName.replace(/^@[^/]+\//, '');
+	const folderList: string[] = [];
+
+	for(let pattern of patterns) {
+		if(pattern.charAt(0) == '!' || pattern.indexOf('*') < 0) continue;
+
+		const folder = cleanFolder(pattern).replace(/^(.*?)\*\*?([^*]*)$/, '$1' + base + '$2');
+
+		if(folder.indexOf('*') < 0 && folderList.indexOf(folder) < 0 && matchWorkspace(patterns, folder)) {
+			folderList.push(folder);
+		}
+	}
+
+	return(folderList);
+}
+
+/** Get the name of a package directory inside the pnpm virtual store.
+  *
+  * @param id Package name and version with possible peer dependency suffix,
+  *   like @scope/name@1.0.0(peer@2.0.0) */
+
+export function getStoreFolder(id: string) {
+	return(id.replace(/\//g, '+').replace(/\)\(|\(/g, '_').replace(/\)$/, ''));
+}
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as SystemType from 'systemjs';
+
+import { Resolver } from '../dist/Resolver';
+import { ifExists, fetch, path2url } from '../dist/fetch';
+import { jsonAsset, createAssetType, getAssetMeta } from '../dist/assets';
+import { TestCase, withTree } from './util';
+
+const System: typeof SystemType = eval("require('systemjs')");
+
+/** SystemJS loader plugin exporting the contents of text files. */
+
+const textPlugin = [
+	'exports.translate = function(load) {',
+	'\tload.metadata.format = "cjs";',
+	'\treturn("module.exports = " + JSON.stringify(load.source.trim()) + ";");',
+	'};'
+].join('\n');
+
+export const assetTests: TestCase[] = [
+	{
+		name: 'asset types are configured in SystemJS meta',
+		run: () => {
+			assert.deepStrictEqual(getAssetMeta(jsonAsset), { pattern: '*.json', meta: { format: 'json' } });
+			assert.deepStrictEqual(getAssetMeta(createAssetType('.css', 'systemjs-plugin-css')), {
+				pattern: '*.css',
+				meta: { loader: 'systemjs-plugin-css' }
+			});
+
+			return(Promise.resolve());
+		}
+	}, {
+		name: 'JSON files and other assets are loaded without adding extensions',
+		run: () => withTree({
+			'package.json': '{ "name": "app", "version": "1.2.3", "dependencies": { "dep": "^1.0.0", "text-plugin": "^1.0.0" } }',
+			'src/main.js': [
+				'module.exports = [',
+				'\trequire("./data.json").value,',
+				'\trequire("../package.json").version,',
+				'\trequire("dep/package.json").name,',
+				'\trequire("./hello.txt")',
+				'];'
+			].join('\n'),
+			'src/data.json': '{ "value": 42 }',
+			'src/hello.txt': 'Hello\n',
+			'node_modules/dep/package.json': '{ "name": "dep", "version": "1.0.0" }',
+			'node_modules/dep/index.js': '',
+			'node_modules/text-plugin/package.json': '{ "name": "text-plugin", "version": "1.0.0" }',
+			'node_modules/text-plugin/index.js': textPlugin
+		}, (dir: string) => {
+			const system = new System.constructor();
+			const root = path2url(dir);
+			const resolver = new Resolver(ifExists, fetch, void 0, {
+				assets: [ createAssetType('.txt', 'text-plugin') ]
+			});
+
+			resolver.patchSystem(system);
+
+			return(system.import(root + '/src/main.js').then((value: any[]) => {
+				const config = resolver.systemConfig;
+
+				assert.deepStrictEqual(value, [ 42, '1.2.3', 'dep', 'Hello' ]);
+
+				assert.deepStrictEqual(config.meta['*.json'], { format: 'json' });
+				assert.deepStrictEqual(config.meta['*.txt'], { loader: 'text-plugin' });
+
+				// Loader plugins are resolved like packages.
+				assert.strictEqual(config.map['text-plugin'], root + '/node_modules/text-plugin');
+
+				return(resolver.resolve('./data.json', root + '/src/main.js'));
+			}).then((resolved: string) => {
+				assert.strictEqual(resolved, root + '/src/data.json');
+			}));
+		})
+	}
+];
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+
+import { Resolver, SystemConfig } from '../dist/Resolver';
+import { ConfigLoader } from '../dist/Loader';
+import { ifExists, fetch, path2url } from '../dist/fetch';
+import { TestCase, withTree } from './util';
+
+/** Project with browser replacements of some core modules installed. */
+
+const builtinFiles = {
+	'package.json': '{ "name": "app", "dependencies": { "path-browserify": "^1.0.0", "events": "^3.0.0" } }',
+	'src/main.js': 'import path from "path";\n',
+	'node_modules/path-browserify/package.json': '{ "name": "path-browserify", "version": "1.0.1", "main": "index.js" }',
+	'node_modules/path-browserify/index.js': '',
+	'node_modules/events/package.json': '{ "name": "events", "version": "3.3.0", "main": "events.js" }',
+	'node_modules/events/events.js': '',
+	'node_modules/my-events/package.json': '{ "name": "my-events", "version": "1.0.0" }',
+	'node_modules/my-events/index.js': '',
+	'node_modules/path/package.json': '{ "name": "path", "version": "0.12.7", "main": "path.js" }',
+	'node_modules/path/path.js': '',
+	'lib/package.json': '{ "name": "lib", "version": "1.0.0", "browser": { "fs": "./fs.js" } }',
+	'lib/index.js': '',
+	'lib/fs.js': ''
+};
+
+/** Create a loader recording all configuration it receives. */
+
+function createLoader() {
+	const loader = new ConfigLoader();
+	const configList: SystemConfig[] = [];
+	const config = loader.config;
+
+	loader.config = (sent: SystemConfig) => {
+		configList.push(sent);
+		config.call(loader, sent);
+	};
+
+	return({ loader, configList });
+}
+
+export const builtinTests: TestCase[] = [
+	{
+		name: 'core modules resolve to browser replacements with or without node: prefix',
+		run: () => withTree(builtinFiles, (dir: string) => {
+			const base = path2url(dir);
+			const parent = base + '/src/main.js';
+			const resolver = new Resolver(ifExists, fetch);
+			const { loader, configList } = createLoader();
+
+			resolver.attach(loader);
+
+			return(resolver.resolve('node:path', parent).then((prefixed: string) => {
+				assert.strictEqual(prefixed, base + '/node_modules/path-browserify/index.js');
+
+				return(Promise.all([
+					resolver.resolve('path', parent),
+					resolver.resolve('fs', parent),
+					resolver.resolve('node:fs', parent),
+					resolver.resolve('events', parent)
+				]));
+			}).then(([ plain, fs, prefixedFs, events ]) => {
+				assert.strictEqual(plain, base + '/node_modules/path-browserify/index.js');
+				assert.strictEqual(fs, '@empty');
+				assert.strictEqual(prefixedFs, '@empty');
+				assert.strictEqual(events, base + '/node_modules/events/events.js');
+
+				// Aliases with node: prefix also reach the loader.
+				assert.strictEqual(loader.systemConfig.map!['node:path'], plain);
+				assert.strictEqual(loader.systemConfig.map!['node:fs'], '@empty');
+				assert.ok(configList.some((sent: SystemConfig) => !!sent.map && sent.map['node:path'] == plain));
+				assert.strictEqual(resolver.systemConfig.map['events'], base + '/node_modules/events');
+			}));
+		})
+	}, {
+		name: 'core module replacements can be overridden and browser fields take precedence',
+		run: () => withTree(builtinFiles, (dir: string) => {
+			const base = path2url(dir);
+			const resolver = new Resolver(ifExists, fetch, void 0, {
+				builtins: { events: 'my-events', path: false }
+			});
+
+			return(Promise.all([
+				resolver.resolve('events', base + '/src/main.js'),
+				resolver.resolve('path', base + '/src/main.js'),
+				resolver.resolve('fs', base + '/lib/index.js')
+			]).then(([ events, path, libFs ]) => {
+				assert.strictEqual(events, base + '/node_modules/my-events/index.js');
+				assert.strictEqual(path, base + '/node_modules/path/path.js');
+				assert.strictEqual(libFs, base + '/lib/fs.js');
+			}));
+		})
+	}
+];
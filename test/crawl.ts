@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import * as SystemType from 'systemjs';
+
+import { Resolver } from '../dist/Resolver';
+import { ifExists, fetch, path2url } from '../dist/fetch';
+import { crawl, CrawlResult, findImports } from '../dist/crawl';
+import { formatConfig, formatPackageReport } from '../dist/cli';
+import { TestCase, withTree } from './util';
+
+const System: typeof SystemType = eval("require('systemjs')");
+
+/** Project with ES modules, CommonJS and JSON, and two versions of a package. */
+
+const projectFiles = {
+	'package.json': '{ "name": "app", "dependencies": { "dep": "^1.0.0", "other": "^1.0.0" } }',
+	'src/main.js': [
+		'import dep from "dep";',
+		'import data from "./data.json";',
+		'// import "./commented";',
+		'export { util } from "./util";',
+		'import("./missing");'
+	].join('\n'),
+	'src/util.js': 'exports.util = require("other");\n',
+	'src/data.json': '{ "value": 1 }',
+	'node_modules/dep/package.json': '{ "name": "dep", "version": "1.0.0" }',
+	'node_modules/dep/index.js': 'export default 1;\n',
+	'node_modules/other/package.json': '{ "name": "other", "version": "1.0.0", "dependencies": { "dep": "^2.0.0" } }',
+	'node_modules/other/index.js': 'module.exports = require("dep");\n',
+	'node_modules/other/node_modules/dep/package.json': '{ "name": "dep", "version": "2.0.0" }',
+	'node_modules/other/node_modules/dep/index.js': 'module.exports = 2;\n'
+};
+
+/** Check files and errors found in the project. */
+
+function checkResult(dir: string, result: CrawlResult) {
+	const base = path2url(dir) + '/';
+
+	assert.deepStrictEqual(result.files.map((uri: string) => uri.substr(base.length)).sort(), [
+		'node_modules/dep/index.js',
+		'node_modules/other/index.js',
+		'node_modules/other/node_modules/dep/index.js',
+		'src/data.json',
+		'src/main.js',
+		'src/util.js'
+	]);
+
+	assert.deepStrictEqual(result.errors.map(({ name, parentAddress }) => ({ name, parentAddress })), [
+		{ name: './missing', parentAddress: base + 'src/main.js' }
+	]);
+}
+
+export const crawlTests: TestCase[] = [
+	{
+		name: 'import statements are found outside comments',
+		run: () => {
+			assert.deepStrictEqual(findImports(projectFiles['src/main.js']), [ 'dep', './data.json', './util', './missing' ]);
+			assert.deepStrictEqual(findImports('a.require("x"); require("y"); /* require("z") */'), [ 'y' ]);
+
+			return(Promise.resolve());
+		}
+	}, {
+		name: 'crawling follows ES modules, CommonJS and JSON files without running them',
+		run: () => withTree(projectFiles, (dir: string) => {
+			const system = new System.constructor();
+			const resolver = new Resolver(ifExists, fetch);
+
+			resolver.patchSystem(system, 'production');
+
+			return(crawl(system, path2url(dir) + '/src/main.js', fetch).then((result: CrawlResult) => {
+				const depRoot = path2url(dir) + '/node_modules/dep';
+				const config = JSON.parse(formatConfig(resolver.systemConfig, 'json'));
+				const report = JSON.parse(formatPackageReport(resolver.systemConfig));
+
+				checkResult(dir, result);
+
+				// Only configuration for loaders is output.
+				assert.strictEqual(config.map.dep, depRoot);
+				assert.ok(config.packages.dep);
+				assert.strictEqual(config.sources, void 0);
+				assert.strictEqual(config.duplicates, void 0);
+				assert.ok(formatConfig(resolver.systemConfig, 'js').match(/^System\.config\(\{[^]*\}\);\n$/));
+
+				assert.deepStrictEqual(report.duplicates.dep.sort(), [ depRoot, path2url(dir) + '/node_modules/other/node_modules/dep' ]);
+				assert.strictEqual(typeof(report.sources), 'object');
+			}));
+		})
+	}, {
+		name: 'crawling works with resolvers without a loader',
+		run: () => withTree(projectFiles, (dir: string) => {
+			const resolver = new Resolver(ifExists, fetch);
+
+			return(crawl(resolver, path2url(dir) + '/src/main.js', fetch).then(
+				(result: CrawlResult) => checkResult(dir, result)
+			));
+		})
+	}
+];
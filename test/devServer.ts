@@ -0,0 +1,137 @@
+import * as assert from 'assert';
+import * as HTTP from 'http';
+import * as Path from 'path';
+
+import { DevServer } from '../dist/DevServer';
+import { TestCase, withTree, withServer, after } from './util';
+
+const http: typeof HTTP = eval("require('http')");
+const path: typeof Path = eval("require('path')");
+
+interface Response {
+	status: number;
+	headers: HTTP.IncomingHttpHeaders;
+	body: string;
+}
+
+/** Make a GET request without normalizing the path.
+  *
+  * @param base Server address with a slash at the end.
+  * @param pathname Raw path, starting with a slash. */
+
+function get(base: string, pathname: string, headers: HTTP.OutgoingHttpHeaders = {}) {
+	const port = +base.replace(/^.*:([0-9]+)\/$/, '$1');
+
+	return(new Promise((resolve: (res: Response) => void, reject) => {
+		http.get({ host: 'localhost', port, path: pathname, headers }, (res: HTTP.IncomingMessage) => {
+			const chunkList: Buffer[] = [];
+
+			// Event streams stay open, so only their headers are read.
+			if(res.headers['content-type'] == 'text/event-stream') {
+				res.destroy();
+				return(resolve({ status: res.statusCode!, headers: res.headers, body: '' }));
+			}
+
+			res.on('data', (chunk: Buffer) => chunkList.push(chunk));
+			res.on('end', () => resolve({
+				status: res.statusCode!,
+				headers: res.headers,
+				body: Buffer.concat(chunkList).toString('utf-8')
+			}));
+		}).on('error', reject);
+	}));
+}
+
+/** Served project next to a file that must stay private. */
+
+const projectFiles = {
+	'secret.txt': 'secret',
+	'app/index.html': '<html></html>',
+	'app/src/main.js': 'console.log(1);\n',
+	'app/.env': 'TOKEN=secret',
+	'app/.git/config': '[core]',
+	'app/src/.hidden/a.js': ''
+};
+
+/** Serve the project in a temporary directory. */
+
+function withDevServer(run: (base: string, server: DevServer, dir: string) => Promise<any>, origin?: string) {
+	return(withTree(projectFiles, (dir: string) => {
+		const devServer = new DevServer(path.join(dir, 'app'), { origin });
+
+		return(after(withServer(
+			(req: HTTP.IncomingMessage, res: HTTP.ServerResponse) => devServer.handle(req, res),
+			(base: string) => run(base, devServer, dir)
+		), () => devServer.close()));
+	}));
+}
+
+export const devServerTests: TestCase[] = [
+	{
+		name: 'development servers refuse paths outside the directory and hidden files',
+		run: () => withDevServer((base: string) => Promise.all([
+			get(base, '/src/main.js'),
+			get(base, '/'),
+			get(base, '/../secret.txt'),
+			get(base, '/%2e%2e/secret.txt'),
+			get(base, '/src/..%2f..%2fsecret.txt'),
+			get(base, '/.env'),
+			get(base, '/.git/config'),
+			get(base, '/src/%2ehidden/a.js'),
+			get(base, '/.cresolve/exists?url=' + encodeURIComponent(base + '.env') + '&url=' + encodeURIComponent(base + 'src/main.js'))
+		]).then(([ main, index, up, encoded, slashes, env, git, hidden, exists ]) => {
+			assert.strictEqual(main.status, 200);
+			assert.strictEqual(main.body, 'console.log(1);\n');
+			assert.strictEqual(index.body, '<html></html>');
+
+			for(let res of [ up, encoded, slashes ]) assert.ok(res.status == 403 || res.status == 404, '' + res.status);
+			for(let res of [ up, encoded, slashes, env, git, hidden ]) assert.ok(!res.body.match(/secret|core/));
+			for(let res of [ env, git, hidden ]) assert.strictEqual(res.status, 403);
+
+			assert.deepStrictEqual(JSON.parse(exists.body), {
+				[base + '.env']: null,
+				[base + 'src/main.js']: base + 'src/main.js'
+			});
+		}))
+	}, {
+		name: 'development servers allow other origins only if configured',
+		run: () => withDevServer((base: string) => Promise.all([
+			get(base, '/src/main.js'),
+			get(base, '/missing.js'),
+			get(base, '/.cresolve/events')
+		]).then((resList: Response[]) => {
+			for(let res of resList) {
+				assert.strictEqual(res.headers['access-control-allow-origin'], void 0);
+				assert.strictEqual(res.headers['cache-control'], 'no-cache');
+			}
+
+			assert.strictEqual(resList[0].headers['content-type'], 'application/javascript; charset=utf-8');
+			assert.strictEqual(resList[1].status, 404);
+		})).then(() => withDevServer((base: string) => Promise.all([
+			get(base, '/src/main.js'),
+			get(base, '/.cresolve/events')
+		]).then((resList: Response[]) => {
+			for(let res of resList) {
+				assert.strictEqual(res.headers['access-control-allow-origin'], 'http://localhost:3000');
+			}
+		}), 'http://localhost:3000'))
+	}, {
+		name: 'development servers use only Host headers naming this machine',
+		run: () => withDevServer((base: string) => {
+			const port = base.replace(/^.*:([0-9]+)\/$/, '$1');
+			const getBatch = (host: string) => get(base, '/lib/cresolve-manifest.json', { host }).then(
+				(res: Response) => JSON.parse(res.body).batch
+			);
+
+			return(Promise.all([
+				getBatch('localhost:' + port),
+				getBatch('evil.invalid'),
+				getBatch('evil.invalid:' + port)
+			]).then(([ local, evil, evilPort ]) => {
+				assert.strictEqual(local, base + '.cresolve/exists');
+				assert.ok(!evil.match(/evil/) && !evilPort.match(/evil/));
+				assert.ok(evil.match(/^http:\/\/(127\.0\.0\.1|\[::1\]):[0-9]+\/\.cresolve\/exists$/), evil);
+			}));
+		})
+	}
+];
@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+
+import { DiskCache } from '../dist/DiskCache';
+import { CacheEntry } from '../dist/storage';
+import { TestCase, withTree } from './util';
+
+function entry(url: string, time: number, body?: string): CacheEntry {
+	return({ url, target: url, status: body === void 0 ? 404 : 200, body, time });
+}
+
+export const diskCacheTests: TestCase[] = [
+	{
+		name: 'disk caches store results and keep the last of concurrent writes',
+		run: () => withTree({}, (dir: string) => {
+			const cache = new DiskCache(dir + '/cache');
+			const url = 'https://example.invalid/index.js';
+			const binary = Buffer.from([ 0, 255, 128 ]);
+			const send = (uri: string) => Promise.resolve({ uri, text: binary.toString('utf-8'), data: binary });
+			const writeList: Promise<void>[] = [];
+
+			for(let num = 0; num < 10; ++num) writeList.push(cache.write(entry(url, num, 'version ' + num)));
+
+			return(Promise.all(writeList).then(() => Promise.all([
+				cache.read(url),
+				cache.read('https://example.invalid/missing.js'),
+				cache.request('https://example.invalid/data.bin', false, send)
+			])).then(([ stored, missing ]) => {
+				assert.ok(stored!.body!.match(/^version [0-9]$/));
+				assert.strictEqual(missing, void 0);
+
+				// Binary data is read back from the cache.
+				return(cache.request('https://example.invalid/data.bin', false, () => Promise.reject(new Error('Not cached'))));
+			}).then((result) => {
+				assert.ok(result.data!.equals(binary));
+			}));
+		})
+	}, {
+		name: 'disk cache results expire after their TTL unless versioned',
+		run: () => {
+			const now = new Date().getTime();
+			const cache = new DiskCache('unused', { ttl: 1000 });
+			const permanent = new DiskCache('unused');
+
+			assert.ok(cache.isFresh(entry('https://example.invalid/new.js', now - 500, '')));
+			assert.ok(!cache.isFresh(entry('https://example.invalid/old.js', now - 2000, '')));
+			assert.ok(cache.isFresh(entry('https://cdn.invalid/dep@1.0.0/old.js', now - 2000, '')));
+			assert.ok(permanent.isFresh(entry('https://example.invalid/old.js', 0, '')));
+
+			return(Promise.resolve());
+		}
+	}, {
+		name: 'disk caches list and clear results by prefix',
+		run: () => withTree({}, (dir: string) => {
+			const cache = new DiskCache(dir);
+			const urlList = [
+				'https://example.invalid/lib/b.js',
+				'https://example.invalid/a.js',
+				'https://example.invalid/lib/a.js',
+				'https://example.invalid/library.js'
+			];
+
+			return(Promise.all(urlList.map(
+				(url: string, num: number) => cache.write(entry(url, num))
+			)).then(() => cache.list()).then((entryList: CacheEntry[]) => {
+				assert.deepStrictEqual(entryList.map((entry: CacheEntry) => entry.url), urlList.slice(0).sort());
+				assert.strictEqual(entryList[0].status, 404);
+
+				return(cache.clear('https://example.invalid/lib/'));
+			}).then((count: number) => {
+				assert.strictEqual(count, 2);
+
+				return(cache.remove('https://example.invalid/a.js'));
+			}).then(() => cache.list()).then((entryList: CacheEntry[]) => {
+				assert.deepStrictEqual(entryList.map((entry: CacheEntry) => entry.url), [ 'https://example.invalid/library.js' ]);
+
+				return(cache.clear());
+			}).then((count: number) => {
+				assert.strictEqual(count, 1);
+			}));
+		})
+	}
+];
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as ChildProcess from 'child_process';
+import * as Path from 'path';
+
+import { initialize, resolve, load, ResolveResult, LoadResult } from '../dist/esmLoader';
+import { path2url } from '../dist/fetch';
+import { TestCase, withTree } from './util';
+
+const childProcess: typeof ChildProcess = eval("require('child_process')");
+const path: typeof Path = eval("require('path')");
+
+/** Project importing a CommonJS package without a file extension. */
+
+const projectFiles = {
+	'package.json': '{ "name": "app", "dependencies": { "dep": "^1.0.0" } }',
+	'src/main.mjs': 'import { answer } from "dep";\nimport * as fs from "fs";\nconsole.log(answer + (typeof(fs.readFileSync) == "function" ? 1 : 0));\n',
+	'node_modules/dep/package.json': '{ "name": "dep", "version": "1.0.0", "main": "lib/dep" }',
+	'node_modules/dep/lib/dep.js': 'exports.answer = require("./value");\n',
+	'node_modules/dep/lib/value.js': 'module.exports = 41;\n'
+};
+
+function nextResolve(specifier: string): Promise<ResolveResult> {
+	return(Promise.resolve({ url: 'next:' + specifier }));
+}
+
+function nextLoad(url: string): Promise<LoadResult> {
+	return(Promise.resolve({ format: 'next' }));
+}
+
+export const esmLoaderTests: TestCase[] = [
+	{
+		name: 'ESM loader hooks resolve packages and wrap CommonJS',
+		run: () => withTree(projectFiles, (dir: string) => {
+			const base = path2url(dir) + '/';
+			const context = { conditions: [ 'node', 'import' ], parentURL: base + 'src/main.mjs' };
+
+			initialize({ env: 'development' });
+
+			return(Promise.all([
+				resolve('dep', context, nextResolve),
+				resolve('node:fs', context, nextResolve),
+				load('node:fs', { conditions: [] }, nextLoad)
+			]).then(([ dep, builtin, builtinLoad ]) => {
+				assert.strictEqual(dep.url, base + 'node_modules/dep/lib/dep.js');
+				assert.strictEqual(builtin.url, 'next:node:fs');
+				assert.strictEqual(builtinLoad.format, 'next');
+
+				return(load(dep.url, { conditions: [] }, nextLoad));
+			}).then((result: LoadResult) => {
+				assert.strictEqual(result.format, 'module');
+				assert.ok(result.source!.indexOf('import * as __cresolve0 from ' + JSON.stringify(base + 'node_modules/dep/lib/value.js')) >= 0);
+				assert.ok(result.source!.indexOf('as "answer"') >= 0);
+			}));
+		})
+	}, {
+		name: 'ESM loader registered with --import runs a project',
+		run: () => withTree(projectFiles, (dir: string) => new Promise((resolve: (output: string) => void, reject) => childProcess.execFile(
+			process.execPath,
+			[ '--import', path2url(path.resolve(__dirname, '../dist/register.js')), 'src/main.mjs' ],
+			{ cwd: dir, timeout: 60000 },
+			(err: Error | null, stdout: string | Buffer, stderr: string | Buffer) => err ? reject(new Error(err.message + stderr)) : resolve('' + stdout)
+		)).then((output: string) => {
+			assert.strictEqual(output, '42\n');
+		}))
+	}
+];
@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import * as SystemType from 'systemjs';
+
+import { Resolver } from '../dist/Resolver';
+import { ifExists, fetch, path2url } from '../dist/fetch';
+import { TestCase, withTree, rejects } from './util';
+
+const System: typeof SystemType = eval("require('systemjs')");
+
+/** TypeScript project importing files and a package without extensions. */
+
+const projectFiles = {
+	'package.json': '{ "name": "app", "dependencies": { "dep": "^1.0.0" } }',
+	'src/main.ts': '',
+	'src/both.ts': '',
+	'src/both.js': '',
+	'src/view.tsx': '',
+	'src/plain.js': '',
+	'src/lib/index.ts': '',
+	'src/old/index.js': '',
+	'node_modules/dep/package.json': '{ "name": "dep", "version": "1.0.0", "main": "lib/main" }',
+	'node_modules/dep/lib/main.mjs': '',
+	'node_modules/dep/sub/index.js': ''
+};
+
+export const extensionTests: TestCase[] = [
+	{
+		name: 'extensions and index files are tried in the configured order',
+		run: () => withTree(projectFiles, (dir: string) => {
+			const root = path2url(dir);
+			const main = root + '/src/main.ts';
+			const resolver = new Resolver(ifExists, fetch, void 0, {
+				extensions: [ '.ts', '.tsx', '.mjs', '.js' ],
+				indexFiles: [ 'index.ts', 'index.js' ]
+			});
+
+			return(Promise.all([
+				resolver.resolve('./both', main),
+				resolver.resolve('./view', main),
+				resolver.resolve('./plain', main),
+				resolver.resolve('./lib', main),
+				resolver.resolve('./old', main),
+				resolver.resolve('./both.js', main),
+				resolver.resolve('dep', main),
+				resolver.resolve('dep/sub', main)
+			]).then((resolvedList: string[]) => {
+				const config = resolver.systemConfig;
+
+				assert.deepStrictEqual(resolvedList.map((uri: string) => uri.substr(root.length + 1)), [
+					'src/both.ts',
+					'src/view.tsx',
+					'src/plain.js',
+					'src/lib/index.ts',
+					'src/old/index.js',
+					'src/both.js',
+					'node_modules/dep/lib/main.mjs',
+					'node_modules/dep/sub/index.js'
+				]);
+
+				// The first extension is the default.
+				assert.strictEqual(config.packages[root + '/node_modules'].defaultExtension, 'ts');
+
+				// Files found are written as explicit mappings.
+				assert.strictEqual(config.packages.dep.main, 'lib/main.mjs');
+				assert.strictEqual(config.packages.dep.map!['./sub'], './sub/index.js');
+				assert.strictEqual(config.packages.app.map!['./src/lib'], './src/lib/index.ts');
+				assert.strictEqual(config.packages.app.map!['./src/view'], './src/view.tsx');
+			}));
+		})
+	}, {
+		name: 'only .js files and index.js are tried by default',
+		run: () => withTree(projectFiles, (dir: string) => {
+			const main = path2url(dir) + '/src/main.ts';
+			const resolver = new Resolver(ifExists, fetch);
+
+			return(Promise.all([
+				resolver.resolve('./both', main),
+				resolver.resolve('./old', main),
+				rejects(resolver.resolve('./lib', main)),
+				rejects(resolver.resolve('./view', main))
+			]).then(([ both, old ]) => {
+				assert.strictEqual(both, path2url(dir) + '/src/both.js');
+				assert.strictEqual(old, path2url(dir) + '/src/old/index.js');
+				assert.strictEqual(resolver.systemConfig.packages[path2url(dir) + '/node_modules'], void 0);
+			}));
+		})
+	}, {
+		name: 'patched SystemJS loads files found with other extensions',
+		run: () => withTree({
+			'package.json': '{ "name": "app", "dependencies": { "dep": "^1.0.0" } }',
+			'src/main.js': 'module.exports = require("./util") + require("./lib") + require("dep");\n',
+			'src/util.cjs': 'module.exports = 1;\n',
+			'src/lib/index.cjs': 'module.exports = 10;\n',
+			'node_modules/dep/package.json': '{ "name": "dep", "version": "1.0.0", "main": "main" }',
+			'node_modules/dep/main.cjs': 'module.exports = 100;\n'
+		}, (dir: string) => {
+			const system = new System.constructor();
+			const resolver = new Resolver(ifExists, fetch, void 0, {
+				extensions: [ '.js', '.cjs' ],
+				indexFiles: [ 'index.js', 'index.cjs' ]
+			});
+
+			resolver.patchSystem(system);
+
+			return(system.import(path2url(dir) + '/src/main.js').then((value: number) => {
+				assert.strictEqual(value, 111);
+			}));
+		})
+	}
+];
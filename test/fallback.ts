@@ -0,0 +1,156 @@
+import * as assert from 'assert';
+import * as HTTP from 'http';
+
+import { Resolver } from '../dist/Resolver';
+import { ifExists, fetch, path2url } from '../dist/fetch';
+import { createProvider } from '../dist/FallbackProvider';
+import { Trace } from '../dist/Trace';
+import { ConfigLoader } from '../dist/Loader';
+import { SystemConfig } from '../dist/Resolver';
+import { TestCase, withServer, withTree, after, rejects } from './util';
+
+/** Package metadata served by the stand-in registry. */
+
+const registryTbl: { [name: string]: any } = {
+	dep: {
+		'dist-tags': { latest: '2.0.0' },
+		versions: { '1.2.0': {}, '1.9.0': {}, '1.10.0': {}, '1.11.0-beta.1': {}, '2.0.0': {} }
+	},
+	tagged: {
+		'dist-tags': { latest: '1.0.0', next: '2.0.0-rc.1' },
+		versions: { '1.0.0': {}, '2.0.0-rc.1': {} }
+	},
+	old: {
+		'dist-tags': { latest: '1.0.0' },
+		versions: { '1.0.0': {} }
+	}
+};
+
+/** Files served by the stand-in fallback providers. */
+
+const cdnTbl: { [path: string]: string } = {
+	'/second/dep@1.10.0/package.json': '{ "name": "dep", "version": "1.10.0", "main": "lib/main.js" }',
+	'/second/dep@1.10.0/lib/main.js': 'export default 1;\n',
+	'/first/tagged@2.0.0-rc.1/package.json': '{ "name": "tagged", "version": "2.0.0-rc.1" }',
+	'/first/tagged@2.0.0-rc.1/index.js': 'export default 2;\n'
+};
+
+/** Project depending on a package missing locally. */
+
+const projectFiles = {
+	'package.json': '{ "name": "app", "dependencies": { "dep": ">=1.2 <2" } }',
+	'src/main.js': 'import dep from "dep";\n'
+};
+
+function getProviders(base: string) {
+	return([
+		createProvider('first', base + 'first/{name}@{version}'),
+		createProvider('second', base + 'second/{name}@{version}')
+	]);
+}
+
+/** Serve registry metadata and package files,
+  * logging registry requests with their Accept headers. */
+
+function createServer(log: string[] = []) {
+	return((req: HTTP.IncomingMessage, res: HTTP.ServerResponse) => {
+		const url = req.url || '';
+		const isMeta = url.substr(0, 5) == '/npm/';
+		const meta = isMeta && registryTbl[decodeURIComponent(url.substr(5))];
+		const body = meta ? JSON.stringify(meta) : cdnTbl[url];
+
+		if(isMeta) log.push(url + ' ' + req.headers.accept);
+
+		res.writeHead(body ? 200 : 404, { 'Content-Type': 'application/javascript' });
+		res.end(req.method == 'HEAD' ? void 0 : body);
+	});
+}
+
+export const fallbackTests: TestCase[] = [
+	{
+		name: 'missing packages are loaded from the first fallback provider having them',
+		run: () => withServer(createServer(), (base: string) => withTree(projectFiles, (dir: string) => {
+			const traceList: Trace[] = [];
+			const resolver = new Resolver(ifExists, fetch, void 0, {
+				registry: base + 'npm/',
+				fallbacks: getProviders(base),
+				onTrace: (trace: Trace) => traceList.push(trace)
+			});
+
+			return(resolver.resolve('dep', path2url(dir) + '/src/main.js').then((uri: string) => {
+				const root = base + 'second/dep@1.10.0';
+
+				assert.strictEqual(uri, root + '/lib/main.js');
+				assert.deepStrictEqual(resolver.systemConfig.sources, { [root]: 'second' });
+				assert.ok(traceList[0].steps.some((step) => step.type == 'fallback' && step.version == '1.10.0'));
+			}));
+		}))
+	}, {
+		name: 'sources of packages found in workers reach the UI thread but not loaders',
+		run: () => withServer(createServer(), (base: string) => withTree(projectFiles, (dir: string) => {
+			const ui = new Resolver(ifExists, fetch);
+			const port = ui.getHost().createPort();
+			const worker = new Resolver(ifExists, fetch, void 0, { registry: base + 'npm/', fallbacks: getProviders(base) });
+			const loader = new ConfigLoader();
+			const loaderConfigList: SystemConfig[] = [];
+			const config = loader.config;
+
+			loader.config = (sent: SystemConfig) => {
+				loaderConfigList.push(sent);
+				config.call(loader, sent);
+			};
+
+			worker.attach(loader);
+			worker.setPort(port);
+
+			return(after(worker.resolve('dep', path2url(dir) + '/src/main.js').then(
+				() => new Promise((resolve: () => void) => setTimeout(resolve, 50))
+			).then(() => {
+				const root = base + 'second/dep@1.10.0';
+
+				assert.deepStrictEqual(worker.systemConfig.sources, { [root]: 'second' });
+				assert.deepStrictEqual(ui.systemConfig.sources, { [root]: 'second' });
+				assert.strictEqual(ui.systemConfig.map['dep'], root);
+				assert.ok(!loaderConfigList.some((sent: any) => !!sent.sources));
+			}), () => port.close()));
+		}))
+	}, {
+		name: 'versions of missing packages match ranges using abbreviated registry metadata',
+		run: () => {
+			const log: string[] = [];
+
+			return(withServer(createServer(log), (base: string) => withTree({
+				'package.json': '{ "name": "app", "dependencies": { "dep": "^1.9.0", "tagged": "next", "old": "^3.0.0", "missing": "^1.0.0" } }',
+				'src/main.js': ''
+			}, (dir: string) => {
+				const parent = path2url(dir) + '/src/main.js';
+				const accept = 'application/vnd.npm.install-v1+json';
+				const createResolver = () => new Resolver(ifExists, fetch, void 0, { registry: base + 'npm/', fallbacks: getProviders(base) });
+				const resolver = createResolver();
+
+				return(Promise.all([
+					resolver.resolve('dep', parent),
+					resolver.resolve('tagged', parent),
+					rejects(resolver.resolve('old', parent)),
+					rejects(resolver.resolve('missing', parent))
+				]).then(([ dep, tagged, old, missing ]) => {
+					assert.strictEqual(dep, base + 'second/dep@1.10.0/lib/main.js');
+					assert.strictEqual(tagged, base + 'first/tagged@2.0.0-rc.1/index.js');
+					assert.strictEqual(old.message, 'No version of package old matches range: ^3.0.0');
+					assert.ok(/^Cannot fetch package metadata: missing \(HTTP status 404/.test(missing.message));
+
+					// Metadata is not kept between resolvers, since new versions get published.
+					return(createResolver().resolve('dep', parent));
+				}).then(() => {
+					assert.deepStrictEqual(log.sort(), [
+						'/npm/dep ' + accept,
+						'/npm/dep ' + accept,
+						'/npm/missing ' + accept,
+						'/npm/old ' + accept,
+						'/npm/tagged ' + accept
+					]);
+				}));
+			})));
+		}
+	}
+];
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import * as SystemType from 'systemjs';
+
+import { Resolver } from '../dist/Resolver';
+import { ifExists, fetch, path2url } from '../dist/fetch';
+import { TestCase, withTree, rejects } from './util';
+
+const System: typeof SystemType = eval("require('systemjs')");
+
+/** Project with a package using Node.js globals and a Buffer polyfill.
+  *
+  * @param polyfill Source code of the polyfill. */
+
+function getProjectFiles(polyfill: string) {
+	return({
+		'package.json': '{ "name": "app", "dependencies": { "dep": "^1.0.0", "buffer": "^1.0.0" } }',
+		'src/main.js': 'module.exports = require("dep");\n',
+		'node_modules/dep/package.json': '{ "name": "dep", "version": "1.0.0" }',
+		'node_modules/dep/index.js': 'module.exports = [ Buffer.name, process.browser, process.env.API_URL, typeof(global) ];\n',
+		'node_modules/buffer/package.json': '{ "name": "buffer", "version": "1.0.0" }',
+		'node_modules/buffer/index.js': polyfill
+	});
+}
+
+/** Patch a new SystemJS 0.21 instance using a resolver with Node.js
+  * globals enabled. */
+
+function createSystem() {
+	const system = new System.constructor();
+	const resolver = new Resolver(ifExists, fetch, void 0, {
+		env: { API_URL: 'https://example.invalid/api' },
+		globals: { global: true, Buffer: true }
+	});
+
+	resolver.patchSystem(system, 'development');
+
+	return({ system, resolver });
+}
+
+export const globalTests: TestCase[] = [
+	{
+		name: 'Node.js globals are injected into packages without changing the real global object',
+		run: () => withTree(getProjectFiles('exports.Buffer = function FakeBuffer() {};\n'), (dir: string) => {
+			const { system, resolver } = createSystem();
+			const modulesGlob = path2url(dir) + '/node_modules/*';
+			const hostBuffer = Buffer;
+
+			return(system.import(path2url(dir) + '/src/main.js').then((value: any) => {
+				assert.deepStrictEqual(value, [ 'FakeBuffer', true, 'https://example.invalid/api', 'object' ]);
+				assert.deepStrictEqual(resolver.systemConfig.meta[modulesGlob].globals, {
+					process: 'global:process',
+					Buffer: 'global:Buffer'
+				});
+
+				assert.strictEqual(system.registry.get('global:global').default, global);
+				assert.strictEqual(Buffer, hostBuffer);
+			}));
+		})
+	}, {
+		name: 'Buffer polyfills without a Buffer export are reported',
+		run: () => withTree(getProjectFiles('module.exports = {};\n'), (dir: string) => {
+			const { system } = createSystem();
+
+			return(rejects(system.import(path2url(dir) + '/src/main.js')).then((err: Error) => {
+				assert.ok(/does not export Buffer/.test(err.message));
+			}));
+		})
+	}
+];
@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+import * as SystemType from 'systemjs';
+
+import { Resolver } from '../dist/Resolver';
+import { ifExists, fetch, path2url } from '../dist/fetch';
+import { buildGraph, graphToDot, GraphEdge, GraphModule, GraphPackage, ImportRecord } from '../dist/graph';
+import { TestCase, withTree } from './util';
+
+const System: typeof SystemType = eval("require('systemjs')");
+
+const base = 'https://example.invalid';
+const depRoot = base + '/node_modules/dep';
+
+const dep: GraphPackage = {
+	name: 'dep',
+	version: '1.0.0',
+	root: depRoot,
+	source: 'local',
+	browser: { './server.js': './client.js', 'fs': false }
+};
+
+/** Imports of an app and a package remapping files and a core module. */
+
+const importList: ImportRecord[] = [
+	{ name: base + '/src/main.js', parentAddress: '', uri: base + '/src/main.js', remaps: [] },
+	{ name: 'dep', parentAddress: base + '/src/main.js', uri: depRoot + '/index.js', remaps: [] },
+	{ name: './server', parentAddress: depRoot + '/index.js', uri: depRoot + '/client.js', remaps: [] },
+	{ name: 'fs', parentAddress: depRoot + '/index.js', uri: '@empty', remaps: [] }
+];
+
+/** Find an edge by the path in the import statement. */
+
+function findEdge(edgeList: GraphEdge[], name: string) {
+	return(edgeList.filter((edge: GraphEdge) => edge.name == name)[0]);
+}
+
+export const graphTests: TestCase[] = [
+	{
+		name: 'module graphs group modules by package and mark browser field remappings',
+		run: () => {
+			const graph = buildGraph(importList, (uri: string) => uri.substr(0, depRoot.length + 1) == depRoot + '/' ? dep : void 0);
+
+			assert.deepStrictEqual(graph.modules, [
+				{ uri: base + '/src/main.js', source: 'local' },
+				{ uri: depRoot + '/index.js', package: 'dep', version: '1.0.0', root: depRoot, source: 'local' },
+				{ uri: depRoot + '/client.js', package: 'dep', version: '1.0.0', root: depRoot, source: 'local' },
+				{ uri: '@empty', source: 'local' }
+			]);
+
+			assert.deepStrictEqual(graph.edges.map((edge: GraphEdge) => edge.browser), [ false, true, true ]);
+
+			assert.strictEqual(graphToDot(graph), [
+				'digraph modules {',
+				'\tnode [shape=box];',
+				'\t"' + base + '/src/main.js";',
+				'\t"@empty";',
+				'\tsubgraph "cluster_0" {',
+				'\t\tlabel="dep@1.0.0 (local)";',
+				'\t\t"' + depRoot + '/index.js" [label="index.js"];',
+				'\t\t"' + depRoot + '/client.js" [label="client.js"];',
+				'\t}',
+				'\t"' + base + '/src/main.js" -> "' + depRoot + '/index.js" [label="dep"];',
+				'\t"' + depRoot + '/index.js" -> "' + depRoot + '/client.js" [label="./server", style=dashed];',
+				'\t"' + depRoot + '/index.js" -> "@empty" [label="fs", style=dashed];',
+				'}',
+				''
+			].join('\n'));
+
+			return(Promise.resolve());
+		}
+	}, {
+		name: 'resolvers record graphs of imports between modules and packages',
+		run: () => withTree({
+			'package.json': '{ "name": "app", "dependencies": { "dep": "^1.0.0" } }',
+			'src/main.js': 'module.exports = require("dep") + require("./util");\n',
+			'src/util.js': 'module.exports = 1;\n',
+			'node_modules/dep/package.json': '{ "name": "dep", "version": "1.0.0", "browser": { "./server.js": "./client.js" } }',
+			'node_modules/dep/index.js': 'module.exports = require("./server");\n',
+			'node_modules/dep/server.js': 'module.exports = 0;\n',
+			'node_modules/dep/client.js': 'module.exports = 2;\n'
+		}, (dir: string) => {
+			const system = new System.constructor();
+			const resolver = new Resolver(ifExists, fetch);
+			const root = path2url(dir);
+			const main = root + '/src/main.js';
+
+			resolver.patchSystem(system);
+
+			return(system.import(main).then((value: number) => {
+				const graph = resolver.getGraph();
+				const moduleTbl: { [uri: string]: GraphModule } = {};
+
+				assert.strictEqual(value, 3);
+
+				for(let module of graph.modules) moduleTbl[module.uri] = module;
+
+				assert.strictEqual(moduleTbl[main].package, 'app');
+				assert.strictEqual(moduleTbl[root + '/node_modules/dep/client.js'].package, 'dep');
+				assert.strictEqual(moduleTbl[root + '/node_modules/dep/client.js'].version, '1.0.0');
+				assert.strictEqual(moduleTbl[root + '/node_modules/dep/client.js'].source, 'local');
+				assert.strictEqual(moduleTbl[root + '/node_modules/dep/server.js'], void 0);
+
+				assert.deepStrictEqual(findEdge(graph.edges, 'dep'), {
+					from: main,
+					to: root + '/node_modules/dep/index.js',
+					name: 'dep',
+					browser: false,
+					remaps: []
+				});
+
+				assert.strictEqual(findEdge(graph.edges, './util').to, root + '/src/util.js');
+				assert.strictEqual(findEdge(graph.edges, './server').to, root + '/node_modules/dep/client.js');
+				assert.strictEqual(findEdge(graph.edges, './server').browser, true);
+
+				assert.ok(graphToDot(graph).indexOf('label="dep@1.0.0 (local)"') >= 0);
+
+				return(Promise.all([
+					resolver.resolve('./util', main),
+					resolver.resolve('./util', main),
+					resolver.resolve('./util.js', main)
+				]));
+			}).then(() => {
+				const edgeList = resolver.getGraph().edges.filter((edge: GraphEdge) => edge.to == root + '/src/util.js');
+
+				// Imports resolved again replace earlier records.
+				assert.deepStrictEqual(edgeList.map((edge: GraphEdge) => edge.name).sort(), [ './util', './util.js' ]);
+			}));
+		})
+	}
+];
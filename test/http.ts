@@ -0,0 +1,198 @@
+import * as assert from 'assert';
+import * as HTTP from 'http';
+import * as Net from 'net';
+import * as Zlib from 'zlib';
+
+import { request } from '../dist/fetch';
+import { RequestError } from '../dist/rpc';
+import { RequestResult } from '../dist/storage';
+import { TestCase, withServer, rejects } from './util';
+
+const zlib: typeof Zlib = eval("require('zlib')");
+
+const hasBrotli = typeof(zlib.createBrotliDecompress) == 'function';
+
+const text = 'export default "ä";\n';
+
+/** Bytes not forming valid UTF-8. */
+const binary = Buffer.from([ 0, 0x80, 0xff, 0xfe, 10, 13, 0x1f, 0x8b ]);
+
+/** Serve test responses by path, counting requests and recording
+  * Accept-Encoding headers. */
+
+function createServer(countTbl: { [path: string]: number }, acceptList: string[]) {
+	return((req: HTTP.IncomingMessage, res: HTTP.ServerResponse) => {
+		const url = req.url || '';
+		const count = countTbl[url] = (countTbl[url] || 0) + 1;
+
+		acceptList.push('' + req.headers['accept-encoding']);
+
+		switch(url) {
+			case '/flaky.js':
+				if(count < 3) {
+					res.writeHead(500);
+					return(res.end());
+				}
+
+				res.writeHead(200, { 'Content-Type': 'application/javascript' });
+				return(res.end(text));
+
+			case '/down.js':
+				res.writeHead(503);
+				return(res.end());
+
+			case '/loop.js':
+				res.writeHead(302, { 'Location': '/loop.js' });
+				return(res.end());
+
+			case '/old.js':
+				res.writeHead(301, { 'Location': '/flaky.js' });
+				return(res.end());
+
+			case '/index.html':
+				res.writeHead(200, { 'Content-Type': 'text/html' });
+				return(res.end('<html></html>'));
+
+			case '/hang.js':
+				// Never respond.
+				return;
+
+			case '/gzip.js':
+				res.writeHead(200, { 'Content-Encoding': 'gzip' });
+				return(res.end(zlib.gzipSync(text)));
+
+			case '/deflate.js':
+				res.writeHead(200, { 'Content-Encoding': 'deflate' });
+				return(res.end(zlib.deflateSync(text)));
+
+			case '/br.js':
+				res.writeHead(200, { 'Content-Encoding': 'br' });
+				return(res.end((zlib as any).brotliCompressSync(text)));
+
+			case '/broken.js':
+				res.writeHead(200, { 'Content-Encoding': 'gzip' });
+				return(res.end(text));
+
+			case '/binary.bin':
+				res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+				return(res.end(binary));
+
+			default:
+				res.writeHead(404);
+				return(res.end());
+		}
+	});
+}
+
+export const httpTests: TestCase[] = [
+	{
+		name: 'HTTP requests are tried again only after server errors',
+		run: () => {
+			const countTbl: { [path: string]: number } = {};
+			const options = { retries: 2, retryDelay: 1, proxy: false as false };
+
+			return(withServer(createServer(countTbl, []), (base: string) => request(
+				base + 'old.js', false, options
+			).then((result: RequestResult) => {
+				assert.strictEqual(result.uri, base + 'flaky.js');
+				assert.strictEqual(result.text, text);
+				assert.strictEqual(countTbl['/flaky.js'], 3);
+
+				return(rejects(request(base + 'down.js', false, options)));
+			}).then((err: RequestError) => {
+				assert.strictEqual(err.code, 'status');
+				assert.strictEqual(err.status, 503);
+				assert.strictEqual(countTbl['/down.js'], 3);
+
+				return(rejects(request(base + 'missing.js', true, options)));
+			}).then((err: RequestError) => {
+				assert.strictEqual(err.status, 404);
+				assert.strictEqual(countTbl['/missing.js'], 1);
+
+				// HTML in response to HEAD requests counts as missing.
+				return(rejects(request(base + 'index.html', true, options)));
+			}).then((err: RequestError) => {
+				assert.strictEqual(err.status, 404);
+			})));
+		}
+	}, {
+		name: 'HTTP requests that cannot succeed fail without trying again',
+		run: () => {
+			const countTbl: { [path: string]: number } = {};
+			const options = { retries: 2, retryDelay: 1000, maxRedirects: 2, proxy: false as false };
+			const start = new Date().getTime();
+
+			return(withServer(createServer(countTbl, []), (base: string) => rejects(
+				request(base + 'loop.js', false, options)
+			).then((err: RequestError) => {
+				assert.strictEqual(err.code, 'invalid');
+				assert.strictEqual(countTbl['/loop.js'], 3);
+
+				return(rejects(request('ftp://localhost/a.js', false, options)));
+			}).then((err: RequestError) => {
+				assert.strictEqual(err.code, 'invalid');
+				assert.ok(new Date().getTime() - start < 1000);
+			})));
+		}
+	}, {
+		name: 'HTTP requests time out',
+		run: () => withServer(createServer({}, []), (base: string) => rejects(
+			request(base + 'hang.js', false, { readTimeout: 50, retries: 0, proxy: false })
+		).then((err: RequestError) => {
+			assert.strictEqual(err.code, 'timeout');
+			assert.strictEqual(err.url, base + 'hang.js');
+		}))
+	}, {
+		name: 'HTTP responses are decompressed and binary data is kept',
+		run: () => {
+			const acceptList: string[] = [];
+			const options = { retries: 0, proxy: false as false };
+
+			return(withServer(createServer({}, acceptList), (base: string) => Promise.all(
+				[ 'gzip.js', 'deflate.js' ].concat(hasBrotli ? [ 'br.js' ] : []).map(
+					(name: string) => request(base + name, false, options)
+				).concat(request(base + 'binary.bin', false, options))
+			).then((resultList: RequestResult[]) => {
+				const bin = resultList.pop()!;
+
+				for(let result of resultList) assert.strictEqual(result.text, text);
+				assert.ok(binary.equals(bin.data!));
+				assert.strictEqual(acceptList[0], 'gzip, deflate' + (hasBrotli ? ', br' : ''));
+
+				return(rejects(request(base + 'broken.js', false, options)));
+			}).then((err: RequestError) => {
+				assert.strictEqual(err.code, 'network');
+			})));
+		}
+	}, {
+		name: 'HTTP requests go through proxies',
+		run: () => {
+			const headerList: HTTP.IncomingHttpHeaders[] = [];
+
+			return(withServer((req: HTTP.IncomingMessage, res: HTTP.ServerResponse) => {
+				headerList.push(req.headers);
+				res.writeHead(200);
+				res.end('proxied ' + req.url);
+			}, (base: string, server: HTTP.Server) => {
+				const proxy = base.replace(/^http:\/\//, 'http://user:pa%20ss@');
+
+				server.on('connect', (req: HTTP.IncomingMessage, socket: Net.Socket) => {
+					headerList.push(req.headers);
+					socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+				});
+
+				return(request('http://example.invalid/a.js', false, { proxy, retries: 0 }).then((result: RequestResult) => {
+					assert.strictEqual(result.text, 'proxied http://example.invalid/a.js');
+					assert.strictEqual(headerList[0].host, 'example.invalid');
+					assert.strictEqual(headerList[0]['proxy-authorization'], 'Basic ' + Buffer.from('user:pa ss').toString('base64'));
+
+					return(rejects(request('https://example.invalid/a.js', false, { proxy, retries: 0 })));
+				}).then((err: RequestError) => {
+					assert.strictEqual(err.code, 'network');
+					assert.ok(err.message.indexOf('status 403') >= 0);
+					assert.strictEqual(headerList[1].host, 'example.invalid:443');
+				}));
+			}));
+		}
+	}
+];
@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+
+import { Resolver } from '../dist/Resolver';
+import { ifExists, fetch, path2url } from '../dist/fetch';
+import { buildImportMap } from '../dist/importMap';
+import { TestCase, withTree } from './util';
+
+/** Project with a browser field, a directory import and two versions
+  * of the same package. */
+
+const projectFiles = {
+	'package.json': '{ "name": "app", "dependencies": { "dep": "^1.0.0", "other": "^1.0.0" } }',
+	'src/main.js': '',
+	'src/lib/index.js': '',
+	'node_modules/dep/package.json': '{ "name": "dep", "version": "1.0.0", "browser": { "./server.js": "./client.js", "fs": false } }',
+	'node_modules/dep/index.js': '',
+	'node_modules/dep/server.js': '',
+	'node_modules/dep/client.js': '',
+	'node_modules/other/package.json': '{ "name": "other", "version": "1.0.0", "main": "lib/other", "dependencies": { "dep": "^2.0.0" } }',
+	'node_modules/other/lib/other.js': '',
+	'node_modules/other/node_modules/dep/package.json': '{ "name": "dep", "version": "2.0.0" }',
+	'node_modules/other/node_modules/dep/index.js': ''
+};
+
+export const importMapTests: TestCase[] = [
+	{
+		name: 'import maps list package entry points, remapped files and nested copies in scopes',
+		run: () => withTree(projectFiles, (dir: string) => {
+			const root = path2url(dir);
+			const main = root + '/src/main.js';
+			const resolver = new Resolver(ifExists, fetch);
+			const warnList: string[] = [];
+
+			return(Promise.all([
+				resolver.resolve('dep', main),
+				resolver.resolve('dep/server', main),
+				resolver.resolve('./lib', main),
+				resolver.resolve('other', main),
+				resolver.resolve('dep', root + '/node_modules/other/lib/other.js')
+			]).then((resolvedList: string[]) => {
+				const importMap = resolver.getImportMap((message: string) => warnList.push(message));
+				const imports = importMap.imports;
+
+				assert.strictEqual(resolvedList[1], root + '/node_modules/dep/client.js');
+
+				assert.strictEqual(imports['dep'], root + '/node_modules/dep/index.js');
+				assert.strictEqual(imports['dep/'], root + '/node_modules/dep/');
+				assert.strictEqual(imports['other'], root + '/node_modules/other/lib/other.js');
+
+				// Browser field replacements, also after adding an extension.
+				assert.strictEqual(imports['dep/server'], root + '/node_modules/dep/client.js');
+				assert.strictEqual(imports['dep/server.js'], root + '/node_modules/dep/client.js');
+				assert.strictEqual(imports[root + '/node_modules/dep/server.js'], root + '/node_modules/dep/client.js');
+
+				// Directory imports point to index files.
+				assert.strictEqual(imports[root + '/src/lib'], root + '/src/lib/index.js');
+
+				assert.deepStrictEqual(importMap.scopes, {
+					[root + '/node_modules/other/']: {
+						'dep': root + '/node_modules/other/node_modules/dep/index.js',
+						'dep/': root + '/node_modules/other/node_modules/dep/'
+					}
+				});
+
+				assert.ok(warnList.some((message: string) => /meta configuration for \*\.json/.test(message)));
+				assert.ok(warnList.indexOf('Import maps cannot map fs to an empty module in package dep') >= 0);
+			}));
+		})
+	}, {
+		name: 'import maps resolve mappings to other packages and report unresolved ones',
+		run: () => {
+			const warnList: string[] = [];
+			const importMap = buildImportMap({
+				map: { a: 'https://cdn.invalid/a@1.0.0', b: 'https://cdn.invalid/b@1.0.0' },
+				meta: {},
+				packages: {
+					a: { main: 'index.js', map: { 'c': 'b/lib/c', 'd': 'missing', './x': 'b' } },
+					b: { main: './main.js' }
+				}
+			}, [
+				{ name: 'a', root: 'https://cdn.invalid/a@1.0.0', key: 'a' },
+				{ name: 'b', root: 'https://cdn.invalid/b@1.0.0', key: 'b' }
+			], (message: string) => warnList.push(message));
+
+			assert.deepStrictEqual(importMap, {
+				imports: {
+					'a': 'https://cdn.invalid/a@1.0.0/index.js',
+					'a/': 'https://cdn.invalid/a@1.0.0/',
+					'b': 'https://cdn.invalid/b@1.0.0/main.js',
+					'b/': 'https://cdn.invalid/b@1.0.0/',
+					'https://cdn.invalid/a@1.0.0/x': 'https://cdn.invalid/b@1.0.0/main.js'
+				},
+				scopes: {
+					'https://cdn.invalid/a@1.0.0/': {
+						'c': 'https://cdn.invalid/b@1.0.0/lib/c.js'
+					}
+				}
+			});
+
+			assert.deepStrictEqual(warnList, [ 'Import maps cannot map d to unresolved missing in package a' ]);
+
+			return(Promise.resolve());
+		}
+	}
+];
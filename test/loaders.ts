@@ -0,0 +1,177 @@
+import * as assert from 'assert';
+import * as SystemType from 'systemjs';
+
+import { Resolver } from '../dist/Resolver';
+import { ConfigLoader } from '../dist/Loader';
+import { SystemJS6Loader, ModuleShimsLoader } from '../dist/adapters';
+import { ifExists, fetch, path2url } from '../dist/fetch';
+import { TestCase, withTree } from './util';
+
+const System: typeof SystemType = eval("require('systemjs')");
+
+const base = 'file:///app/';
+const depRoot = base + 'node_modules/dep';
+
+/** Configuration like the resolver generates, using all features
+  * interpreted by ConfigLoader. */
+
+const loaderConfig: any = {
+	map: {
+		'dep': depRoot,
+		'dep/x': base + 'x.js',
+		'empty': '@empty'
+	},
+	meta: {},
+	packages: {
+		[depRoot]: {
+			main: './lib/index.js',
+			defaultExtension: 'js',
+			map: {
+				'./a': './b',
+				'./lib/y.js': './lib/z.js',
+				'./lib': './lib/index.js',
+				'./server': './server.js',
+				'./server.js': './client.js',
+				'fs': './fs.js',
+				'other': 'dep/other',
+				'none': '@empty'
+			},
+			meta: { '*.json': {} }
+		},
+		[base + 'lib']: {
+			map: { fs: './fs.js' }
+		}
+	}
+};
+
+/** Imports and their parent addresses to resolve. */
+
+const importList: [ string, string | undefined ][] = [
+	[ 'dep', void 0 ],
+	[ 'dep/a', void 0 ],
+	[ 'dep/lib/y', void 0 ],
+	[ 'dep/lib/util', void 0 ],
+	[ 'dep/server', void 0 ],
+	[ 'dep/server.js', void 0 ],
+	[ 'dep/data.json', void 0 ],
+	[ 'dep/x', void 0 ],
+	[ 'empty', void 0 ],
+	[ './q', base + 'lib/index.js' ],
+	[ '../up.js', base + 'lib/index.js' ],
+	[ 'fs', base + 'lib/index.js' ],
+	[ 'fs', depRoot + '/lib/index.js' ],
+	[ 'other', depRoot + '/index.js' ],
+	[ 'none', depRoot + '/index.js' ],
+	[ 'dep', base + 'lib/index.js' ]
+];
+
+/** Project with a package for resolvers attached to adapters. */
+
+const projectFiles = {
+	'package.json': '{ "name": "app", "dependencies": { "dep": "^1.0.0" } }',
+	'src/main.js': 'import dep from "dep";\n',
+	'node_modules/dep/package.json': '{ "name": "dep", "version": "1.0.0", "main": "lib/dep.js" }',
+	'node_modules/dep/lib/dep.js': 'module.exports = 41;\n'
+};
+
+/** Minimal SystemJS 6.x registry, resolving only names in an import map. */
+
+function createSystem6(importMap: { [name: string]: string }) {
+	const registry: { [uri: string]: any } = {};
+
+	return({
+		registry,
+		resolve: (name: string, parentAddress?: string) => {
+			if(!importMap[name]) throw(new Error('Unmapped: ' + name));
+			return(importMap[name]);
+		},
+		set: (uri: string, value: any) => { registry[uri] = value; },
+		has: (uri: string) => registry.hasOwnProperty(uri),
+		import: (uri: string) => Promise.resolve(registry[uri]),
+		delete: (uri: string) => { delete registry[uri]; }
+	});
+}
+
+export const loaderTests: TestCase[] = [
+	{
+		name: 'configuration loaders resolve imports like SystemJS 0.21',
+		run: () => {
+			const system = new System.constructor();
+			const loader = new ConfigLoader(base);
+
+			system.config({ baseURL: base });
+			system.config(loaderConfig);
+			loader.config(loaderConfig);
+
+			for(let [ name, parentAddress ] of importList) {
+				assert.strictEqual(
+					loader.resolveSync(name, parentAddress),
+					system.resolveSync(name, parentAddress),
+					name + ' from ' + parentAddress
+				);
+			}
+
+			// Removing configuration forgets mappings.
+			loader.unconfig({ map: { 'dep/x': '' }, packages: {} });
+			assert.strictEqual(loader.resolveSync('dep/x'), depRoot + '/x.js');
+
+			return(Promise.resolve());
+		}
+	}, {
+		name: 'SystemJS 6 adapters resolve names outside import maps using the resolver',
+		run: () => withTree(projectFiles, (dir: string) => {
+			const parent = path2url(dir) + '/src/main.js';
+			const system = createSystem6({ mapped: 'https://example.invalid/mapped.js' });
+			const resolver = new Resolver(ifExists, fetch);
+			const loader = new SystemJS6Loader(system, path2url(dir) + '/').patch(resolver);
+
+			assert.ok(system.has(SystemJS6Loader.emptyURL));
+			loader.define('global:cresolveTestValue', 42);
+			loader.define('defined', 1);
+
+			assert.strictEqual((global as any).cresolveTestValue, 42);
+			delete (global as any).cresolveTestValue;
+			assert.ok(loader.has('defined') && system.has('defined'));
+
+			return(Promise.all([
+				system.resolve('mapped', parent),
+				system.resolve('dep', parent),
+				system.resolve('./main.js', parent),
+				loader.import('defined')
+			]).then(([ mapped, dep, main, defined ]) => {
+				assert.strictEqual(mapped, 'https://example.invalid/mapped.js');
+				assert.strictEqual(dep, path2url(dir) + '/node_modules/dep/lib/dep.js');
+				assert.strictEqual(main, parent);
+				assert.strictEqual(defined, 1);
+
+				loader.delete('defined');
+				assert.ok(!loader.has('defined') && !system.has('defined'));
+			}));
+		})
+	}, {
+		name: 'es-module-shims hooks resolve names outside import maps using the resolver',
+		run: () => withTree(projectFiles, (dir: string) => {
+			const parent = path2url(dir) + '/src/main.js';
+			const resolver = new Resolver(ifExists, fetch);
+			const loader = new ModuleShimsLoader(path2url(dir) + '/');
+			const hook = loader.createHook(resolver);
+			const defaultResolve = (name: string) => {
+				if(name != 'mapped') throw(new Error('Unmapped: ' + name));
+				return('https://example.invalid/mapped.js');
+			};
+
+			return(Promise.all([
+				hook('mapped', parent, defaultResolve),
+				hook('dep', parent, defaultResolve),
+				hook('fs', parent, defaultResolve)
+			]).then(([ mapped, dep, fs ]) => {
+				assert.strictEqual(mapped, 'https://example.invalid/mapped.js');
+				assert.strictEqual(dep, path2url(dir) + '/node_modules/dep/lib/dep.js');
+				assert.strictEqual(fs, ModuleShimsLoader.emptyURL);
+
+				// Configuration generated by the resolver reaches the adapter.
+				assert.strictEqual(loader.resolveSync('dep', parent), dep);
+			}));
+		})
+	}
+];
@@ -0,0 +1,207 @@
+import * as assert from 'assert';
+
+import { Resolver } from '../dist/Resolver';
+import { ifExists, fetch, path2url } from '../dist/fetch';
+import { createProvider } from '../dist/FallbackProvider';
+import { LockedPackage, parseLockfile } from '../dist/lockfile';
+import { TestCase, withTree, after } from './util';
+
+const rootJson = { name: 'app', dependencies: { a: '^1.0.0', b: '^2.0.0' } };
+
+const npmV1 = JSON.stringify({
+	lockfileVersion: 1,
+	dependencies: {
+		a: { version: '1.1.0', dependencies: { b: { version: '1.0.0' } } },
+		b: { version: '2.0.0' },
+		git: { version: 'github:user/git#0123456' }
+	}
+});
+
+const npmV3 = JSON.stringify({
+	lockfileVersion: 3,
+	packages: {
+		'': { name: 'app', workspaces: [ 'packages/*' ] },
+		'node_modules/a': { version: '1.1.0' },
+		'node_modules/a/node_modules/b': { version: '1.0.0' },
+		'node_modules/b': { version: '2.0.0' },
+		'node_modules/lib': { resolved: 'packages/lib', link: true },
+		'packages/lib': { name: 'lib', version: '0.1.0' }
+	}
+});
+
+const yarnV1 = [
+	'# yarn lockfile v1',
+	'',
+	'a@^1.0.0:',
+	'  version "1.1.0"',
+	'  dependencies:',
+	'    b "^1.0.0"',
+	'',
+	'b@^1.0.0:',
+	'  version "1.0.0"',
+	'',
+	'"b@^2.0.0", b@~2.0.0:',
+	'  version "2.0.0"',
+	''
+].join('\n');
+
+const yarnBerry = [
+	'__metadata:',
+	'  version: 6',
+	'',
+	'"a@npm:^1.0.0":',
+	'  version: 1.1.0',
+	'  dependencies:',
+	'    b: "npm:^1.0.0"',
+	'',
+	'"app@workspace:.":',
+	'  version: 0.0.0-use.local',
+	'',
+	'"b@npm:^1.0.0":',
+	'  version: 1.0.0',
+	'',
+	'"b@npm:^2.0.0":',
+	'  version: 2.0.0',
+	'',
+	'"lib@workspace:packages/lib":',
+	'  version: 0.0.0-use.local',
+	''
+].join('\n');
+
+const pnpmV9 = [
+	"lockfileVersion: '9.0'",
+	'',
+	'importers:',
+	'',
+	'  .:',
+	'    dependencies:',
+	'      a:',
+	'        specifier: ^1.0.0',
+	'        version: 1.1.0(react@18.0.0)',
+	'      b:',
+	'        specifier: ^2.0.0',
+	'        version: 2.0.0',
+	'',
+	'  packages/lib:',
+	'    dependencies:',
+	'      b:',
+	'        specifier: ^1.0.0',
+	'        version: 1.0.0',
+	'',
+	'snapshots:',
+	'',
+	'  a@1.1.0(react@18.0.0):',
+	'    dependencies:',
+	'      b: 1.0.0',
+	'',
+	'  b@1.0.0: {}',
+	''
+].join('\n');
+
+/** Check versions of a, b and b inside a found in a lockfile. */
+
+function checkVersions(fileName: string, data: string) {
+	const lockfile = parseLockfile(fileName, data, rootJson);
+	const a = lockfile.find('a')!;
+	const b = lockfile.find('b')!;
+
+	assert.strictEqual(a.version, '1.1.0', fileName);
+	assert.strictEqual(a.path, 'node_modules/a');
+	assert.strictEqual(b.version, '2.0.0', fileName);
+	assert.strictEqual(lockfile.find('b', a)!.version, '1.0.0', fileName);
+	assert.strictEqual(lockfile.find('missing'), void 0);
+
+	return(lockfile);
+}
+
+/** Project pinning a missing package to a version in its lockfile.
+  *
+  * @param version Version to pin. */
+
+function getProjectFiles(version: string) {
+	return({
+		'package.json': '{ "name": "app", "dependencies": { "dep": "^1.0.0", "other": "1.0.0" } }',
+		'package-lock.json': JSON.stringify({
+			lockfileVersion: 3,
+			packages: { '': { name: 'app' }, 'node_modules/dep': { version } }
+		}),
+		'src/main.js': 'import dep from "dep";\n'
+	});
+}
+
+export const lockfileTests: TestCase[] = [
+	{
+		name: 'npm lockfiles pin versions of nested packages',
+		run: () => {
+			const v1 = checkVersions('package-lock.json', npmV1);
+			const v3 = checkVersions('package-lock.json', npmV3);
+
+			// Dependencies of nested copies are looked up in parent directories.
+			const nested: LockedPackage = { name: 'b', version: '1.0.0', path: 'node_modules/a/node_modules/b' };
+
+			assert.strictEqual(v1.find('a', nested)!.version, '1.1.0');
+			assert.strictEqual(v1.find('git'), void 0);
+			assert.deepStrictEqual(v3.workspaces, [ 'packages/lib' ]);
+			assert.strictEqual(v3.find('lib'), void 0);
+
+			return(Promise.resolve());
+		}
+	}, {
+		name: 'yarn lockfiles pin versions matching dependency ranges',
+		run: () => {
+			checkVersions('yarn.lock', yarnV1);
+			assert.deepStrictEqual(checkVersions('yarn.lock', yarnBerry).workspaces, [ 'packages/lib' ]);
+
+			return(Promise.resolve());
+		}
+	}, {
+		name: 'pnpm lockfiles pin versions of importers and snapshots',
+		run: () => {
+			const lockfile = checkVersions('pnpm-lock.yaml', pnpmV9);
+			const lib: LockedPackage = { name: 'lib', version: '0.1.0', path: 'packages/lib' };
+
+			assert.strictEqual(lockfile.find('a')!.id, 'a@1.1.0(react@18.0.0)');
+			assert.strictEqual(lockfile.find('b', lib)!.version, '1.0.0');
+			assert.deepStrictEqual(lockfile.workspaces, [ 'packages/lib' ]);
+			assert.throws(() => parseLockfile('bun.lockb', ''));
+
+			return(Promise.resolve());
+		}
+	}, {
+		name: 'each project uses its own lockfile and warnings are optional',
+		run: () => withTree({
+			'cdn/dep@1.1.0/package.json': '{ "name": "dep", "version": "1.1.0" }',
+			'cdn/dep@1.1.0/index.js': '',
+			'cdn/dep@1.2.0/package.json': '{ "name": "dep", "version": "1.2.0" }',
+			'cdn/dep@1.2.0/index.js': '',
+			'cdn/other@1.0.0/package.json': '{ "name": "other", "version": "1.0.0" }',
+			'cdn/other@1.0.0/index.js': ''
+		}, (cdn: string) => withTree(getProjectFiles('1.1.0'), (first: string) => withTree(getProjectFiles('1.2.0'), (second: string) => {
+			const warnList: string[] = [];
+			const consoleWarn = console.warn;
+			const options = { fallbacks: [ createProvider('local', path2url(cdn) + '/cdn/{name}@{version}') ] };
+			const silent = new Resolver(ifExists, fetch, void 0, options);
+			const resolver = new Resolver(ifExists, fetch, void 0, {
+				fallbacks: options.fallbacks,
+				warn: (message: string) => warnList.push(message)
+			});
+
+			console.warn = (message: string) => warnList.push('console: ' + message);
+
+			return(after(Promise.all([
+				silent.resolve('dep', path2url(first) + '/src/main.js'),
+				silent.resolve('dep', path2url(second) + '/src/main.js'),
+				silent.resolve('other', path2url(first) + '/src/main.js')
+			]).then(([ firstDep, secondDep, other ]) => {
+				assert.strictEqual(firstDep, path2url(cdn) + '/cdn/dep@1.1.0/index.js');
+				assert.strictEqual(secondDep, path2url(cdn) + '/cdn/dep@1.2.0/index.js');
+				assert.strictEqual(other, path2url(cdn) + '/cdn/other@1.0.0/index.js');
+				assert.deepStrictEqual(warnList, []);
+
+				return(resolver.resolve('other', path2url(second) + '/src/main.js'));
+			}).then(() => {
+				assert.deepStrictEqual(warnList, [ 'Package missing from lockfile, resolving version range instead: other' ]);
+			}), () => { console.warn = consoleWarn; }));
+		})))
+	}
+];
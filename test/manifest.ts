@@ -0,0 +1,137 @@
+import * as assert from 'assert';
+import * as FS from 'fs';
+import * as HTTP from 'http';
+import * as Path from 'path';
+
+import { Resolver } from '../dist/Resolver';
+import { Manifest, ManifestData } from '../dist/Manifest';
+import { buildManifest, createBatchHandler } from '../dist/listing';
+import { ifExists, fetch } from '../dist/fetch';
+import { TestCase, withServer, withTree } from './util';
+
+const fs: typeof FS = eval("require('fs')");
+const path: typeof Path = eval("require('path')");
+
+const projectFiles = {
+	'package.json': '{ "name": "app", "dependencies": { "dep": "^1.0.0" } }',
+	'src/main.js': 'import dep from "dep";\n',
+	'src/my file.js': '',
+	'.git/HEAD': '',
+	'node_modules/dep/package.json': '{ "name": "dep", "version": "1.0.0", "main": "lib/dep" }',
+	'node_modules/dep/lib/dep.js': 'export default 1;\n'
+};
+
+/** Serve files in a directory, a manifest listing them and its batch
+  * endpoint, logging requests. */
+
+function createServer(dir: string, manifest: ManifestData, log: string[]) {
+	let handleBatch: (req: HTTP.IncomingMessage, res: HTTP.ServerResponse) => void;
+
+	return((req: HTTP.IncomingMessage, res: HTTP.ServerResponse) => {
+		const url = (req.url || '').replace(/[?#].*$/, '');
+
+		log.push(req.method + ' ' + url);
+
+		if(url == '/batch') {
+			if(!handleBatch) handleBatch = createBatchHandler(dir, { baseURL: 'http://' + req.headers.host + '/' });
+			return(handleBatch(req, res));
+		}
+
+		if(url == '/cresolve-manifest.json') {
+			res.writeHead(200, { 'Content-Type': 'application/json' });
+			return(res.end(JSON.stringify(manifest)));
+		}
+
+		fs.readFile(path.join(dir, decodeURIComponent(url)), (err: NodeJS.ErrnoException, data: Buffer) => {
+			res.writeHead(err ? 404 : 200, { 'Content-Type': 'application/javascript' });
+			res.end(err || req.method == 'HEAD' ? void 0 : data);
+		});
+	});
+}
+
+export const manifestTests: TestCase[] = [
+	{
+		name: 'manifests list files recursively, leaving out ignored directories',
+		run: () => withTree(projectFiles, (dir: string) => buildManifest(dir, {
+			ignore: /(^|\/)(\.git|node_modules)$/,
+			batch: 'batch'
+		}).then((data: ManifestData) => {
+			assert.deepStrictEqual(data, {
+				cresolve: 1,
+				files: {
+					'.git': 0,
+					'node_modules': 0,
+					'package.json': 1,
+					src: { 'main.js': 1, 'my file.js': 1 }
+				},
+				batch: 'batch'
+			});
+		}))
+	}, {
+		name: 'manifests answer checks for listed files',
+		run: () => {
+			const base = 'https://example.invalid/app/';
+			const manifest = new Manifest(base + 'cresolve-manifest.json?v=1', {
+				cresolve: 1,
+				files: { src: { 'main.js': 1, 'my file.js': 1 }, node_modules: 0 }
+			}, () => Promise.reject(new Error('Unexpected batch request')));
+
+			return(Promise.all([
+				manifest.check(base + 'src/main.js'),
+				manifest.check(base + 'src/my%20file.js'),
+				manifest.check(base + 'src/missing.js'),
+				manifest.check(base + 'src/main.js/index.js'),
+				manifest.check(base + 'node_modules/dep/index.js'),
+				manifest.check('https://example.invalid/other.js')
+			]).then((resultList: (string | null | undefined)[]) => {
+				assert.deepStrictEqual(resultList, [
+					base + 'src/main.js',
+					base + 'src/my%20file.js',
+					null,
+					null,
+					void 0,
+					void 0
+				]);
+			}));
+		}
+	}, {
+		name: 'batch endpoints answer combined checks only inside their directory',
+		run: () => withTree(projectFiles, (dir: string) => {
+			const log: string[] = [];
+
+			// Serve only the src directory, to check that package.json outside it is hidden.
+			return(withServer(createServer(path.join(dir, 'src'), { cresolve: 1, batch: 'batch' }, log), (base: string) => {
+				const manifest = new Manifest(base + 'cresolve-manifest.json', { cresolve: 1, batch: 'batch' }, fetch);
+
+				return(Promise.all([
+					manifest.check(base + 'main.js'),
+					manifest.check(base + 'my%20file.js'),
+					manifest.check(base + 'missing.js'),
+					manifest.check(base + '%2e%2e/package.json')
+				]).then((resultList: (string | null | undefined)[]) => {
+					assert.deepStrictEqual(resultList, [ base + 'main.js', base + 'my%20file.js', null, null ]);
+					assert.deepStrictEqual(log, [ 'GET /batch' ]);
+				}));
+			}));
+		})
+	}, {
+		name: 'resolvers check files using the manifest instead of HEAD requests',
+		run: () => withTree(projectFiles, (dir: string) => buildManifest(dir, {
+			ignore: /(^|\/)(\.git|node_modules)$/,
+			batch: 'batch'
+		}).then((data: ManifestData) => {
+			const log: string[] = [];
+
+			return(withServer(createServer(dir, data, log), (base: string) => {
+				const resolver = new Resolver(ifExists, fetch, void 0, { manifest: base + 'cresolve-manifest.json' });
+
+				return(resolver.resolve('dep', base + 'src/main.js').then((uri: string) => {
+					assert.strictEqual(uri, base + 'node_modules/dep/lib/dep.js');
+					assert.strictEqual(log[0], 'GET /cresolve-manifest.json');
+					assert.ok(log.indexOf('GET /batch') > 0);
+					assert.ok(!log.some((line: string) => line.substr(0, 5) == 'HEAD '));
+				}));
+			}));
+		}))
+	}
+];
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import * as SystemType from 'systemjs';
+
+import { Resolver } from '../dist/Resolver';
+import { ifExists, fetch, path2url } from '../dist/fetch';
+import { TestCase, withTree } from './util';
+
+const System: typeof SystemType = eval("require('systemjs')");
+
+/** App using lodash 4, and a package with its own copy of lodash 3
+  * also used by another package nested inside it. */
+
+const projectFiles = {
+	'package.json': '{ "name": "app", "dependencies": { "a": "^1.0.0", "lodash": "^4.0.0" } }',
+	'src/main.js': 'module.exports = [ require("a"), require("lodash") ];\n',
+	'node_modules/a/package.json': '{ "name": "a", "version": "1.0.0", "dependencies": { "c": "^1.0.0", "lodash": "^3.0.0" } }',
+	'node_modules/a/index.js': 'module.exports = [ require("lodash"), require("c") ];\n',
+	'node_modules/a/node_modules/lodash/package.json': '{ "name": "lodash", "version": "3.10.1" }',
+	'node_modules/a/node_modules/lodash/index.js': 'module.exports = 3;\n',
+	'node_modules/a/node_modules/c/package.json': '{ "name": "c", "version": "1.0.0", "dependencies": { "lodash": "^3.0.0" } }',
+	'node_modules/a/node_modules/c/index.js': 'module.exports = require("lodash") + 10;\n',
+	'node_modules/lodash/package.json': '{ "name": "lodash", "version": "4.17.21" }',
+	'node_modules/lodash/index.js': 'module.exports = 4;\n'
+};
+
+export const nestedTests: TestCase[] = [
+	{
+		name: 'nested copies of packages are used only inside their node_modules scope',
+		run: () => withTree(projectFiles, (dir: string) => {
+			const system = new System.constructor();
+			const resolver = new Resolver(ifExists, fetch);
+			const root = path2url(dir);
+			const nestedRoot = root + '/node_modules/a/node_modules/lodash';
+			const config = resolver.systemConfig;
+
+			resolver.patchSystem(system);
+
+			// The nested copy gets resolved first.
+			return(system.import(root + '/src/main.js').then((value: any[]) => {
+				assert.deepStrictEqual(value, [ [ 3, 13 ], 4 ]);
+
+				assert.strictEqual(config.map.lodash, root + '/node_modules/lodash');
+				assert.strictEqual(config.packages.a.map!.lodash, nestedRoot);
+				assert.strictEqual(config.packages[root + '/node_modules/a/node_modules/c'].map!.lodash, nestedRoot);
+
+				assert.deepStrictEqual(config.duplicates!.lodash.slice(0).sort(), [ nestedRoot, root + '/node_modules/lodash' ]);
+				assert.strictEqual(config.duplicates!.a, void 0);
+			}));
+		})
+	}, {
+		name: 'resolvers without a loader find the copy Node.js would use',
+		run: () => withTree(projectFiles, (dir: string) => {
+			const resolver = new Resolver(ifExists, fetch);
+			const root = path2url(dir);
+
+			return(resolver.resolve('lodash', root + '/node_modules/a/node_modules/c/index.js').then((resolved: string) => {
+				assert.strictEqual(resolved, root + '/node_modules/a/node_modules/lodash/index.js');
+
+				return(resolver.resolve('lodash', root + '/src/main.js'));
+			}).then((resolved: string) => {
+				assert.strictEqual(resolved, root + '/node_modules/lodash/index.js');
+
+				return(resolver.resolve('lodash', root + '/node_modules/a/index.js'));
+			}).then((resolved: string) => {
+				assert.strictEqual(resolved, root + '/node_modules/a/node_modules/lodash/index.js');
+
+				// Forgetting a copy also removes it from duplicates.
+				return(resolver.invalidate(root + '/node_modules/a/node_modules/lodash/package.json'));
+			}).then(() => {
+				assert.strictEqual((resolver.systemConfig.duplicates || {}).lodash, void 0);
+			}));
+		})
+	}
+];
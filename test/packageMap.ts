@@ -0,0 +1,157 @@
+import * as assert from 'assert';
+
+import { Resolver } from '../dist/Resolver';
+import { ifExists, fetch, path2url } from '../dist/fetch';
+import { resolveExports, resolveImports, getExactExports } from '../dist/packageMap';
+import { TestCase, withTree, rejects } from './util';
+
+const exportsField = {
+	'.': { browser: './dist/browser.js', require: './dist/main.cjs', default: './dist/main.js' },
+	'./feature': [ { worker: './dist/feature-worker.js' }, './dist/feature.js' ],
+	'./lib/*.js': './dist/lib/*.js',
+	'./lib/private/*': null,
+	'./legacy/': './old/'
+};
+
+/** Project with a package using an exports field. */
+
+const exportsFiles = {
+	'package.json': '{ "name": "app", "dependencies": { "dep": "^1.0.0", "closed": "^1.0.0" } }',
+	'src/main.js': 'import dep from "dep";\n',
+	'node_modules/dep/package.json': JSON.stringify({ name: 'dep', version: '1.0.0', main: 'index.js', exports: exportsField }),
+	'node_modules/dep/dist/browser.js': '',
+	'node_modules/dep/dist/main.js': '',
+	'node_modules/dep/dist/feature.js': '',
+	'node_modules/dep/dist/lib/util.js': '',
+	'node_modules/dep/dist/lib/private/secret.js': '',
+	'node_modules/dep/lib/private/secret.js': '',
+	'node_modules/closed/package.json': '{ "name": "closed", "version": "1.0.0", "exports": { ".": null, "./open": "./open.js" } }',
+	'node_modules/closed/index.js': '',
+	'node_modules/closed/open.js': ''
+};
+
+export const exportsTests: TestCase[] = [
+	{
+		name: 'exports fields pick the first matching condition',
+		run: () => {
+			assert.strictEqual(resolveExports(exportsField, '.', [ 'browser' ]), './dist/browser.js');
+			assert.strictEqual(resolveExports(exportsField, '.', [ 'require' ]), './dist/main.cjs');
+			assert.strictEqual(resolveExports(exportsField, '.', []), './dist/main.js');
+			assert.strictEqual(resolveExports(exportsField, './feature', [ 'worker' ]), './dist/feature-worker.js');
+			assert.strictEqual(resolveExports(exportsField, './feature', []), './dist/feature.js');
+			assert.strictEqual(resolveExports('./index.js', '.', []), './index.js');
+			assert.strictEqual(resolveExports('./index.js', './other', []), void 0);
+
+			return(Promise.resolve());
+		}
+	}, {
+		name: 'exports fields map subpath patterns and block subpaths',
+		run: () => {
+			assert.strictEqual(resolveExports(exportsField, './lib/util.js', []), './dist/lib/util.js');
+			assert.strictEqual(resolveExports(exportsField, './lib/a/b.js', []), './dist/lib/a/b.js');
+			assert.strictEqual(resolveExports(exportsField, './lib/private/secret.js', []), null);
+			assert.strictEqual(resolveExports(exportsField, './legacy/x.js', []), './old/x.js');
+			assert.strictEqual(resolveExports(exportsField, './missing.js', []), void 0);
+			assert.throws(() => resolveExports({ '.': '../outside.js' }, '.', []));
+
+			// Only exact subpaths get listed.
+			assert.deepStrictEqual(getExactExports(exportsField, [ 'worker' ]), { './feature': './dist/feature-worker.js' });
+			assert.deepStrictEqual(getExactExports('./index.js', []), {});
+
+			return(Promise.resolve());
+		}
+	}, {
+		name: 'resolvers follow exports fields and refuse blocked paths',
+		run: () => withTree(exportsFiles, (dir: string) => {
+			const parent = path2url(dir) + '/src/main.js';
+			const resolver = new Resolver(ifExists, fetch);
+			const depRoot = path2url(dir) + '/node_modules/dep';
+
+			return(Promise.all([
+				resolver.resolve('dep', parent),
+				resolver.resolve('dep/feature', parent),
+				resolver.resolve('dep/lib/util.js', parent),
+				rejects(resolver.resolve('dep/lib/private/secret.js', parent)),
+				rejects(resolver.resolve('dep/index.js', parent)),
+				rejects(resolver.resolve('closed', parent)),
+				resolver.resolve('closed/open', parent)
+			]).then(([ main, feature, util, blocked, hidden, closed, open ]) => {
+				assert.strictEqual(main, depRoot + '/dist/browser.js');
+				assert.strictEqual(feature, depRoot + '/dist/feature.js');
+				assert.strictEqual(util, depRoot + '/dist/lib/util.js');
+				assert.ok(/is blocked/.test(blocked.message));
+				assert.ok(/is not exported/.test(hidden.message));
+				assert.ok(/entry point is blocked/.test(closed.message));
+				assert.strictEqual(open, path2url(dir) + '/node_modules/closed/open.js');
+			}));
+		})
+	}
+];
+
+const importsField = {
+	'#util': { browser: './src/util-browser.js', default: './src/util.js' },
+	'#lib/*': './src/lib/*.js',
+	'#lib/private/*': null,
+	'#dep': 'dep'
+};
+
+/** Project and a package using imports fields. */
+
+const importsFiles = {
+	'package.json': JSON.stringify({ name: 'app', dependencies: { dep: '^1.0.0' }, imports: importsField }),
+	'src/main.js': 'import util from "#util";\n',
+	'src/util.js': '',
+	'src/util-browser.js': '',
+	'src/lib/a.js': '',
+	'src/lib/private/b.js': '',
+	'node_modules/dep/package.json': JSON.stringify({ name: 'dep', version: '1.0.0', imports: { '#own': './own.js' } }),
+	'node_modules/dep/index.js': '',
+	'node_modules/dep/own.js': ''
+};
+
+export const importsTests: TestCase[] = [
+	{
+		name: 'imports fields map # specifiers to files or other packages',
+		run: () => {
+			assert.strictEqual(resolveImports(importsField, '#util', [ 'browser' ]), './src/util-browser.js');
+			assert.strictEqual(resolveImports(importsField, '#util', []), './src/util.js');
+			assert.strictEqual(resolveImports(importsField, '#lib/a', []), './src/lib/a.js');
+			assert.strictEqual(resolveImports(importsField, '#lib/private/b', []), null);
+			assert.strictEqual(resolveImports(importsField, '#dep', []), 'dep');
+			assert.strictEqual(resolveImports(importsField, '#missing', []), void 0);
+			assert.strictEqual(resolveImports(void 0 as any, '#util', []), void 0);
+
+			return(Promise.resolve());
+		}
+	}, {
+		name: 'resolvers use imports fields of packages containing the importing file',
+		run: () => withTree(importsFiles, (dir: string) => {
+			const root = path2url(dir);
+			const parent = root + '/src/main.js';
+			const resolver = new Resolver(ifExists, fetch);
+
+			return(Promise.all([
+				resolver.resolve('#util', parent),
+				resolver.resolve('#lib/a', parent),
+				resolver.resolve('#dep', parent),
+				resolver.resolve('#own', root + '/node_modules/dep/index.js'),
+				rejects(resolver.resolve('#lib/private/b', parent)),
+				rejects(resolver.resolve('#own', parent))
+			]).then(([ util, lib, dep, own, blocked, missing ]) => {
+				const appMap = resolver.systemConfig.packages['app'].map;
+
+				assert.strictEqual(util, root + '/src/util-browser.js');
+				assert.strictEqual(lib, root + '/src/lib/a.js');
+				assert.strictEqual(dep, root + '/node_modules/dep/index.js');
+				assert.strictEqual(own, root + '/node_modules/dep/own.js');
+				assert.ok(/imports of package: app/.test(blocked.message));
+				assert.ok(/imports of package: app/.test(missing.message));
+
+				// Mappings are generated for the importing package only.
+				assert.strictEqual(appMap['#util'], './src/util-browser.js');
+				assert.strictEqual(appMap['#lib/a'], './src/lib/a.js');
+				assert.strictEqual(resolver.systemConfig.packages['dep'].map['#own'], './own.js');
+			}));
+		})
+	}
+];
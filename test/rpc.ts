@@ -0,0 +1,146 @@
+import * as assert from 'assert';
+
+import { Resolver } from '../dist/Resolver';
+import { FetchResponse, fetchResponse } from '../dist/fetchResponse';
+import { METHOD, RequestError, WorkerPortOptions } from '../dist/rpc';
+import { TestCase, after, rejects } from './util';
+
+const base = 'https://example.invalid/';
+
+/** Create a UI thread resolver serving files from a table,
+  * counting requests by address. Missing files fail with status 404,
+  * each file in failTbl fails once with status 500 and addresses
+  * starting with slow/ never respond. */
+
+function createHost(files: { [uri: string]: string }, failTbl: { [uri: string]: boolean } = {}) {
+	const countTbl: { [uri: string]: number } = {};
+
+	const answer = (uri: string): Promise<string> => {
+		countTbl[uri] = (countTbl[uri] || 0) + 1;
+
+		if(uri.substr(base.length, 5) == 'slow/') return(new Promise(() => {}));
+
+		if(failTbl[uri]) {
+			delete failTbl[uri];
+			return(Promise.reject({ status: 500 }));
+		}
+
+		return(files[uri] === void 0 ? Promise.reject({ status: 404 }) : Promise.resolve(uri));
+	};
+
+	const resolver = new Resolver(
+		answer,
+		(uri: string) => answer(uri).then(() => fetchResponse(files[uri], uri))
+	);
+
+	return({ resolver, countTbl });
+}
+
+/** Connect a resolver as if in a Web Worker to a UI thread resolver,
+  * closing the channel after a test.
+  *
+  * @param run Function receiving the worker side resolver. */
+
+function withWorker<Type>(ui: Resolver, run: (worker: Resolver) => Promise<Type>, options?: WorkerPortOptions) {
+	const port = ui.getHost().createPort();
+	const worker = new Resolver(
+		() => Promise.reject(new Error('Unexpected request outside RPC')),
+		() => Promise.reject(new Error('Unexpected request outside RPC'))
+	);
+
+	worker.setPort(port, options);
+
+	return(after(run(worker), () => port.close()));
+}
+
+/** Wait for messages in flight between threads. */
+
+function delay(msec: number) {
+	return(new Promise((resolve: () => void) => setTimeout(resolve, msec)));
+}
+
+export const rpcTests: TestCase[] = [
+	{
+		name: 'workers check and fetch files through the UI thread',
+		run: () => {
+			const { resolver, countTbl } = createHost({ [base + 'a.js']: 'export default 1;\n' });
+
+			return(withWorker(resolver, (worker: Resolver) => Promise.all([
+				worker.ifExists(base + 'a.js'),
+				worker.ifExists(base + 'a.js'),
+				worker.fetch(base + 'a.js').then((res: FetchResponse) => res.text())
+			]).then(([ target, again, text ]) => {
+				assert.strictEqual(target, base + 'a.js');
+				assert.strictEqual(again, target);
+				assert.strictEqual(text, 'export default 1;\n');
+
+				// Concurrent checks for the same file share a request.
+				assert.strictEqual(countTbl[base + 'a.js'], 2);
+			})));
+		}
+	}, {
+		name: 'failed requests reject with the status and are tried again',
+		run: () => {
+			const { resolver, countTbl } = createHost(
+				{ [base + 'flaky.js']: '' },
+				{ [base + 'flaky.js']: true }
+			);
+
+			return(withWorker(resolver, (worker: Resolver) => rejects(
+				worker.ifExists(base + 'missing.js')
+			).then((err: RequestError) => {
+				assert.strictEqual(err.code, 'status');
+				assert.strictEqual(err.status, 404);
+				assert.strictEqual(err.url, base + 'missing.js');
+
+				return(rejects(worker.ifExists(base + 'flaky.js')));
+			}).then((err: RequestError) => {
+				assert.strictEqual(err.status, 500);
+
+				return(worker.ifExists(base + 'flaky.js'));
+			}).then((target: string) => {
+				assert.strictEqual(target, base + 'flaky.js');
+				assert.strictEqual(countTbl[base + 'flaky.js'], 2);
+			})));
+		}
+	}, {
+		name: 'requests time out and can be cancelled',
+		run: () => {
+			const { resolver } = createHost({});
+			const controller = new AbortController();
+
+			return(withWorker(resolver, (worker: Resolver) => {
+				const timedOut = rejects(worker.ifExists(base + 'slow/a.js'));
+				const aborted = rejects(worker.fetch(base + 'slow/b.js', { signal: controller.signal }));
+				const cancelled = rejects(worker.fetch(base + 'slow/c.js'));
+
+				controller.abort();
+				worker.cancel(base + 'slow/c.js');
+
+				return(Promise.all([ timedOut, aborted, cancelled ]));
+			}, { timeout: 50 }).then(([ timedOut, aborted, cancelled ]: RequestError[]) => {
+				assert.strictEqual(timedOut.code, 'timeout');
+				assert.strictEqual(aborted.code, 'cancelled');
+				assert.strictEqual(cancelled.code, 'cancelled');
+				assert.strictEqual(cancelled.url, base + 'slow/c.js');
+			}));
+		}
+	}, {
+		name: 'configuration from one worker reaches the UI thread and other workers',
+		run: () => {
+			const { resolver } = createHost({});
+			const config = { map: { dep: base + 'dep/index.js' } };
+
+			return(withWorker(resolver, (worker: Resolver) => {
+				const port = resolver.getHost().createPort();
+
+				port.postMessage({ method: METHOD.config, uri: '', config });
+
+				return(after(delay(50), () => port.close()).then(() => {
+					assert.strictEqual(resolver.systemConfig.map['dep'], base + 'dep/index.js');
+					assert.strictEqual(worker.systemConfig.map['dep'], base + 'dep/index.js');
+				}));
+			}));
+		}
+	}
+];
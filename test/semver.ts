@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+
+import { maxSatisfying } from '../dist/semver';
+import { TestCase } from './util';
+
+export const semverTests: TestCase[] = [
+	{
+		name: 'semver ranges pick the highest matching version',
+		run: () => {
+			const versionList = [ '1.2.3', '1.9.0', '1.10.0', '2.0.0-beta.1', '2.0.0', '9.1.0', '10.0.0' ];
+
+			assert.strictEqual(maxSatisfying(versionList, '>=1.2 <2'), '1.10.0');
+			assert.strictEqual(maxSatisfying(versionList, '1.x'), '1.10.0');
+			assert.strictEqual(maxSatisfying(versionList, '~1.9'), '1.9.0');
+			assert.strictEqual(maxSatisfying(versionList, '^1.2.3 || ^9'), '9.1.0');
+			assert.strictEqual(maxSatisfying(versionList, '*'), '10.0.0');
+			assert.strictEqual(maxSatisfying(versionList, '>=2.0.0-beta.0 <2.0.0'), '2.0.0-beta.1');
+			assert.strictEqual(maxSatisfying(versionList, '^3'), void 0);
+
+			return(Promise.resolve());
+		}
+	}
+];
@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import * as FS from 'fs';
+import * as Path from 'path';
+import * as SystemType from 'systemjs';
+
+import { Resolver } from '../dist/Resolver';
+import { ifExists, fetch, path2url } from '../dist/fetch';
+import { createProvider } from '../dist/FallbackProvider';
+import { SnapshotManifest, writeSnapshot } from '../dist/snapshot';
+import { TestCase, withTree } from './util';
+
+const fs: typeof FS = eval("require('fs')");
+const path: typeof Path = eval("require('path')");
+const System: typeof SystemType = eval("require('systemjs')");
+
+const logo = Buffer.from([ 0x89, 0x50, 0x4e, 0x47, 0, 255, 128 ]);
+
+/** Project using an installed package and one from a fallback provider. */
+
+const projectFiles = {
+	'package.json': '{ "name": "app", "dependencies": { "local": "^1.0.0", "remote": "1.0.0" } }',
+	'src/main.js': 'module.exports = require("local") + require("remote");\n',
+	'node_modules/local/package.json': '{ "name": "local", "version": "1.2.0" }',
+	'node_modules/local/index.js': 'module.exports = 1;\n',
+	'node_modules/local/logo.png': logo
+};
+
+const mirrorFiles = {
+	'remote@1.0.0/package.json': '{ "name": "remote", "version": "1.0.0", "main": "lib/remote.js" }',
+	'remote@1.0.0/lib/remote.js': 'module.exports = 2;\n'
+};
+
+export const snapshotTests: TestCase[] = [
+	{
+		name: 'snapshots copy package files and load them again without the original sources',
+		run: () => withTree(mirrorFiles, (mirror: string) => withTree(projectFiles, (dir: string) => withTree({}, (out: string) => {
+			const system = new System.constructor();
+			const restored = new System.constructor();
+			const main = path2url(dir) + '/src/main.js';
+			const resolver = new Resolver(ifExists, fetch, void 0, {
+				fallbacks: [ createProvider('mirror', path2url(mirror) + '/{name}@{version}') ]
+			});
+
+			resolver.patchSystem(system);
+
+			return(system.import(main).then((value: number) => {
+				assert.strictEqual(value, 3);
+
+				return(resolver.resolve('local/logo.png', main));
+			}).then((resolved: string) => {
+				// Files with other extensions get no defaultExtension added.
+				assert.strictEqual(resolved, path2url(dir) + '/node_modules/local/logo.png');
+
+				return(writeSnapshot(resolver, out));
+			}).then((manifest: SnapshotManifest) => {
+				const packages = manifest.packages.map(({ name, version, source, path }) => ({ name, version, source, path }));
+				const config = JSON.parse(fs.readFileSync(path.join(out, 'config.json'), 'utf-8'));
+
+				assert.deepStrictEqual(packages.sort((a, b) => a.name < b.name ? -1 : 1), [
+					{ name: 'local', version: '1.2.0', source: 'local', path: 'local' },
+					{ name: 'remote', version: '1.0.0', source: 'mirror', path: 'remote' }
+				]);
+
+				assert.strictEqual(manifest.files[path2url(mirror) + '/remote@1.0.0/lib/remote.js'], 'vendor/remote/lib/remote.js');
+				assert.ok(fs.readFileSync(path.join(out, 'vendor/local/logo.png')).equals(logo));
+				assert.strictEqual(fs.readFileSync(path.join(out, 'vendor/remote/lib/remote.js'), 'utf-8'), mirrorFiles['remote@1.0.0/lib/remote.js']);
+
+				assert.strictEqual(config.map.remote, 'vendor/remote');
+				assert.strictEqual(config.sources, void 0);
+				assert.ok(!JSON.stringify(config).match(new RegExp(path2url(mirror))));
+
+				// Files from the fallback provider are no longer available.
+				fs.writeFileSync(path.join(mirror, 'remote@1.0.0/lib/remote.js'), 'module.exports = 100;\n');
+
+				// Modules normally defined by the resolver.
+				restored.set('global:process', restored.newModule({ default: process, __useDefault: process }));
+				restored.config({ baseURL: path2url(out) + '/' });
+				restored.config(config);
+
+				return(restored.import(main));
+			}).then((value: number) => {
+				assert.strictEqual(value, 3);
+
+				return(restored.resolve('local/logo.png', main));
+			}).then((resolved: string) => {
+				assert.strictEqual(resolved, path2url(out) + '/vendor/local/logo.png');
+			}));
+		})))
+	}
+];
@@ -0,0 +1,173 @@
+import * as assert from 'assert';
+
+import { CacheEntry, StorageBackend, WebStorage, openBrowserStorage, requestWithStorage } from '../dist/storage';
+import { TestCase, after, rejects } from './util';
+
+/** In-memory Web Storage object holding a limited number of items.
+  *
+  * @param capacity Number of items before setItem throws a quota error. */
+
+function createWebStorage(capacity = Infinity) {
+	const items: { [key: string]: string } = {};
+	const keys = () => Object.keys(items);
+
+	return({
+		items,
+		get length() { return(keys().length); },
+		key: (num: number) => keys()[num] || null,
+		getItem: (key: string) => items.hasOwnProperty(key) ? items[key] : null,
+		setItem: (key: string, value: string) => {
+			if(!items.hasOwnProperty(key) && keys().length >= capacity) {
+				throw({ name: 'QuotaExceededError' });
+			}
+
+			items[key] = value;
+		},
+		removeItem: (key: string) => { delete items[key]; },
+		clear: () => { for(let key of keys()) delete items[key]; }
+	});
+}
+
+/** Minimal storage backend keeping entries in an object. */
+
+function createBackend(ttl?: number) {
+	const entries: { [uri: string]: CacheEntry } = {};
+	const backend: StorageBackend = {
+		read: (uri: string) => Promise.resolve(entries[uri]),
+		write: (entry: CacheEntry) => { entries[entry.url] = entry; return(Promise.resolve()); },
+		remove: (uri: string) => { delete entries[uri]; return(Promise.resolve()); },
+		clear: () => Promise.resolve(0),
+		isFresh: (entry: CacheEntry) => ttl === void 0 || new Date().getTime() - entry.time <= ttl
+	};
+
+	return({ entries, backend });
+}
+
+/** Send function counting requests and failing with a 404 for addresses
+  * containing "missing". */
+
+function createSend() {
+	const sent: string[] = [];
+	const send = (uri: string) => {
+		sent.push(uri);
+
+		if(uri.match(/missing/)) return(Promise.reject({ statusCode: 404 }));
+		return(Promise.resolve({ uri, text: 'contents of ' + uri }));
+	};
+
+	return({ sent, send });
+}
+
+function entry(url: string, time: number): CacheEntry {
+	return({ url, target: url, status: 200, body: url, time });
+}
+
+export const storageTests: TestCase[] = [
+	{
+		name: 'Web Storage removes results of other versions and evicts the oldest when full',
+		run: () => {
+			const webStorage = createWebStorage(4);
+
+			webStorage.setItem('cresolve/1.0.0/https://example.invalid/old.js', '{}');
+			webStorage.setItem('other', 'kept');
+
+			const storage = new WebStorage({ version: '2.0.0' }, webStorage as any);
+
+			return(storage.open().then(() => {
+				assert.deepStrictEqual(Object.keys(webStorage.items), [ 'other' ]);
+
+				return(Promise.all([
+					storage.write(entry('https://example.invalid/a.js', 1)),
+					storage.write(entry('https://example.invalid/b.js', 2)),
+					storage.write(entry('https://example.invalid/lib/c.js', 3))
+				]));
+			}).then(() => storage.write(entry('https://example.invalid/lib/d.js', 4))).then(() => Promise.all([
+				storage.read('https://example.invalid/a.js'),
+				storage.read('https://example.invalid/b.js'),
+				storage.read('https://example.invalid/lib/c.js'),
+				storage.read('https://example.invalid/lib/d.js')
+			])).then(([ a, b, c, d ]) => {
+				// The oldest half was removed to make room.
+				assert.strictEqual(a, void 0);
+				assert.strictEqual(b, void 0);
+				assert.strictEqual(c!.time, 3);
+				assert.strictEqual(d!.body, 'https://example.invalid/lib/d.js');
+				assert.strictEqual(webStorage.getItem('other'), 'kept');
+
+				return(storage.clear('https://example.invalid/lib/'));
+			}).then((count: number) => {
+				assert.strictEqual(count, 2);
+				assert.deepStrictEqual(Object.keys(webStorage.items), [ 'other' ]);
+			}));
+		}
+	}, {
+		name: 'stored results expire and missing files are stored only for versioned addresses',
+		run: () => {
+			const { entries, backend } = createBackend(1000);
+			const { sent, send } = createSend();
+			const versioned = 'https://cdn.invalid/dep@1.0.0/missing.js';
+			const unversioned = 'https://example.invalid/missing.js';
+			const file = 'https://example.invalid/index.js';
+
+			entries[file] = entry(file, new Date().getTime() - 2000);
+
+			return(Promise.all([
+				requestWithStorage(backend, file, false, send),
+				rejects(requestWithStorage(backend, versioned, true, send)),
+				rejects(requestWithStorage(backend, unversioned, true, send))
+			]).then(([ result ]) => {
+				// The expired result was fetched again.
+				assert.strictEqual(result.text, 'contents of ' + file);
+				assert.strictEqual(entries[versioned].status, 404);
+				assert.strictEqual(entries[unversioned], void 0);
+
+				return(Promise.all([
+					requestWithStorage(backend, file, false, send),
+					rejects(requestWithStorage(backend, versioned, true, send)),
+					rejects(requestWithStorage(backend, unversioned, true, send))
+				]));
+			}).then(([ result, versionedErr ]) => {
+				assert.strictEqual(result.text, 'contents of ' + file);
+				assert.ok(versionedErr.cached);
+				assert.deepStrictEqual(sent, [ file, versioned, unversioned, unversioned ]);
+			}));
+		}
+	}, {
+		name: 'browser storage lasts for the session unless a version or TTL is given',
+		run: () => {
+			const root = global as any;
+			const webStorage = createWebStorage();
+			const opened: string[] = [];
+
+			root.window = { sessionStorage: webStorage };
+			root.indexedDB = {
+				open: () => {
+					opened.push('indexedDB');
+					throw(new Error('Unavailable'));
+				}
+			};
+
+			return(after(Promise.all([
+				openBrowserStorage(),
+				openBrowserStorage({ version: '1.0.0' }),
+				openBrowserStorage({ ttl: 1000 })
+			]).then((storageList) => {
+				assert.deepStrictEqual(opened, [ 'indexedDB', 'indexedDB' ]);
+
+				for(let storage of storageList) {
+					assert.ok(storage instanceof WebStorage);
+					assert.strictEqual((storage as WebStorage).storage, webStorage);
+				}
+
+				delete root.window;
+				return(openBrowserStorage());
+			}).then((storage) => {
+				// Web Workers have no session storage.
+				assert.strictEqual(storage, void 0);
+			}), () => {
+				delete root.window;
+				delete root.indexedDB;
+			}));
+		}
+	}
+];
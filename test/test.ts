@@ -1,25 +1,97 @@
-import * as FS from 'fs';
-import * as Path from 'path';
+import * as assert from 'assert';
 import * as SystemType from 'systemjs';
+
 import { Resolver } from '../dist/Resolver';
-import { isNode, ifExists, fetch as fetcher } from '../dist/fetch';
+import { ifExists, fetch, path2url } from '../dist/fetch';
+import { TestCase, withTree } from './util';
+import { exportsTests, importsTests } from './packageMap';
+import { semverTests } from './semver';
+import { lockfileTests } from './lockfile';
+import { builtinTests } from './builtins';
+import { globalTests } from './globals';
+import { fallbackTests } from './fallback';
+import { rpcTests } from './rpc';
+import { loaderTests } from './loaders';
+import { esmLoaderTests } from './esmLoader';
+import { manifestTests } from './manifest';
+import { httpTests } from './http';
+import { storageTests } from './storage';
+import { diskCacheTests } from './diskCache';
+import { watcherTests } from './watcher';
+import { devServerTests } from './devServer';
+import { crawlTests } from './crawl';
+import { importMapTests } from './importMap';
+import { snapshotTests } from './snapshot';
+import { traceTests } from './trace';
+import { graphTests } from './graph';
+import { nestedTests } from './nested';
+import { workspaceTests } from './workspace';
+import { extensionTests } from './extensions';
+import { assetTests } from './assets';
+
+const System: typeof SystemType = eval("require('systemjs')");
 
-declare var SystemJS: typeof SystemType;
-var System: typeof SystemType = typeof(SystemJS) == 'object' ? SystemJS : null as any;
+const systemTests: TestCase[] = [
+	{
+		name: 'patched SystemJS loads packages from node_modules',
+		run: () => withTree({
+			'package.json': '{ "name": "app", "dependencies": { "dep": "^1.0.0" } }',
+			'src/main.js': 'module.exports = require("dep") + 1;\n',
+			'node_modules/dep/package.json': '{ "name": "dep", "version": "1.0.0", "main": "lib/dep.js" }',
+			'node_modules/dep/lib/dep.js': 'module.exports = 41;\n'
+		}, (dir: string) => {
+			const system = new System.constructor();
 
-const fetch = fetcher;
+			new Resolver(ifExists, fetch).patchSystem(system);
 
-if(isNode) {
-	const fs: typeof FS = eval("require('fs')");
-	const path: typeof Path = eval("require('path')");
+			return(system.import(path2url(dir) + '/src/main.js').then((value: any) => {
+				assert.strictEqual(value, 42);
+			}));
+		})
+	}
+];
 
-	eval(fs.readFileSync(require.resolve('systemjs'), 'utf-8'));
-	eval(
-		"var SystemJS = System = module.exports;" +
-		fs.readFileSync(path.resolve(__dirname, '../config.js'), 'utf-8')
-	);
-}
+const testList = ([] as TestCase[]).concat(
+	systemTests,
+	exportsTests,
+	importsTests,
+	semverTests,
+	lockfileTests,
+	fallbackTests,
+	builtinTests,
+	globalTests,
+	rpcTests,
+	loaderTests,
+	esmLoaderTests,
+	manifestTests,
+	httpTests,
+	storageTests,
+	diskCacheTests,
+	watcherTests,
+	devServerTests,
+	crawlTests,
+	importMapTests,
+	snapshotTests,
+	traceTests,
+	graphTests,
+	nestedTests,
+	workspaceTests,
+	extensionTests,
+	assetTests
+);
 
-const system = new System.constructor();
+let failCount = 0;
 
-new Resolver(ifExists, fetch).patchSystem(system);
+testList.reduce((ready: Promise<void>, test: TestCase) => ready.then(
+	() => test.run()
+).then(
+	() => console.log('ok - ' + test.name),
+	(err: any) => {
+		++failCount;
+		console.log('not ok - ' + test.name);
+		console.log(err && err.stack || err);
+	}
+), Promise.resolve()).then(() => {
+	console.log((testList.length - failCount) + ' / ' + testList.length + ' tests passed');
+	if(failCount) process.exitCode = 1;
+});
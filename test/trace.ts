@@ -0,0 +1,126 @@
+import * as assert from 'assert';
+
+import { Resolver } from '../dist/Resolver';
+import { Trace, TraceStep } from '../dist/Trace';
+import { ifExists, fetch, path2url } from '../dist/fetch';
+import { TestCase, withTree } from './util';
+
+/** Project with a browser entry point and a directory import. */
+
+const projectFiles = {
+	'package.json': '{ "name": "app", "dependencies": { "dep": "^1.0.0" } }',
+	'src/main.js': '',
+	'src/lib/index.js': '',
+	'node_modules/dep/package.json': '{ "name": "dep", "version": "1.0.0", "browser": "browser.js" }',
+	'node_modules/dep/index.js': '',
+	'node_modules/dep/browser.js': ''
+};
+
+/** Get steps of one type from a trace. */
+
+function getSteps(trace: Trace, type: string) {
+	return(trace.steps.filter((step: TraceStep) => step.type == type));
+}
+
+export const traceTests: TestCase[] = [
+	{
+		name: 'traces explain each step in order',
+		run: () => {
+			const trace = new Trace('dep', 'https://example.invalid/main.js');
+
+			trace.add({ type: 'probe', uri: 'https://example.invalid/dep.js', found: false });
+			trace.add({ type: 'fallback', name: 'dep', version: '1.0.0', reason: 'matching ^1.0.0' });
+			trace.add({ type: 'package', name: 'dep', root: 'https://cdn.invalid/dep@1.0.0' });
+			trace.add({ type: 'remap', field: 'exports', from: '.', to: './main.js' });
+			trace.add({ type: 'probe', uri: 'https://cdn.invalid/dep@1.0.0/main.js', found: true, target: 'https://cdn.invalid/dep@1.0.0/main.mjs' });
+			trace.add({ type: 'resolved', uri: 'https://cdn.invalid/dep@1.0.0/main.mjs' });
+
+			assert.strictEqual(trace.explain(), [
+				'Resolving dep imported from https://example.invalid/main.js:',
+				'  Missing https://example.invalid/dep.js',
+				'  Package dep not installed, trying fallbacks with version 1.0.0 (matching ^1.0.0)',
+				'  Using package.json of dep in https://cdn.invalid/dep@1.0.0',
+				'  Mapped . to ./main.js (exports field in package.json)',
+				'  Found https://cdn.invalid/dep@1.0.0/main.js (redirected to https://cdn.invalid/dep@1.0.0/main.mjs)',
+				'  Resolved to https://cdn.invalid/dep@1.0.0/main.mjs'
+			].join('\n'));
+
+			return(trace.probe('https://example.invalid/missing.js', Promise.reject(new Error('Missing'))).then(
+				() => assert.fail('Probe should fail'),
+				() => assert.deepStrictEqual(trace.steps[trace.steps.length - 1], {
+					type: 'probe',
+					uri: 'https://example.invalid/missing.js',
+					found: false
+				})
+			));
+		}
+	}, {
+		name: 'resolvers report traces of successful imports',
+		run: () => withTree(projectFiles, (dir: string) => {
+			const root = path2url(dir);
+			const main = root + '/src/main.js';
+			const traceList: Trace[] = [];
+			const resolver = new Resolver(ifExists, fetch, void 0, {
+				onTrace: (trace: Trace) => traceList.push(trace)
+			});
+
+			return(resolver.resolve('dep', main).then(() => resolver.resolve('./lib', main)).then(() => {
+				const [ dep, lib ] = traceList;
+
+				assert.strictEqual(traceList.length, 2);
+
+				assert.strictEqual(dep.name, 'dep');
+				assert.strictEqual(dep.parentAddress, main);
+				assert.strictEqual(dep.result, root + '/node_modules/dep/browser.js');
+				assert.deepStrictEqual(dep.steps[dep.steps.length - 1], { type: 'resolved', uri: dep.result });
+
+				assert.ok(getSteps(dep, 'package').some(
+					(step: TraceStep) => step.type == 'package' && step.name == 'dep' && step.root == root + '/node_modules/dep'
+				));
+
+				assert.ok(getSteps(dep, 'remap').some(
+					(step: TraceStep) => step.type == 'remap' && step.field == 'browser' && step.to == 'browser.js'
+				));
+
+				assert.ok(dep.explain().match(/\n  Using package\.json of dep in .*\n/));
+				assert.ok(dep.explain().match(/\(browser field in package\.json\)/));
+
+				assert.strictEqual(lib.result, root + '/src/lib/index.js');
+				assert.ok(getSteps(lib, 'remap').some(
+					(step: TraceStep) => step.type == 'remap' && step.field == 'index' && step.to == lib.result
+				));
+				assert.ok(getSteps(lib, 'probe').some(
+					(step: TraceStep) => step.type == 'probe' && step.found && step.uri == lib.result
+				));
+			}));
+		})
+	}, {
+		name: 'failed imports have traces explaining the failure',
+		run: () => withTree(projectFiles, (dir: string) => {
+			const main = path2url(dir) + '/src/main.js';
+			const traceList: Trace[] = [];
+			const resolver = new Resolver(ifExists, fetch, void 0, {
+				fallbacks: [],
+				onTrace: (trace: Trace) => traceList.push(trace)
+			});
+
+			return(resolver.resolve('./missing', main).then(
+				() => assert.fail('Import should fail'),
+				(err: any) => {
+					const trace: Trace = err.trace;
+					const lines = trace.explain().split('\n');
+
+					assert.strictEqual(traceList[0], trace);
+					assert.strictEqual(trace.result, void 0);
+					assert.strictEqual(trace.error, err);
+
+					assert.ok(getSteps(trace, 'probe').length > 0);
+					assert.ok(getSteps(trace, 'probe').every((step: TraceStep) => step.type == 'probe' && !step.found));
+
+					assert.strictEqual(lines[0], 'Resolving ./missing imported from ' + main + ':');
+					assert.ok(lines[lines.length - 1].match(/^  Failed: /));
+				}
+			));
+		})
+	}
+];
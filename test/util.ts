@@ -0,0 +1,100 @@
+import * as FS from 'fs';
+import * as OS from 'os';
+import * as Path from 'path';
+import * as HTTP from 'http';
+
+const fs: typeof FS = eval("require('fs')");
+const os: typeof OS = eval("require('os')");
+const path: typeof Path = eval("require('path')");
+const http: typeof HTTP = eval("require('http')");
+
+export interface TestCase {
+	name: string;
+	run: () => Promise<any>;
+}
+
+/** Create a temporary directory containing files.
+  *
+  * @param files Contents by path relative to the directory.
+  * @return Native path of the directory. */
+
+export function makeTree(files: { [name: string]: string | Buffer }) {
+	const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'cresolve-test-')));
+
+	for(let name of Object.keys(files)) {
+		const nativePath = path.join(dir, name);
+		const parts = path.relative(dir, path.dirname(nativePath)).split(path.sep);
+		let parent = dir;
+
+		for(let part of parts) {
+			if(!part) continue;
+			parent = path.join(parent, part);
+			if(!fs.existsSync(parent)) fs.mkdirSync(parent);
+		}
+
+		fs.writeFileSync(nativePath, files[name]);
+	}
+
+	return(dir);
+}
+
+/** Remove a directory recursively. */
+
+export function removeTree(dir: string) {
+	for(let name of fs.readdirSync(dir)) {
+		const nativePath = path.join(dir, name);
+
+		if(fs.lstatSync(nativePath).isDirectory()) removeTree(nativePath);
+		else fs.unlinkSync(nativePath);
+	}
+
+	fs.rmdirSync(dir);
+}
+
+/** Run a test with a local HTTP server standing in for a remote one,
+  * stopping it afterwards.
+  *
+  * @param run Function receiving the server address with a slash at the end. */
+
+export function withServer<Type>(
+	handler: (req: HTTP.IncomingMessage, res: HTTP.ServerResponse) => void,
+	run: (base: string, server: HTTP.Server) => Promise<Type>
+) {
+	const server = http.createServer(handler);
+
+	return(new Promise((resolve: () => void) => server.listen(0, 'localhost', resolve)).then(() => after(
+		run('http://localhost:' + (server.address() as any).port + '/', server),
+		() => new Promise((resolve: () => void) => server.close(() => resolve()))
+	)));
+}
+
+/** Run a test with files in a temporary directory, removing it afterwards.
+  *
+  * @param files Contents by path relative to the directory.
+  * @param run Function receiving the native path of the directory. */
+
+export function withTree<Type>(files: { [name: string]: string | Buffer }, run: (dir: string) => Promise<Type>) {
+	const dir = makeTree(files);
+
+	return(after(run(dir), () => removeTree(dir)));
+}
+
+/** Clean up after a test, successful or not.
+  *
+  * @return Promise settling like the result, after cleaning up. */
+
+export function after<Type>(result: Promise<Type>, cleanUp: () => any): Promise<Type> {
+	return(result.then(
+		(value: Type) => Promise.resolve(cleanUp()).then(() => value),
+		(err: any) => Promise.resolve(cleanUp()).then(() => { throw(err); })
+	));
+}
+
+/** Check that a promise rejects, resolving to the reason. */
+
+export function rejects(result: Promise<any>) {
+	return(result.then(
+		(value: any) => { throw(new Error('Expected failure, got ' + JSON.stringify(value))); },
+		(err: any) => err
+	));
+}
@@ -0,0 +1,192 @@
+import * as assert from 'assert';
+import * as FS from 'fs';
+import * as Path from 'path';
+import * as SystemType from 'systemjs';
+
+import { Resolver } from '../dist/Resolver';
+import { FileEvent, FileWatcher } from '../dist/FileWatcher';
+import { MessageSource, connectReload } from '../dist/hotReload';
+import { ifExists, fetch, invalidateRequests, path2url } from '../dist/fetch';
+import { TestCase, withTree, after, rejects } from './util';
+
+const fs: typeof FS = eval("require('fs')");
+const path: typeof Path = eval("require('path')");
+const System: typeof SystemType = eval("require('systemjs')");
+
+/** Collect events from a watcher.
+  *
+  * @return Function resolving after the watcher reports an event
+  *   matching a type and path, or rejecting after a second. */
+
+function createEventLog(watcher: FileWatcher) {
+	const eventList: FileEvent[] = [];
+	let check = () => {};
+
+	watcher.on((event: FileEvent) => {
+		eventList.push(event);
+		check();
+	});
+
+	return((type: string, name: string) => new Promise((resolve: (events: FileEvent[]) => void, reject) => {
+		const url = watcher.baseURL + name;
+		const timer = setTimeout(() => reject(new Error('No ' + type + ' event for ' + name)), 1000);
+
+		check = () => {
+			if(!eventList.some((event: FileEvent) => event.type == type && event.url == url)) return;
+
+			clearTimeout(timer);
+			check = () => {};
+			resolve(eventList.splice(0));
+		};
+
+		check();
+	}));
+}
+
+/** Wait for watchers to start, since fs.watch misses earlier changes. */
+
+function wait(delay = 100) {
+	return(new Promise((resolve: () => void) => setTimeout(resolve, delay)));
+}
+
+/** Connection passing messages from the test to connectReload. */
+
+function createSource() {
+	const source: MessageSource = {
+		onmessage: null,
+		close: () => {}
+	};
+
+	const send = (event: FileEvent) => source.onmessage!({ data: JSON.stringify(event) } as MessageEvent);
+
+	return({ source, send });
+}
+
+export const watcherTests: TestCase[] = [
+	{
+		name: 'watchers report added, changed and removed files outside ignored directories',
+		run: () => withTree({
+			'src/main.js': '',
+			'node_modules/dep/index.js': '',
+			'.git/HEAD': ''
+		}, (dir: string) => {
+			const watcher = new FileWatcher(dir, { delay: 20 });
+			const waitFor = createEventLog(watcher);
+
+			return(after(wait().then(() => {
+				if(process.platform == 'linux') {
+					// Ignored directories are not watched at all.
+					assert.deepStrictEqual(Object.keys((watcher as any).watcherTbl).sort(), [ '', 'src' ]);
+				}
+
+				fs.writeFileSync(path.join(dir, 'node_modules/dep/index.js'), 'changed');
+				fs.writeFileSync(path.join(dir, '.git/HEAD'), 'changed');
+				fs.writeFileSync(path.join(dir, 'src/main.js'), 'changed');
+
+				return(waitFor('change', 'src/main.js'));
+			}).then((eventList: FileEvent[]) => {
+				assert.deepStrictEqual(eventList, [ { type: 'change', url: watcher.baseURL + 'src/main.js' } ]);
+
+				fs.mkdirSync(path.join(dir, 'src/lib'));
+				return(wait());
+			}).then(() => {
+				fs.writeFileSync(path.join(dir, 'src/lib/util.js'), '');
+				return(waitFor('add', 'src/lib/util.js'));
+			}).then(() => {
+				fs.unlinkSync(path.join(dir, 'src/main.js'));
+				return(waitFor('unlink', 'src/main.js'));
+			}), () => watcher.close()));
+		})
+	}, {
+		name: 'invalidating a file keeps results for other addresses sharing its prefix',
+		run: () => withTree({
+			'src/a.js': '',
+			'src/a.js.map': '',
+			'src/lib/b.js': '',
+			'src/library.js': ''
+		}, (dir: string) => {
+			const base = path2url(dir) + '/src/';
+			const nameList = [ 'a.js', 'a.js.map', 'lib/b.js', 'library.js' ];
+			const checkAll = () => Promise.all(nameList.map(
+				(name: string) => ifExists(base + name).then(() => true, () => false)
+			));
+
+			return(checkAll().then((existList: boolean[]) => {
+				assert.deepStrictEqual(existList, [ true, true, true, true ]);
+
+				for(let name of nameList) fs.unlinkSync(path.join(dir, 'src', name));
+
+				// Files are still cached as existing until invalidated.
+				return(Promise.all([
+					invalidateRequests(base + 'a.js'),
+					new Resolver(ifExists, fetch).invalidate(base + 'lib')
+				]));
+			}).then(checkAll).then((existList: boolean[]) => {
+				assert.deepStrictEqual(existList, [ false, true, false, true ]);
+
+				return(invalidateRequests(base));
+			}).then(checkAll).then((existList: boolean[]) => {
+				assert.deepStrictEqual(existList, [ false, false, false, false ]);
+			}));
+		})
+	}, {
+		name: 'hot reloading imports entry points again with changed files',
+		run: () => withTree({
+			'package.json': '{ "name": "app" }',
+			'src/main.js': 'module.exports = require("./value") + 1;\n',
+			'src/value.js': 'module.exports = 41;\n',
+			'src/other.js': 'module.exports = 0;\n'
+		}, (dir: string) => {
+			const system = new System.constructor();
+			const resolver = new Resolver(ifExists, fetch);
+			const main = path2url(dir) + '/src/main.js';
+			const value = path2url(dir) + '/src/value.js';
+			const { source, send } = createSource();
+			const reloadList: string[][] = [];
+			const errorList: FileEvent[] = [];
+
+			resolver.patchSystem(system);
+
+			return(system.import(main).then((result: number) => {
+				assert.strictEqual(result, 42);
+
+				return(new Promise((resolve: () => void) => {
+					connectReload(resolver, source, {
+						onReload: (event: FileEvent, deleted: string[]) => {
+							reloadList.push(deleted.sort());
+							if(reloadList.length == 2) resolve();
+						},
+						onError: (err: any, event: FileEvent) => errorList.push(event)
+					});
+
+					fs.writeFileSync(path.join(dir, 'src/value.js'), 'module.exports = 1;\n');
+
+					// Changes are handled in order.
+					send({ type: 'change', url: value });
+					send({ type: 'change', url: path2url(dir) + '/src/other.js' });
+				}));
+			}).then(() => {
+				assert.deepStrictEqual(reloadList, [ [ main, value ], [] ]);
+				assert.strictEqual(errorList.length, 0);
+				assert.strictEqual(system.registry.get(main).default, 2);
+
+				fs.unlinkSync(path.join(dir, 'src/value.js'));
+
+				return(new Promise((resolve: () => void) => {
+					connectReload(resolver, source, {
+						onError: (err: any, event: FileEvent) => {
+							errorList.push(event);
+							resolve();
+						}
+					});
+
+					send({ type: 'unlink', url: value });
+				}));
+			}).then(() => {
+				assert.deepStrictEqual(errorList, [ { type: 'unlink', url: value } ]);
+
+				return(rejects(system.import(main)));
+			}));
+		})
+	}
+];
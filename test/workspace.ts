@@ -0,0 +1,179 @@
+import * as assert from 'assert';
+import * as SystemType from 'systemjs';
+
+import { Resolver } from '../dist/Resolver';
+import { Trace, TraceStep } from '../dist/Trace';
+import { ifExists, fetch, path2url } from '../dist/fetch';
+import {
+	getWorkspacePatterns,
+	parsePnpmWorkspace,
+	parseModulesYaml,
+	matchWorkspace,
+	getLiteralWorkspaces,
+	guessWorkspaceFolders,
+	getStoreFolder
+} from '../dist/workspace';
+import { TestCase, withTree } from './util';
+
+const System: typeof SystemType = eval("require('systemjs')");
+
+/** npm monorepo with workspaces in a folder named after the package
+  * and in a folder named in the patterns. Nothing is linked in node_modules. */
+
+const npmFiles = {
+	'package.json': '{ "name": "mono", "private": true, "workspaces": [ "packages/*", "tools/build", "!packages/old" ] }',
+	'package-lock.json': '{ "lockfileVersion": 3, "packages": {} }',
+	'packages/app/package.json': '{ "name": "@mono/app", "dependencies": { "@mono/util": "*", "builder": "*" } }',
+	'packages/app/src/main.js': 'module.exports = require("@mono/util") + require("builder");\n',
+	'packages/util/package.json': '{ "name": "@mono/util", "main": "lib/util.js" }',
+	'packages/util/lib/util.js': 'module.exports = 10;\n',
+	'tools/build/package.json': '{ "name": "builder" }',
+	'tools/build/index.js': 'module.exports = 1;\n'
+};
+
+/** pnpm monorepo with packages only in the virtual store. */
+
+const pnpmFiles = {
+	'package.json': '{ "name": "mono", "private": true }',
+	'pnpm-workspace.yaml': 'packages:\n  # Applications\n  - "packages/*"\n',
+	'pnpm-lock.yaml': [
+		"lockfileVersion: '9.0'",
+		'',
+		'importers:',
+		'',
+		'  .: {}',
+		'',
+		'  packages/app:',
+		'    dependencies:',
+		'      a:',
+		'        specifier: ^1.0.0',
+		'        version: 1.1.0',
+		'      util:',
+		'        specifier: workspace:*',
+		'        version: link:../util',
+		'',
+		'  packages/util: {}',
+		'',
+		'snapshots:',
+		'',
+		'  a@1.1.0:',
+		'    dependencies:',
+		'      b: 1.0.0',
+		'',
+		'  b@1.0.0: {}',
+		''
+	].join('\n'),
+	'node_modules/.modules.yaml': 'nodeLinker: isolated\nvirtualStoreDir: .pnpm\n',
+	'node_modules/.pnpm/a@1.1.0/node_modules/a/package.json': '{ "name": "a", "version": "1.1.0", "dependencies": { "b": "^1.0.0" } }',
+	'node_modules/.pnpm/a@1.1.0/node_modules/a/index.js': 'module.exports = require("b") + 1;\n',
+	'node_modules/.pnpm/b@1.0.0/node_modules/b/package.json': '{ "name": "b", "version": "1.0.0" }',
+	'node_modules/.pnpm/b@1.0.0/node_modules/b/index.js': 'module.exports = 1;\n',
+	'packages/app/package.json': '{ "name": "app", "dependencies": { "a": "^1.0.0", "util": "workspace:*" } }',
+	'packages/app/src/main.js': 'module.exports = require("util") + require("a");\n',
+	'packages/util/package.json': '{ "name": "util" }',
+	'packages/util/index.js': 'module.exports = 10;\n'
+};
+
+/** Get links to workspaces or the pnpm store recorded in traces. */
+
+function getLinks(traceList: Trace[]) {
+	const linkList: string[] = [];
+
+	for(let trace of traceList) {
+		for(let step of trace.steps) {
+			if(step.type == 'link') linkList.push(step.layout + ' ' + step.name);
+		}
+	}
+
+	return(linkList.sort());
+}
+
+export const workspaceTests: TestCase[] = [
+	{
+		name: 'workspace patterns and pnpm layout are read from project files',
+		run: () => {
+			assert.deepStrictEqual(getWorkspacePatterns({ workspaces: [ 'a/*', 1 ] }), [ 'a/*' ]);
+			assert.deepStrictEqual(getWorkspacePatterns({ workspaces: { packages: [ 'b' ] } }), [ 'b' ]);
+			assert.deepStrictEqual(getWorkspacePatterns({}), []);
+
+			assert.deepStrictEqual(parsePnpmWorkspace([
+				'# Comment',
+				'packages:',
+				"  - 'packages/*'",
+				'  - "!**/test/**" # Excluded',
+				'catalog:',
+				'  - ignored'
+			].join('\n')), [ 'packages/*', '!**/test/**' ]);
+			assert.deepStrictEqual(parsePnpmWorkspace("packages: [ 'a/*', \"b\" ]\n"), [ 'a/*', 'b' ]);
+
+			assert.strictEqual(parseModulesYaml('virtualStoreDir: .pnpm\n'), 'node_modules/.pnpm');
+			assert.strictEqual(parseModulesYaml('virtualStoreDir: /home/user/app/node_modules/.pnpm\n'), 'node_modules/.pnpm');
+			assert.strictEqual(parseModulesYaml('virtualStoreDir: C:\\app\\node_modules\\.pnpm\n'), 'node_modules/.pnpm');
+			assert.strictEqual(parseModulesYaml('nodeLinker: hoisted\nvirtualStoreDir: .pnpm\n'), void 0);
+
+			const patterns = [ 'packages/*', 'tools/**', '!packages/old', './apps/web/' ];
+
+			assert.ok(matchWorkspace(patterns, 'packages/app'));
+			assert.ok(matchWorkspace(patterns, 'tools/a/b'));
+			assert.ok(matchWorkspace(patterns, 'apps/web'));
+			assert.ok(!matchWorkspace(patterns, 'packages/old'));
+			assert.ok(!matchWorkspace(patterns, 'packages/app/sub'));
+
+			assert.deepStrictEqual(getLiteralWorkspaces(patterns), [ 'apps/web' ]);
+			assert.deepStrictEqual(guessWorkspaceFolders(patterns, '@scope/util'), [ 'packages/util', 'tools/util' ]);
+			assert.deepStrictEqual(guessWorkspaceFolders(patterns, 'old'), [ 'tools/old' ]);
+
+			assert.strictEqual(getStoreFolder('@scope/name@1.0.0(peer@2.0.0)(other@3.0.0)'), '@scope+name@1.0.0_peer@2.0.0_other@3.0.0');
+
+			return(Promise.resolve());
+		}
+	}, {
+		name: 'workspace packages are mapped to their source folders',
+		run: () => withTree(npmFiles, (dir: string) => {
+			const system = new System.constructor();
+			const traceList: Trace[] = [];
+			const resolver = new Resolver(ifExists, fetch, void 0, {
+				fallbacks: [],
+				onTrace: (trace: Trace) => traceList.push(trace)
+			});
+			const root = path2url(dir);
+
+			resolver.patchSystem(system);
+
+			return(system.import(root + '/packages/app/src/main.js').then((value: number) => {
+				assert.strictEqual(value, 11);
+				assert.strictEqual(resolver.systemConfig.map['@mono/util'], root + '/packages/util');
+				assert.strictEqual(resolver.systemConfig.map['builder'], root + '/tools/build');
+				assert.deepStrictEqual(getLinks(traceList), [ 'workspace @mono/util', 'workspace builder' ]);
+			}));
+		})
+	}, {
+		name: 'packages pinned in pnpm lockfiles are found in the virtual store',
+		run: () => withTree(pnpmFiles, (dir: string) => {
+			const system = new System.constructor();
+			const traceList: Trace[] = [];
+			const resolver = new Resolver(ifExists, fetch, void 0, {
+				fallbacks: [],
+				onTrace: (trace: Trace) => traceList.push(trace)
+			});
+			const root = path2url(dir);
+			const store = root + '/node_modules/.pnpm';
+
+			resolver.patchSystem(system);
+
+			return(system.import(root + '/packages/app/src/main.js').then((value: number) => {
+				assert.strictEqual(value, 12);
+
+				assert.strictEqual(resolver.systemConfig.map['util'], root + '/packages/util');
+				assert.strictEqual(resolver.systemConfig.map['a'], store + '/a@1.1.0/node_modules/a');
+				assert.strictEqual(resolver.systemConfig.map['b'], store + '/b@1.0.0/node_modules/b');
+
+				assert.deepStrictEqual(getLinks(traceList), [ 'pnpm a', 'pnpm b', 'workspace util' ]);
+
+				assert.ok(traceList.some((trace: Trace) => trace.steps.some(
+					(step: TraceStep) => step.type == 'link' && step.root == store + '/b@1.0.0/node_modules/b'
+				)));
+			}));
+		})
+	}
+];